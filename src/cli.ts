@@ -2,13 +2,21 @@
 
 import { Command } from 'commander';
 import * as dotenv from 'dotenv';
-import { ContentFetcher } from './services/fetcher';
-import { AISummarizer } from './services/summarizer';
-import { ObsidianIntegration } from './services/obsidian';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContentFetcher, FetchMode, FETCH_MODES, isRemoteUrl } from './services/fetcher';
+import { AISummarizer, logSummaryProgress } from './services/summarizer';
+import { DuplicatePolicy, DUPLICATE_POLICIES, ObsidianIntegration } from './services/obsidian';
+import { SinkRegistry, findSkippedOutput, logSinkResult, writeToSinks } from './services/sinks';
 import { ConfigManager } from './utils/config';
-import { TriggerManager } from './services/triggers';
+import { DEFAULT_WEBHOOK_PORT, TriggerManager, createOpml, exportOpmlFeeds, importOpmlFeeds, parseOpml } from './services/triggers';
+import { Job, JobQueue, JobState, JOB_STATES } from './services/queue';
+import { TriggerStateStore, resolveStateDir } from './services/state';
+import { Resummarizer } from './services/resummarizer';
+import { parsePropertyQuery } from './services/frontmatter';
 
-dotenv.config();
+// Quiet, so commands that write to stdout (e.g. triggers export-opml) produce clean output
+dotenv.config({ quiet: true });
 
 const program = new Command();
 
@@ -19,19 +27,44 @@ program
 
 program
   .command('summarize')
-  .description('Summarize a news article from URL')
-  .argument('<url>', 'URL of the article to summarize')
+  .description('Summarize a news article from a URL, local file or stdin')
+  .argument('<source>', 'article URL, local file (.html, .htm, .md, .txt) or - for stdin')
   .option('-p, --prompt <name>', 'prompt template to use', 'default')
   .option('-o, --output <path>', 'output directory (relative to vault)')
   .option('-c, --config <path>', 'path to config file')
-  .option('-m, --model <model>', 'AI model to use (overrides config)')
-  .action(async (url: string, options: any) => {
+  .option('-m, --model <model>', 'AI model to use, optionally as provider:model (e.g. anthropic:claude-sonnet-4-5, ollama:llama3.1) (overrides config)')
+  .option('-f, --fetch-mode <mode>', `fetch strategy: ${FETCH_MODES.join('|')} (overrides config)`)
+  .option('--clip', 'also save the source article and its images to the vault (see obsidian.clip)')
+  .option('-d, --on-duplicate <policy>', `when a note for the URL exists: ${DUPLICATE_POLICIES.join('|')} (overrides config)`)
+  .option('-s, --sinks <names>', 'comma-separated sinks to send the summary to (default: defaultSinks, or obsidian)')
+  .action(async (source: string, options: any) => {
     try {
-      console.log(`📰 Fetching article from: ${url}`);
+      if (options.fetchMode && !FETCH_MODES.includes(options.fetchMode)) {
+        console.error(`❌ Invalid fetch mode '${options.fetchMode}'. Use one of: ${FETCH_MODES.join(', ')}`);
+        process.exit(1);
+      }
+
+      if (options.onDuplicate && !DUPLICATE_POLICIES.includes(options.onDuplicate)) {
+        console.error(`❌ Invalid duplicate policy '${options.onDuplicate}'. Use one of: ${DUPLICATE_POLICIES.join(', ')}`);
+        process.exit(1);
+      }
+
+      if (source === '-') {
+        console.log('📰 Reading article from stdin');
+      } else if (isRemoteUrl(source)) {
+        console.log(`📰 Fetching article from: ${source}`);
+      } else {
+        console.log(`📰 Reading article from file: ${source}`);
+      }
       
       // Initialize services
       const configManager = new ConfigManager(options.config);
       const config = await configManager.loadConfig();
+
+      // Apply the model override first so the right provider's API key is validated
+      if (options.model) {
+        config.ai.model = options.model;
+      }
       
       // Validate configuration
       const validation = await configManager.validateConfig();
@@ -41,25 +74,39 @@ program
         process.exit(1);
       }
       
-      const fetcher = new ContentFetcher();
-      const summarizer = new AISummarizer(config.ai.apiKey, config.ai.baseUrl);
+      const fetcher = new ContentFetcher(config.fetcher);
+      const summarizer = AISummarizer.fromConfig(config.ai);
       
-      // Override output folder if specified
-      if (options.output) {
-        config.obsidian.outputFolder = options.output;
+      if (options.onDuplicate) {
+        config.obsidian.duplicatePolicy = options.onDuplicate as DuplicatePolicy;
+      }
+
+      if (options.clip) {
+        config.obsidian.clip = { ...config.obsidian.clip, enabled: true };
       }
       
-      const obsidian = new ObsidianIntegration(config.obsidian);
+      // An explicit output folder also bypasses the routing rules
+      const sinks = new SinkRegistry(config).resolve(
+        options.sinks?.split(',').map((name: string) => name.trim()).filter(Boolean),
+        { outputFolder: options.output }
+      );
       
       // Fetch article
       console.log('🔍 Extracting article content...');
-      const article = await fetcher.fetchArticle(url);
+      const article = await fetcher.fetchSource(source, { mode: options.fetchMode as FetchMode | undefined });
       
       if (!article.markdownContent || article.markdownContent.length < 100) {
         throw new Error('Could not extract sufficient content from the article');
       }
       
       console.log(`✅ Extracted article content from: ${article.url}`);
+
+      const existingNote = await findSkippedOutput(sinks, article.url);
+      if (existingNote) {
+        console.log(`⏭️ A note for this URL already exists, skipping: ${existingNote}`);
+        await fetcher.close();
+        return;
+      }
       
       // Get prompt template
       const promptTemplate = config.prompts[options.prompt];
@@ -72,13 +119,13 @@ program
       // Summarize
       const modelToUse = options.model || config.ai.model;
       console.log(`🤖 Generating summary using '${promptTemplate.name}' prompt with ${modelToUse}...`);
-      const summary = await summarizer.summarize(article, promptTemplate, modelToUse);
-      
-      // Save to Obsidian
-      console.log('💾 Saving to Obsidian vault...');
-      const savedPath = await obsidian.saveArticle(summary);
+      const summary = await summarizer.summarize(article, promptTemplate, modelToUse, {
+        onProgress: logSummaryProgress
+      });
       
-      console.log(`✅ Summary saved to: ${savedPath}`);
+      // Send to the selected sinks
+      console.log(`💾 Saving to ${sinks.map(sink => sink.name).join(', ')}...`);
+      (await writeToSinks(sinks, summary)).forEach(logSinkResult);
       
       // Cleanup
       await fetcher.close();
@@ -116,6 +163,10 @@ program
           console.log('❌ Configuration errors:');
           validation.errors.forEach(error => console.log(`  - ${error}`));
         }
+        if (validation.warnings.length > 0) {
+          console.log('⚠️ Configuration warnings:');
+          validation.warnings.forEach(warning => console.log(`  - ${warning}`));
+        }
         return;
       }
       
@@ -124,7 +175,16 @@ program
         console.log('📄 Current configuration:');
         console.log(JSON.stringify({
           ...config,
-          ai: { ...config.ai, apiKey: config.ai.apiKey ? '***set***' : '***not set***' }
+          ai: {
+            ...config.ai,
+            apiKey: config.ai.apiKey ? '***set***' : '***not set***',
+            providers: config.ai.providers && Object.fromEntries(
+              Object.entries(config.ai.providers).map(([name, provider]) => [
+                name,
+                { ...provider, ...(provider?.apiKey ? { apiKey: '***set***' } : {}) }
+              ])
+            )
+          }
         }, null, 2));
         return;
       }
@@ -158,7 +218,7 @@ program
     }
   });
 
-program
+const triggersCommand = program
   .command('triggers')
   .description('Manage automated triggers')
   .option('-l, --list', 'list all triggers')
@@ -167,6 +227,7 @@ program
   .option('--stop [id]', 'stop trigger(s) - specific ID or all')
   .option('--test <id>', 'test trigger immediately (processes existing items)')
   .option('--test-limit <number>', 'max items to process in test mode (default: 2)', '2')
+  .option('--skipped <id>', 'list items the trigger skipped because of its filters, with the reason')
   .option('-c, --config <path>', 'path to config file')
   .action(async (options: any) => {
     try {
@@ -180,6 +241,25 @@ program
         console.log('📭 No triggers configured. Add triggers to your config.json file.');
         return;
       }
+
+      if (options.skipped) {
+        const store = TriggerStateStore.forTrigger(resolveStateDir(config.stateDir), options.skipped);
+        await store.load();
+        const skipped = store.listItems('skipped');
+        if (skipped.length === 0) {
+          console.log(`📭 Trigger ${options.skipped} has not skipped any items`);
+          return;
+        }
+        console.log(`⏭️ ${skipped.length} item(s) skipped by ${options.skipped}:`);
+        skipped.forEach(item => {
+          console.log(`  ${item.updated.substring(0, 16).replace('T', ' ')} ${item.title || item.url || item.id}`);
+          if (item.url && item.title) {
+            console.log(`      ${item.url}`);
+          }
+          console.log(`      Reason: ${item.reason || 'unknown'}`);
+        });
+        return;
+      }
       
       await triggerManager.loadTriggers(config.triggers);
 
@@ -192,6 +272,26 @@ program
             console.log(`    Feed: ${(trigger as any).feedUrl}`);
             console.log(`    Schedule: ${trigger.schedule}`);
             console.log(`    Profile: ${trigger.profile}`);
+          } else if (trigger.type === 'page') {
+            console.log(`    Page: ${(trigger as any).pageUrl}`);
+            console.log(`    Schedule: ${trigger.schedule}`);
+            console.log(`    Profile: ${trigger.profile}`);
+          } else if (trigger.type === 'webhook') {
+            console.log(`    Listening: http://${(trigger as any).host || '127.0.0.1'}:${(trigger as any).port ?? DEFAULT_WEBHOOK_PORT}`);
+            console.log(`    Profile: ${trigger.profile}`);
+          } else if (trigger.type === 'watch') {
+            console.log(`    Inbox: ${(trigger as any).path}`);
+            console.log(`    Schedule: ${trigger.schedule || '* * * * *'}`);
+            console.log(`    Profile: ${trigger.profile}`);
+          }
+          if (trigger.sinks) {
+            console.log(`    Sinks: ${trigger.sinks.join(', ')}`);
+          }
+          if (trigger.outputFolder) {
+            console.log(`    Folder: ${trigger.outputFolder}`);
+          }
+          if (trigger.model) {
+            console.log(`    Model: ${trigger.model}`);
           }
         });
         return;
@@ -258,6 +358,7 @@ program
         // Wait a moment for the test to complete
         console.log('⏳ Processing... (this may take a moment)');
         await new Promise(resolve => setTimeout(resolve, 10000));
+        await triggerManager.waitForQueue();
         
         await triggerManager.stopTrigger(options.test);
         console.log(`✅ Test completed for trigger ${options.test}`);
@@ -273,6 +374,99 @@ program
     }
   });
 
+/**
+ * Parse repeated "category=value" options into a mapping.
+ */
+function parseCategoryMapping(pairs: string[], option: string): Record<string, string> {
+  const mapping: Record<string, string> = {};
+  for (const pair of pairs) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0 || separator === pair.length - 1) {
+      throw new Error(`Invalid ${option} '${pair}'. Use category=value`);
+    }
+    mapping[pair.substring(0, separator).trim()] = pair.substring(separator + 1).trim();
+  }
+  return mapping;
+}
+
+triggersCommand
+  .command('import-opml')
+  .description('Create RSS triggers from an OPML file, updating the triggers of feeds that already exist')
+  .argument('<file>', 'OPML file exported from a feed reader')
+  .option('-p, --profile <name>', 'profile of new triggers (default: defaultPrompt)')
+  .option('--schedule <cron>', 'schedule of new triggers', '0 * * * *')
+  .option('--map <category=profile>', 'profile for the feeds in a category (repeatable)', collect, [])
+  .option('--folder <category=folder>', 'output folder for the feeds in a category (repeatable)', collect, [])
+  .option('--disabled', 'add new triggers disabled')
+  .option('--dry-run', 'show what would change without saving it')
+  .action(async (file: string, options: any) => {
+    try {
+      const configManager = new ConfigManager(triggersCommand.opts().config);
+      const config = await configManager.loadConfig();
+
+      const profiles = parseCategoryMapping(options.map, '--map');
+      const profile = options.profile || config.defaultPrompt;
+      const unknown = [profile, ...Object.values(profiles)].filter(name => !config.prompts[name]);
+      if (unknown.length > 0) {
+        console.error(`❌ Unknown profile '${unknown[0]}'. Available profiles: ${Object.keys(config.prompts).join(', ')}`);
+        process.exit(1);
+      }
+
+      const feeds = parseOpml(await fs.promises.readFile(file, 'utf8'));
+      const result = importOpmlFeeds(config.triggers || [], feeds, {
+        profile,
+        schedule: options.schedule,
+        enabled: !options.disabled,
+        profiles,
+        folders: parseCategoryMapping(options.folder, '--folder')
+      });
+
+      console.log(`📥 ${feeds.length} feed(s) in ${file}: ${result.created.length} new, ${result.updated.length} updated, ${result.unchanged.length} unchanged`);
+      const byId = new Map(result.triggers.map(trigger => [trigger.id, trigger]));
+      for (const [icon, ids] of [['➕', result.created], ['🔄', result.updated]] as const) {
+        ids.forEach(id => {
+          const trigger = byId.get(id)!;
+          console.log(`  ${icon} ${id}: ${trigger.name} (${trigger.profile}${trigger.outputFolder ? `, ${trigger.outputFolder}` : ''})`);
+        });
+      }
+
+      if (options.dryRun) {
+        console.log('🧪 Dry run, the configuration was not changed');
+        return;
+      }
+      if (result.created.length > 0 || result.updated.length > 0) {
+        await configManager.saveTriggers(result.triggers);
+        console.log(`✅ Saved triggers to ${configManager.getConfigPath()}`);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+triggersCommand
+  .command('export-opml')
+  .description('Write the RSS triggers as an OPML file for feed readers')
+  .argument('[file]', 'output file (default: standard output)')
+  .action(async (file: string | undefined) => {
+    try {
+      const configManager = new ConfigManager(triggersCommand.opts().config);
+      const config = await configManager.loadConfig();
+      const feeds = exportOpmlFeeds(config.triggers || []);
+      const opml = createOpml(feeds, 'AI News Summarizer feeds');
+
+      if (!file) {
+        process.stdout.write(opml);
+        return;
+      }
+      await fs.promises.writeFile(file, opml, 'utf8');
+      console.log(`📤 Exported ${feeds.length} RSS trigger(s) to ${file}`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 program
   .command('daemon')
   .description('Run as daemon with all enabled triggers')
@@ -305,6 +499,7 @@ program
       
       await triggerManager.loadTriggers(enabledTriggers);
       await triggerManager.startAllTriggers();
+      await triggerManager.startQueue();
       
       console.log(`✅ Daemon started with ${enabledTriggers.length} trigger(s)`);
       console.log('Press Ctrl+C to stop');
@@ -329,6 +524,210 @@ program
     }
   });
 
+function collect(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+program
+  .command('resummarize')
+  .description('Regenerate the AI summary of existing notes, keeping user edits')
+  .argument('[notes...]', 'note files or folders, relative to the current directory or the vault (default: whole vault)')
+  .option('-w, --where <query>', 'only notes whose frontmatter matches key=value, key!=value, key~regex or key (repeatable)', collect, [])
+  .option('-p, --prompt <name>', 'prompt template to use (default: the profile recorded in each note)')
+  .option('-m, --model <model>', 'AI model to use, optionally as provider:model (overrides config)')
+  .option('-f, --fetch-mode <mode>', `fetch strategy: ${FETCH_MODES.join('|')} (overrides config)`)
+  .option('-c, --config <path>', 'path to config file')
+  .option('--use-clip', 'summarize the saved clip instead of fetching the article again')
+  .option('--diff', 'show the changes without writing them')
+  .option('--force', 'replace the whole body of notes that have no AI summary markers')
+  .action(async (targets: string[], options: any) => {
+    try {
+      if (targets.length === 0 && options.where.length === 0) {
+        console.error('❌ Pass note paths, a folder or at least one --where query');
+        process.exit(1);
+      }
+      if (options.fetchMode && !FETCH_MODES.includes(options.fetchMode)) {
+        console.error(`❌ Invalid fetch mode '${options.fetchMode}'. Use one of: ${FETCH_MODES.join(', ')}`);
+        process.exit(1);
+      }
+
+      const configManager = new ConfigManager(options.config);
+      const config = await configManager.loadConfig();
+      if (options.model) {
+        config.ai.model = options.model;
+      }
+      const validation = await configManager.validateConfig();
+      if (!validation.valid) {
+        console.error('❌ Configuration errors:');
+        validation.errors.forEach(error => console.error(`  - ${error}`));
+        process.exit(1);
+      }
+
+      const fetcher = new ContentFetcher(config.fetcher);
+      const obsidian = new ObsidianIntegration(config.obsidian);
+      const resummarizer = new Resummarizer(fetcher, AISummarizer.fromConfig(config.ai), obsidian, {
+        prompts: config.prompts,
+        defaultPrompt: config.defaultPrompt,
+        model: config.ai.model
+      });
+
+      const vaultPath = config.obsidian.vaultPath;
+      const paths = targets.length > 0
+        ? targets.map(target => (fs.existsSync(target) ? path.resolve(target) : path.resolve(vaultPath, target)))
+        : [vaultPath];
+      const notes = await resummarizer.findNotes(paths, options.where.map(parsePropertyQuery));
+      if (notes.length === 0) {
+        console.log('📭 No matching summary notes found');
+        await fetcher.close();
+        return;
+      }
+      console.log(`🔁 Re-summarizing ${notes.length} note(s)${options.diff ? ' (preview, nothing is written)' : ''}...`);
+
+      let failed = 0;
+      for (const note of notes) {
+        console.log(`📰 ${path.relative(vaultPath, note.path)}`);
+        try {
+          const result = await resummarizer.resummarize(note, {
+            profile: options.prompt,
+            model: options.model,
+            fetchMode: options.fetchMode as FetchMode | undefined,
+            useClip: options.useClip,
+            force: options.force,
+            dryRun: options.diff,
+            onProgress: logSummaryProgress
+          });
+          if (options.diff) {
+            console.log(result.diff || '  No changes');
+          } else {
+            console.log(result.changed
+              ? `✅ Updated with '${result.profile}' from the ${result.source === 'clip' ? 'saved clip' : 'fetched article'}`
+              : '  No changes');
+          }
+        } catch (error) {
+          failed++;
+          console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+
+      await fetcher.close();
+      if (failed > 0) {
+        console.error(`❌ ${failed} of ${notes.length} note(s) could not be re-summarized`);
+        process.exit(1);
+      }
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+const queueCommand = program
+  .command('queue')
+  .description('Inspect and manage queued trigger jobs')
+  .option('-c, --config <path>', 'path to config file');
+
+async function openQueue(): Promise<JobQueue> {
+  const configManager = new ConfigManager(queueCommand.opts().config);
+  const config = await configManager.loadConfig();
+  return JobQueue.forStateDir(resolveStateDir(config.stateDir), config.queue);
+}
+
+function parseJobStates(value: string): JobState[] {
+  const states = value.split(',').map(state => state.trim()) as JobState[];
+  const invalid = states.filter(state => !JOB_STATES.includes(state));
+  if (invalid.length > 0) {
+    throw new Error(`Invalid job state '${invalid.join(', ')}'. Use one of: ${JOB_STATES.join(', ')}`);
+  }
+  return states;
+}
+
+function printJob(job: Job): void {
+  const icons: Record<JobState, string> = { pending: '⏳', running: '🔄', done: '✅', failed: '⚠️', dead: '💀' };
+  console.log(`  ${icons[job.state]} ${job.id.substring(0, 8)} ${job.state} (${job.attempts}/${job.maxAttempts}) [${job.triggerId}] ${job.event.title || job.event.url}`);
+  if (job.lastError && (job.state === 'failed' || job.state === 'dead')) {
+    console.log(`      Last error: ${job.lastError}`);
+  }
+  if (job.state === 'failed' && job.nextRunAt) {
+    console.log(`      Next attempt: ${job.nextRunAt}`);
+  }
+}
+
+queueCommand
+  .command('list')
+  .description('List jobs')
+  .option('-s, --state <states>', `only jobs in these states (comma-separated: ${JOB_STATES.join(', ')})`)
+  .action(async (options: any) => {
+    try {
+      const queue = await openQueue();
+      const jobs = await queue.list(options.state ? parseJobStates(options.state) : undefined);
+      if (jobs.length === 0) {
+        console.log('📭 No jobs in the queue');
+        return;
+      }
+      const counts = JOB_STATES
+        .map(state => [state, jobs.filter(job => job.state === state).length] as const)
+        .filter(([, count]) => count > 0)
+        .map(([state, count]) => `${count} ${state}`);
+      console.log(`📋 ${jobs.length} job(s): ${counts.join(', ')}`);
+      jobs.forEach(printJob);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+queueCommand
+  .command('inspect')
+  .description('Show all details of a job, including its last error')
+  .argument('<id>', 'job id or unique prefix')
+  .action(async (id: string) => {
+    try {
+      const queue = await openQueue();
+      const job = await queue.get(id);
+      if (!job) {
+        console.error(`❌ Job ${id} not found`);
+        process.exit(1);
+      }
+      console.log(JSON.stringify(job, null, 2));
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+queueCommand
+  .command('retry')
+  .description('Retry a failed or dead job now (all failed and dead jobs without an id)')
+  .argument('[id]', 'job id or unique prefix')
+  .action(async (id: string | undefined) => {
+    try {
+      const queue = await openQueue();
+      const jobs = await queue.retry(id);
+      console.log(`🔁 ${jobs.length} job(s) queued for retry. They run on the next daemon poll.`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
+queueCommand
+  .command('purge')
+  .description('Remove finished jobs from the queue')
+  .option('-s, --state <states>', 'states to remove (comma-separated)', 'done')
+  .action(async (options: any) => {
+    try {
+      const states = parseJobStates(options.state);
+      if (states.includes('running')) {
+        throw new Error('Running jobs cannot be purged');
+      }
+      const queue = await openQueue();
+      const removed = await queue.purge(states);
+      console.log(`🧹 Removed ${removed} job(s) (${states.join(', ')})`);
+    } catch (error) {
+      console.error('❌ Error:', error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  });
+
 // Handle uncaught errors
 process.on('uncaughtException', (error) => {
   console.error('❌ Uncaught error:', error.message);
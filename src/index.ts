@@ -8,4 +8,5 @@ export { ConfigManager, AppConfig } from './utils/config';
 export * from './services/fetcher';
 export * from './services/summarizer';
 export * from './services/obsidian';
+export * from './services/sinks';
 export * from './utils/config';
\ No newline at end of file
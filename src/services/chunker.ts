@@ -0,0 +1,136 @@
+// Context window sizes (in tokens) by model name. Keys are matched against the model
+// name with any provider prefix removed ("google/gemini-2.5-pro" -> "gemini-2.5-pro"),
+// longest key first, so more specific entries win.
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'gpt-4.1': 1047576,
+  'gpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo': 16385,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+  'claude': 200000,
+  'gemini-2.5': 1048576,
+  'gemini-2.0': 1048576,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'llama3': 8192,
+  'llama-3': 131072,
+  'mistral': 32768,
+  'qwen': 32768,
+  'deepseek': 65536
+};
+
+export const DEFAULT_CONTEXT_WINDOW = 32000;
+
+export function getModelContextWindow(model: string, overrides: Record<string, number> = {}): number {
+  const table = { ...MODEL_CONTEXT_WINDOWS, ...overrides };
+  const name = model.toLowerCase();
+  const baseName = name.includes('/') ? name.substring(name.lastIndexOf('/') + 1) : name;
+
+  // Exact overrides for the full name (with provider prefix) take precedence
+  if (table[name]) {
+    return table[name];
+  }
+
+  const key = Object.keys(table)
+    .filter(candidate => baseName.startsWith(candidate.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? table[key] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Rough token estimate without a tokenizer: ~4 characters per token for Latin text,
+ * ~1 token per character for CJK and Hangul, which tokenize far less efficiently.
+ */
+export function estimateTokens(text: string): number {
+  const wideChars = (text.match(/[\u1100-\u11FF\u3040-\u30FF\u3130-\u318F\u3400-\u4DBF\u4E00-\u9FFF\uAC00-\uD7AF]/g) || []).length;
+  return Math.ceil(wideChars + (text.length - wideChars) / 4);
+}
+
+/**
+ * Split markdown into chunks of at most maxTokens, preferring heading boundaries,
+ * then paragraphs, then sentences, and only cutting mid-sentence as a last resort.
+ */
+export function splitMarkdown(markdown: string, maxTokens: number): string[] {
+  if (estimateTokens(markdown) <= maxTokens) {
+    return [markdown];
+  }
+
+  const sections = markdown.split(/\n(?=#{1,6}\s)/);
+  const pieces = sections.flatMap(section => splitSection(section, maxTokens));
+
+  // Greedily pack consecutive pieces back together up to the budget
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    const candidate = current ? `${current}\n\n${piece}` : piece;
+    if (current && estimateTokens(candidate) > maxTokens) {
+      chunks.push(current);
+      current = piece;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks.map(chunk => chunk.trim()).filter(chunk => chunk.length > 0);
+}
+
+function splitSection(section: string, maxTokens: number): string[] {
+  if (estimateTokens(section) <= maxTokens) {
+    return [section.trim()];
+  }
+
+  return section
+    .split(/\n{2,}/)
+    .flatMap(paragraph => estimateTokens(paragraph) <= maxTokens
+      ? [paragraph.trim()]
+      : splitParagraph(paragraph, maxTokens));
+}
+
+function splitParagraph(paragraph: string, maxTokens: number): string[] {
+  const sentences = (paragraph.match(/[^.!?。！？\n]*(?:[.!?。！？]+\s*|\n+|$)/g) || [paragraph]).filter(Boolean);
+  const parts: string[] = [];
+  let current = '';
+
+  for (const sentence of sentences) {
+    if (estimateTokens(sentence) > maxTokens) {
+      if (current) {
+        parts.push(current.trim());
+        current = '';
+      }
+      parts.push(...hardSplit(sentence, maxTokens));
+      continue;
+    }
+    if (current && estimateTokens(current + sentence) > maxTokens) {
+      parts.push(current.trim());
+      current = '';
+    }
+    current += sentence;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+
+  return parts;
+}
+
+function hardSplit(text: string, maxTokens: number): string[] {
+  const parts: string[] = [];
+  let start = 0;
+  while (start < text.length) {
+    // Shrink the window until it fits; wide characters may need far fewer than 4 chars per token
+    let end = Math.min(text.length, start + maxTokens * 4);
+    while (end > start + 1 && estimateTokens(text.slice(start, end)) > maxTokens) {
+      end = start + Math.floor((end - start) * 0.8);
+    }
+    parts.push(text.slice(start, end).trim());
+    start = end;
+  }
+  return parts.filter(part => part.length > 0);
+}
@@ -0,0 +1,169 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArticleContent, DEFAULT_USER_AGENT } from './fetcher';
+
+export type ClipMode = 'note' | 'callout';
+
+export const CLIP_MODES: ClipMode[] = ['note', 'callout'];
+
+export interface ClipConfig {
+  enabled?: boolean;
+  // 'note' writes the article as a sibling note, 'callout' adds it to the summary as a collapsed callout
+  mode?: ClipMode;
+  // Vault folder for downloaded images (default: attachments)
+  attachmentsFolder?: string;
+  downloadImages?: boolean;
+  // Images larger than this are left as remote links (default 10 MB)
+  maxImageBytes?: number;
+  timeoutMs?: number;
+}
+
+export interface Clip {
+  // Article markdown with downloaded images rewritten to embeds
+  markdown: string;
+  // Vault-relative paths of the downloaded images
+  images: string[];
+}
+
+const DEFAULT_ATTACHMENTS_FOLDER = 'attachments';
+const DEFAULT_MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+const DEFAULT_IMAGE_TIMEOUT_MS = 30000;
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/avif': 'avif',
+  'image/bmp': 'bmp'
+};
+
+// ![alt](url) or ![alt](url "title"); the URL may be wrapped in <>
+const IMAGE_PATTERN = /!\[([^\]]*)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/g;
+
+/**
+ * Keeps a copy of the source article in the vault: images referenced by the
+ * extracted markdown are downloaded to the attachments folder and replaced
+ * with Obsidian embeds, so the clip survives the original page.
+ */
+export class ArticleClipper {
+  constructor(private vaultPath: string, private config: ClipConfig = {}) {}
+
+  getMode(): ClipMode {
+    return this.config.mode || 'note';
+  }
+
+  async clip(article: ArticleContent): Promise<Clip> {
+    if (this.config.downloadImages === false) {
+      return { markdown: article.markdownContent, images: [] };
+    }
+
+    const images: string[] = [];
+    const downloaded = new Map<string, string | undefined>();
+    for (const match of article.markdownContent.matchAll(IMAGE_PATTERN)) {
+      const source = this.resolveImageUrl(match[2], article.url);
+      if (source && !downloaded.has(source)) {
+        downloaded.set(source, await this.downloadImage(source));
+      }
+    }
+
+    const markdown = article.markdownContent.replace(IMAGE_PATTERN, (original, alt: string, url: string) => {
+      const source = this.resolveImageUrl(url, article.url);
+      const localPath = source ? downloaded.get(source) : undefined;
+      if (!localPath) {
+        return original;
+      }
+      if (!images.includes(localPath)) {
+        images.push(localPath);
+      }
+      // "|" and "]" would end the embed early
+      const caption = alt.replace(/[|\]\[]/g, '').trim();
+      return `![[${localPath}${caption ? `|${caption}` : ''}]]`;
+    });
+
+    return { markdown, images };
+  }
+
+  private resolveImageUrl(url: string, baseUrl: string): string | undefined {
+    try {
+      const resolved = new URL(url, baseUrl);
+      return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Download an image to the attachments folder and return its vault-relative
+   * path, or undefined when it cannot be saved. Files are named by a hash of
+   * their URL, so clipping the same article again reuses them.
+   */
+  private async downloadImage(url: string): Promise<string | undefined> {
+    const folder = this.config.attachmentsFolder ?? DEFAULT_ATTACHMENTS_FOLDER;
+    const maxBytes = this.config.maxImageBytes ?? DEFAULT_MAX_IMAGE_BYTES;
+    const hash = createHash('sha1').update(url).digest('hex').slice(0, 16);
+
+    try {
+      const response = await fetch(url, {
+        headers: { 'User-Agent': DEFAULT_USER_AGENT },
+        redirect: 'follow',
+        signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_IMAGE_TIMEOUT_MS)
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+      const extension = IMAGE_EXTENSIONS[contentType] || this.getExtension(url);
+      if (!extension || (contentType && !contentType.startsWith('image/'))) {
+        throw new Error(`not an image (${contentType || 'unknown type'})`);
+      }
+      const declaredLength = Number(response.headers.get('content-length'));
+      if (declaredLength > maxBytes) {
+        throw new Error(`larger than ${maxBytes} bytes`);
+      }
+      const data = await readBody(response, maxBytes);
+
+      const relativePath = path.posix.join(folder.split(path.sep).join('/'), `${hash}.${extension}`);
+      const fullPath = path.join(this.vaultPath, relativePath);
+      await fs.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.writeFile(fullPath, data);
+      return relativePath;
+    } catch (error) {
+      console.warn(`⚠️ Could not download image ${url}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  private getExtension(url: string): string | undefined {
+    const extension = path.extname(new URL(url).pathname).slice(1).toLowerCase();
+    return Object.values(IMAGE_EXTENSIONS).includes(extension) || extension === 'jpeg' ? extension : undefined;
+  }
+}
+
+/**
+ * The response body, read in chunks so that a body without (or with a wrong)
+ * content-length is abandoned as soon as it passes maxBytes.
+ */
+async function readBody(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) {
+    return Buffer.alloc(0);
+  }
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return Buffer.concat(chunks);
+    }
+    size += value.length;
+    if (size > maxBytes) {
+      await reader.cancel().catch(() => undefined);
+      throw new Error(`larger than ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+}
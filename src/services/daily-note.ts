@@ -0,0 +1,122 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { formatDatePattern, renderTemplate } from './template';
+
+export interface DailyNoteConfig {
+  enabled?: boolean;
+  // Folder of the daily notes, relative to the vault (default: vault root)
+  folder?: string;
+  // Daily note filename as a date format, e.g. YYYY-MM-DD or YYYY/MM/YYYY-MM-DD ddd
+  dateFormat?: string;
+  // Heading the links are listed under; it is added when the note does not have it
+  heading?: string;
+  // Note used to create a missing daily note, relative to the vault
+  templateFile?: string;
+}
+
+export interface DailyNoteEntry {
+  // Note name as used in a wikilink
+  noteName: string;
+  summary?: string;
+}
+
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+const DEFAULT_HEADING = '## News';
+const DEFAULT_TIME_FORMAT = 'HH:mm';
+
+// Placeholders of Obsidian's core Templates plugin: {{date}}, {{time}}, {{title}}, {{date:FORMAT}}
+const OBSIDIAN_PLACEHOLDER = /\{\{\s*(date|time|title)(?::([^}]*))?\s*\}\}/gi;
+
+/**
+ * Lists saved summaries in the daily note of the article's date, as a
+ * wikilink plus a one-line TL;DR under a configurable heading.
+ */
+export class DailyNoteWriter {
+  constructor(private vaultPath: string, private config: DailyNoteConfig) {}
+
+  getPath(date: Date): string {
+    const filename = formatDatePattern(date, this.config.dateFormat || DEFAULT_DATE_FORMAT);
+    return path.join(this.vaultPath, this.config.folder || '', `${filename}.md`);
+  }
+
+  /**
+   * Add the entry to the daily note, creating the note if needed. Returns
+   * false when the note already links to the summary.
+   */
+  async addEntry(date: Date, entry: DailyNoteEntry): Promise<boolean> {
+    const notePath = this.getPath(date);
+    const content = await this.readOrCreate(notePath, date);
+
+    const escapedName = entry.noteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`\\[\\[(?:[^\\]|]*/)?${escapedName}(?:\\.md)?(?:[|#][^\\]]*)?\\]\\]`).test(content)) {
+      return false;
+    }
+
+    const line = `- [[${entry.noteName}]]${entry.summary ? ` - ${entry.summary}` : ''}`;
+    await fs.mkdir(path.dirname(notePath), { recursive: true });
+    await fs.writeFile(notePath, this.insertUnderHeading(content, line), 'utf8');
+    return true;
+  }
+
+  private async readOrCreate(notePath: string, date: Date): Promise<string> {
+    try {
+      return await fs.readFile(notePath, 'utf8');
+    } catch (error: any) {
+      if (error?.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    const title = path.basename(notePath, '.md');
+    if (!this.config.templateFile) {
+      return `# ${title}\n`;
+    }
+    const template = await fs.readFile(path.join(this.vaultPath, this.config.templateFile), 'utf8');
+    // Obsidian's double-brace placeholders first, so the single-brace ones do not see their braces
+    const withObsidianPlaceholders = template.replace(OBSIDIAN_PLACEHOLDER, (placeholder, name: string, format?: string) => {
+      switch (name.toLowerCase()) {
+        case 'title': return title;
+        case 'date': return formatDatePattern(date, format?.trim() || DEFAULT_DATE_FORMAT);
+        default: return formatDatePattern(new Date(), format?.trim() || DEFAULT_TIME_FORMAT);
+      }
+    });
+    return renderTemplate(withObsidianPlaceholders, { date: formatDatePattern(date, DEFAULT_DATE_FORMAT), title });
+  }
+
+  /**
+   * Append the line to the end of the heading's section, or add the heading
+   * at the end of the note when it is missing.
+   */
+  private insertUnderHeading(content: string, line: string): string {
+    const heading = (this.config.heading || DEFAULT_HEADING).trim();
+    const level = heading.match(/^#+/)?.[0].length || 0;
+    const lines = content.replace(/\s*$/, '').split('\n');
+    const start = lines.findIndex(existing => existing.trim() === heading);
+
+    if (start === -1) {
+      return `${lines.join('\n')}\n\n${heading}\n\n${line}\n`;
+    }
+
+    // The section ends at the next heading of the same or a higher level
+    let end = lines.length;
+    for (let index = start + 1; index < lines.length; index++) {
+      const next = lines[index].match(/^(#+)\s/);
+      if (next && (level === 0 || next[1].length <= level)) {
+        end = index;
+        break;
+      }
+    }
+    // Insert after the last non-blank line of the section
+    let insertAt = end;
+    while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') {
+      insertAt--;
+    }
+    const inserted = insertAt === start + 1 ? ['', line] : [line];
+    // Keep a blank line between the list and the next heading
+    if (insertAt === end && end < lines.length) {
+      inserted.push('');
+    }
+    lines.splice(insertAt, 0, ...inserted);
+    return lines.join('\n') + '\n';
+  }
+}
@@ -2,6 +2,10 @@ import puppeteer, { Browser } from 'puppeteer';
 import TurndownService from 'turndown';
 import { Readability } from '@mozilla/readability';
 import { JSDOM } from 'jsdom';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { PdfExtractor } from './pdf';
 
 export interface ArticleContent {
   markdownContent: string;
@@ -14,11 +18,80 @@ export interface ArticleContent {
   siteName?: string;
   language?: string;
   excerpt?: string;
+  // Kind of document the markdown was produced from
+  sourceType?: 'html' | 'pdf' | 'markdown' | 'text';
 }
 
+export type FetchMode = 'static' | 'browser' | 'auto';
+
+export const FETCH_MODES: FetchMode[] = ['static', 'browser', 'auto'];
+
+export interface FetcherConfig {
+  mode?: FetchMode;
+  // Per-domain overrides, e.g. { "substack.com": "static", "x.com": "browser" }
+  domains?: Record<string, FetchMode>;
+  // Minimum Readability text length for a static fetch to be accepted in auto mode
+  minContentLength?: number;
+  timeout?: number;
+  userAgent?: string;
+  // Maximum number of PDF pages to extract (0 = all pages)
+  pdfMaxPages?: number;
+}
+
+export interface FetchOptions {
+  mode?: FetchMode;
+}
+
+// A page's HTML after redirects
+export interface PageHtml {
+  html: string;
+  url: string;
+}
+
+interface PageData {
+  fullHTML: string;
+  metaData?: Record<string, string>;
+  url: string;
+}
+
+export const LOCAL_FILE_EXTENSIONS = ['.html', '.htm', '.md', '.txt', '.pdf'];
+
+export const STDIN_URL = 'stdin:';
+
+export function isRemoteUrl(source: string): boolean {
+  return /^https?:\/\//i.test(source);
+}
+
+export function isPdfUrl(url: string): boolean {
+  try {
+    const { hostname, pathname } = new URL(url);
+    // arXiv serves PDFs from /pdf/<id> without an extension
+    return /\.pdf$/i.test(pathname) || (/(^|\.)arxiv\.org$/i.test(hostname) && pathname.startsWith('/pdf/'));
+  } catch {
+    return false;
+  }
+}
+
+const DEFAULT_MIN_CONTENT_LENGTH = 500;
+const DEFAULT_TIMEOUT = 30000;
+export const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+
 export class ContentFetcher {
   private browser: Browser | null = null;
-  private turndownService!: TurndownService;
+  private turndownService: TurndownService;
+  private pdfExtractor: PdfExtractor;
+
+  constructor(private config: FetcherConfig = {}) {
+    this.pdfExtractor = new PdfExtractor({ maxPages: config.pdfMaxPages });
+    this.turndownService = new TurndownService({
+      headingStyle: 'atx',
+      codeBlockStyle: 'fenced',
+      emDelimiter: '*',
+      strongDelimiter: '**',
+      linkStyle: 'inlined',
+      bulletListMarker: '-'
+    });
+  }
 
   private parsePublishedDate(metaData: Record<string, string>): Date | undefined {
     // Common meta tag names for published dates
@@ -95,18 +168,259 @@ export class ContentFetcher {
       headless: true,
       args: ['--no-sandbox', '--disable-setuid-sandbox']
     });
-    
-    this.turndownService = new TurndownService({
-      headingStyle: 'atx',
-      codeBlockStyle: 'fenced',
-      emDelimiter: '*',
-      strongDelimiter: '**',
-      linkStyle: 'inlined',
-      bulletListMarker: '-'
+  }
+
+  resolveFetchMode(url: string, override?: FetchMode): FetchMode {
+    if (override) {
+      return override;
+    }
+
+    const domains = this.config.domains || {};
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.replace(/^www\./, '');
+    } catch {
+      return this.config.mode || 'auto';
+    }
+
+    // Most specific domain wins: "blog.example.com" before "example.com"
+    const match = Object.entries(domains)
+      .map(([domain, mode]) => ({ domain: domain.replace(/^www\./, '').toLowerCase(), mode }))
+      .filter(({ domain }) => hostname === domain || hostname.endsWith(`.${domain}`))
+      .sort((a, b) => b.domain.length - a.domain.length)[0];
+
+    if (match) {
+      return match.mode;
+    }
+
+    return this.config.mode || 'auto';
+  }
+
+  async fetchArticle(url: string, options: FetchOptions = {}): Promise<ArticleContent> {
+    const mode = this.resolveFetchMode(url, options.mode);
+
+    // Headless Chromium downloads PDFs instead of rendering them, so always fetch those directly
+    if (mode === 'static' || isPdfUrl(url)) {
+      const article = await this.fetchStatic(url);
+      if (!article) {
+        throw new Error('Failed to extract article content using Readability');
+      }
+      return article;
+    }
+
+    if (mode === 'browser') {
+      return this.fetchWithBrowser(url);
+    }
+
+    // Auto mode: try a plain HTTP fetch first and escalate to the headless browser
+    // only when the static result looks like a script-rendered shell
+    try {
+      const article = await this.fetchStatic(url);
+      if (article && (article.sourceType === 'pdf' || this.hasSufficientContent(article))) {
+        return article;
+      }
+      console.log(`⚠️ Static fetch returned insufficient content for ${url}, falling back to headless browser`);
+    } catch (error) {
+      console.log(`⚠️ Static fetch failed for ${url} (${error instanceof Error ? error.message : String(error)}), falling back to headless browser`);
+    }
+
+    return this.fetchWithBrowser(url);
+  }
+
+  /**
+   * The raw HTML of a page, e.g. a listing page whose links matter rather than
+   * its article text. Only the 'browser' mode renders the page; 'auto' makes a
+   * plain HTTP request.
+   */
+  async fetchHtml(url: string, options: FetchOptions = {}): Promise<PageHtml> {
+    if (this.resolveFetchMode(url, options.mode) === 'browser') {
+      if (!this.browser) {
+        await this.initialize();
+      }
+      const page = await this.browser!.newPage();
+      try {
+        await page.goto(url, { waitUntil: 'networkidle2', timeout: this.config.timeout || DEFAULT_TIMEOUT });
+        return { html: await page.content(), url: page.url() };
+      } finally {
+        await page.close();
+      }
+    }
+
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': this.config.userAgent || DEFAULT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml;q=0.9,*/*;q=0.8'
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.config.timeout || DEFAULT_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+    return { html: await response.text(), url: response.url || url };
+  }
+
+  /**
+   * Fetch from any supported source: an http(s) URL, a local file path
+   * (or file:// URL), or "-" for stdin.
+   */
+  async fetchSource(source: string, options: FetchOptions = {}): Promise<ArticleContent> {
+    if (source === '-') {
+      return this.fetchStdin();
+    }
+    if (isRemoteUrl(source)) {
+      return this.fetchArticle(source, options);
+    }
+    return this.fetchFile(source);
+  }
+
+  async fetchFile(filePath: string): Promise<ArticleContent> {
+    const resolvedPath = path.resolve(filePath.startsWith('file://') ? fileURLToPath(filePath) : filePath);
+    const extension = path.extname(resolvedPath).toLowerCase();
+
+    if (!LOCAL_FILE_EXTENSIONS.includes(extension)) {
+      throw new Error(`Unsupported file type '${extension || path.basename(resolvedPath)}'. Supported: ${LOCAL_FILE_EXTENSIONS.join(', ')}`);
+    }
+
+    const [data, stats] = await Promise.all([
+      fs.readFile(resolvedPath),
+      fs.stat(resolvedPath)
+    ]);
+    const url = pathToFileURL(resolvedPath).href;
+
+    let article: ArticleContent;
+    if (extension === '.pdf') {
+      article = await this.pdfExtractor.extract(data, url);
+    } else if (extension === '.html' || extension === '.htm') {
+      article = this.parseLocalHtml(data.toString('utf8'), url);
+    } else {
+      article = this.parseLocalText(data.toString('utf8'), url, extension === '.md');
+    }
+
+    return {
+      ...article,
+      title: article.title || path.basename(resolvedPath, extension),
+      publishedDate: article.publishedDate || stats.mtime
+    };
+  }
+
+  async fetchStdin(): Promise<ArticleContent> {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    const data = Buffer.concat(chunks);
+    const content = data.toString('utf8');
+
+    let article: ArticleContent;
+    if (content.startsWith('%PDF-')) {
+      article = await this.pdfExtractor.extract(data, STDIN_URL);
+    } else if (/^\s*<(!doctype|html|head|body|article|div|p)\b/i.test(content)) {
+      article = this.parseLocalHtml(content, STDIN_URL);
+    } else {
+      article = this.parseLocalText(content, STDIN_URL, true);
+    }
+
+    return {
+      ...article,
+      title: article.title || 'Untitled',
+      publishedDate: article.publishedDate || new Date()
+    };
+  }
+
+  private parseLocalHtml(html: string, url: string): ArticleContent {
+    const article = this.extractArticle(url, { fullHTML: html, url });
+
+    if (article) {
+      // Readability reports 'Untitled' when neither <title> nor a heading exists; let the caller fall back
+      return article.title === 'Untitled' ? { ...article, title: undefined } : article;
+    }
+
+    // Small saved snippets often fall below Readability's thresholds, so convert the whole body
+    const dom = new JSDOM(html, { url });
+    const document = dom.window.document;
+    const heading = document.querySelector('h1, h2, h3, h4, h5, h6');
+
+    return {
+      url,
+      markdownContent: this.cleanMarkdownContent(this.turndownService.turndown(document.body?.innerHTML || '')),
+      title: document.title?.trim() || heading?.textContent?.trim() || undefined,
+      metaData: this.extractMetaData(document),
+      sourceType: 'html'
+    };
+  }
+
+  private parseLocalText(content: string, url: string, isMarkdown: boolean): ArticleContent {
+    let body = content;
+    let title: string | undefined;
+
+    // Markdown exports (e.g. from Obsidian) may carry a frontmatter block
+    const frontmatter = isMarkdown ? body.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?/) : null;
+    if (frontmatter) {
+      body = body.slice(frontmatter[0].length);
+      const titleLine = frontmatter[1].match(/^title:\s*["']?(.+?)["']?\s*$/m);
+      title = titleLine?.[1];
+    }
+
+    if (!title) {
+      const heading = body.match(/^#{1,6}\s+(.+?)\s*#*\s*$/m);
+      if (heading) {
+        title = heading[1];
+      } else if (!isMarkdown) {
+        // Plain-text newsletters usually open with a subject line
+        const firstLine = body.split('\n').map(line => line.trim()).find(line => line.length > 0);
+        title = firstLine && firstLine.length <= 150 ? firstLine : undefined;
+      }
+    }
+
+    return {
+      url,
+      markdownContent: body.replace(/\r\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim(),
+      title,
+      sourceType: isMarkdown ? 'markdown' : 'text'
+    };
+  }
+
+  private hasSufficientContent(article: ArticleContent): boolean {
+    const minLength = this.config.minContentLength ?? DEFAULT_MIN_CONTENT_LENGTH;
+    return article.markdownContent.length >= minLength;
+  }
+
+  private async fetchStatic(url: string): Promise<ArticleContent | null> {
+    const response = await fetch(url, {
+      headers: {
+        'User-Agent': this.config.userAgent || DEFAULT_USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/pdf;q=0.9,*/*;q=0.8'
+      },
+      redirect: 'follow',
+      signal: AbortSignal.timeout(this.config.timeout || DEFAULT_TIMEOUT)
+    });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status} ${response.statusText}`);
+    }
+
+    const contentType = response.headers.get('content-type') || '';
+    if (/application\/pdf/i.test(contentType) || (isPdfUrl(url) && !/html/i.test(contentType))) {
+      const data = Buffer.from(await response.arrayBuffer());
+      console.log(`Fetch mode: static PDF (${data.length} bytes)`);
+      return this.pdfExtractor.extract(data, url);
+    }
+
+    if (contentType && !/html|xml/i.test(contentType)) {
+      throw new Error(`Unsupported content type: ${contentType}`);
+    }
+
+    const fullHTML = await response.text();
+    console.log(`Fetch mode: static (${fullHTML.length} bytes)`);
+
+    return this.extractArticle(url, {
+      fullHTML,
+      url: response.url || url
     });
   }
 
-  async fetchArticle(url: string): Promise<ArticleContent> {
+  private async fetchWithBrowser(url: string): Promise<ArticleContent> {
     if (!this.browser) {
       await this.initialize();
     }
@@ -114,7 +428,8 @@ export class ContentFetcher {
     const page = await this.browser!.newPage();
     
     try {
-      await page.goto(url, { waitUntil: 'networkidle2', timeout: 30000 });
+      console.log('Fetch mode: browser');
+      await page.goto(url, { waitUntil: 'networkidle2', timeout: this.config.timeout || DEFAULT_TIMEOUT });
       
       // Get full HTML and meta data
       const pageData = await page.evaluate(() => {
@@ -140,62 +455,86 @@ export class ContentFetcher {
         };
       });
 
-      // Use Readability to extract main content
-      const dom = new JSDOM(pageData.fullHTML, { url: pageData.url });
-      const reader = new Readability(dom.window.document);
-      const article = reader.parse();
+      const article = this.extractArticle(url, pageData);
 
       if (!article) {
         throw new Error('Failed to extract article content using Readability');
       }
 
-      // Compare Readability metadata vs manual parsing
-      const readabilityPublishedDate = article.publishedTime ? new Date(article.publishedTime) : undefined;
-      const manualPublishedDate = this.parsePublishedDate(pageData.metaData);
-      
-      // Use Readability date if available, fallback to manual parsing
-      const publishedDate = readabilityPublishedDate && !isNaN(readabilityPublishedDate.getTime()) 
-        ? readabilityPublishedDate 
-        : manualPublishedDate;
-      
-      // Debug: Log what we extracted and compare approaches
-      console.log(`\n=== DEBUG INFO ===`);
-      console.log(`Content length: ${article.content?.length || 0}`);
-      console.log(`Title comparison:`);
-      console.log(`  - Readability: "${article.title}"`);
-      console.log(`  - Manual: "${pageData.metaData['og:title'] || pageData.metaData['twitter:title'] || 'Not found'}"`);
-      console.log(`Published date comparison:`);
-      console.log(`  - Readability: ${readabilityPublishedDate && !isNaN(readabilityPublishedDate.getTime()) ? readabilityPublishedDate.toISOString() : 'Not found'}`);
-      console.log(`  - Manual: ${manualPublishedDate ? manualPublishedDate.toISOString() : 'Not found'}`);
-      console.log(`  - Final: ${publishedDate ? publishedDate.toISOString() : 'Not found'}`);
-      console.log(`Additional Readability metadata:`);
-      console.log(`  - Author: ${article.byline || 'Not found'}`);
-      console.log(`  - Site name: ${article.siteName || 'Not found'}`);
-      console.log(`  - Language: ${article.lang || 'Not found'}`);
-      console.log(`  - Excerpt: ${article.excerpt?.substring(0, 100) || 'Not found'}...`);
-      console.log(`Content preview: ${article.textContent?.substring(0, 200)}...`);
-      console.log(`==================\n`);
-      
-      const markdownContent = this.turndownService.turndown(article.content || '');
-      
-      return {
-        url,
-        markdownContent: this.cleanMarkdownContent(markdownContent),
-        title: article.title || 'Untitled',
-        publishedDate,
-        metaData: pageData.metaData,
-        // Additional Readability metadata
-        author: article.byline || undefined,
-        siteName: article.siteName || undefined,
-        language: article.lang || undefined,
-        excerpt: article.excerpt || undefined
-      };
+      return article;
 
     } finally {
       await page.close();
     }
   }
 
+  private extractArticle(url: string, pageData: PageData): ArticleContent | null {
+    // Use Readability to extract main content
+    const dom = new JSDOM(pageData.fullHTML, { url: pageData.url });
+    // Static fetches have no live page to query, so collect meta tags before Readability mutates the DOM
+    const metaData = pageData.metaData || this.extractMetaData(dom.window.document);
+    const reader = new Readability(dom.window.document);
+    const article = reader.parse();
+
+    if (!article) {
+      return null;
+    }
+
+    // Compare Readability metadata vs manual parsing
+    const readabilityPublishedDate = article.publishedTime ? new Date(article.publishedTime) : undefined;
+    const manualPublishedDate = this.parsePublishedDate(metaData);
+    
+    // Use Readability date if available, fallback to manual parsing
+    const publishedDate = readabilityPublishedDate && !isNaN(readabilityPublishedDate.getTime()) 
+      ? readabilityPublishedDate 
+      : manualPublishedDate;
+    
+    // Debug: Log what we extracted and compare approaches
+    console.log(`\n=== DEBUG INFO ===`);
+    console.log(`Content length: ${article.content?.length || 0}`);
+    console.log(`Title comparison:`);
+    console.log(`  - Readability: "${article.title}"`);
+    console.log(`  - Manual: "${metaData['og:title'] || metaData['twitter:title'] || 'Not found'}"`);
+    console.log(`Published date comparison:`);
+    console.log(`  - Readability: ${readabilityPublishedDate && !isNaN(readabilityPublishedDate.getTime()) ? readabilityPublishedDate.toISOString() : 'Not found'}`);
+    console.log(`  - Manual: ${manualPublishedDate ? manualPublishedDate.toISOString() : 'Not found'}`);
+    console.log(`  - Final: ${publishedDate ? publishedDate.toISOString() : 'Not found'}`);
+    console.log(`Additional Readability metadata:`);
+    console.log(`  - Author: ${article.byline || 'Not found'}`);
+    console.log(`  - Site name: ${article.siteName || 'Not found'}`);
+    console.log(`  - Language: ${article.lang || 'Not found'}`);
+    console.log(`  - Excerpt: ${article.excerpt?.substring(0, 100) || 'Not found'}...`);
+    console.log(`Content preview: ${article.textContent?.substring(0, 200)}...`);
+    console.log(`==================\n`);
+    
+    const markdownContent = this.turndownService.turndown(article.content || '');
+    
+    return {
+      url,
+      markdownContent: this.cleanMarkdownContent(markdownContent),
+      title: article.title || 'Untitled',
+      publishedDate,
+      metaData,
+      // Additional Readability metadata
+      author: article.byline || undefined,
+      siteName: article.siteName || undefined,
+      language: article.lang || undefined,
+      excerpt: article.excerpt || undefined,
+      sourceType: 'html'
+    };
+  }
+
+  private extractMetaData(document: Document): Record<string, string> {
+    const metaData: Record<string, string> = {};
+    document.querySelectorAll('meta').forEach(tag => {
+      const name = tag.getAttribute('name') || tag.getAttribute('property') || tag.getAttribute('itemprop');
+      const content = tag.getAttribute('content');
+      if (name && content) {
+        metaData[name] = content;
+      }
+    });
+    return metaData;
+  }
 
   private cleanMarkdownContent(markdown: string): string {
     // Clean up markdown formatting
@@ -0,0 +1,152 @@
+import { toYaml } from '../utils/yaml';
+
+/**
+ * Helpers for reading and updating the frontmatter of existing notes without
+ * a full YAML parser. Properties are handled as top-level blocks: the
+ * `key:` line plus its indented continuation lines, kept as written so that
+ * properties the integration does not manage survive a rewrite unchanged.
+ */
+
+export interface NoteParts {
+  // YAML between the --- lines, without a trailing newline ('' when there is none)
+  frontmatter: string;
+  body: string;
+}
+
+export type NoteProperties = Record<string, string | string[] | undefined>;
+
+export interface PropertyBlock {
+  key: string;
+  text: string;
+}
+
+export function splitNote(content: string): NoteParts {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/);
+  if (!match) {
+    return { frontmatter: '', body: content };
+  }
+  return { frontmatter: match[1], body: content.slice(match[0].length).replace(/^\r?\n/, '') };
+}
+
+export function parsePropertyBlocks(frontmatter: string): PropertyBlock[] {
+  const blocks: PropertyBlock[] = [];
+  for (const line of frontmatter.split(/\r?\n/)) {
+    const key = line.match(/^("(?:[^"\\]|\\.)*"|'[^']*'|[^\s#'"][^:]*?):(\s|$)/);
+    if (key) {
+      blocks.push({ key: unquote(key[1]), text: line });
+    } else if (blocks.length > 0) {
+      blocks[blocks.length - 1].text += `\n${line}`;
+    }
+  }
+  return blocks;
+}
+
+/**
+ * The value of a property block as a string, a list of strings, or
+ * undefined when it is empty. Nested mappings are returned as raw text.
+ */
+export function readPropertyValue(block: PropertyBlock): string | string[] | undefined {
+  const [first, ...rest] = block.text.split('\n');
+  const inline = first.slice(first.indexOf(':') + 1).trim();
+  if (inline.startsWith('[') && inline.endsWith(']')) {
+    return inline.slice(1, -1).split(',').map(item => unquote(item.trim())).filter(Boolean);
+  }
+  if (inline) {
+    return unquote(inline);
+  }
+  const items = rest.map(line => line.match(/^\s+-\s*(.*)$/)?.[1]).filter((item): item is string => item !== undefined);
+  if (items.length > 0) {
+    return items.map(item => unquote(item.trim()));
+  }
+  return rest.join('\n').trim() || undefined;
+}
+
+export function readProperties(frontmatter: string): NoteProperties {
+  const properties: NoteProperties = {};
+  for (const block of parsePropertyBlocks(frontmatter)) {
+    properties[block.key] = readPropertyValue(block);
+  }
+  return properties;
+}
+
+/**
+ * Replace the generated properties in existing frontmatter. Properties that
+ * are not generated (added by the user) keep their place and text, new
+ * generated properties are added at the end, and list properties named in
+ * `mergeLists` keep the values the user added.
+ */
+export function mergeFrontmatter(frontmatter: string, generated: Record<string, unknown>, mergeLists: string[] = []): string {
+  const blocks = parsePropertyBlocks(frontmatter);
+  const existingKeys = new Set(blocks.map(block => block.key));
+  const lines: string[] = [];
+
+  const serialize = (key: string, value: unknown) => toYaml({ [key]: value }).replace(/\n$/, '');
+
+  for (const block of blocks) {
+    if (!(block.key in generated)) {
+      lines.push(block.text);
+      continue;
+    }
+    let value = generated[block.key];
+    if (mergeLists.includes(block.key)) {
+      const previous = readPropertyValue(block);
+      const previousItems = Array.isArray(previous) ? previous : (previous ? previous.split(',').map(item => item.trim()).filter(Boolean) : []);
+      const items = [...(Array.isArray(value) ? value : value === undefined ? [] : [value]), ...previousItems];
+      value = items.length > 0 ? items.filter((item, index) => items.indexOf(item) === index) : undefined;
+    }
+    if (value !== undefined) {
+      lines.push(serialize(block.key, value));
+    }
+  }
+
+  for (const [key, value] of Object.entries(generated)) {
+    if (!existingKeys.has(key) && value !== undefined) {
+      lines.push(serialize(key, value));
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export type PropertyQuery = (properties: NoteProperties) => boolean;
+
+/**
+ * Parse a frontmatter condition: `key=value` (equals, or a list contains
+ * it), `key!=value`, `key~pattern` (regular expression), or just `key` (set).
+ * Comparisons ignore case.
+ */
+export function parsePropertyQuery(query: string): PropertyQuery {
+  const match = query.match(/^\s*([^=!~]+?)\s*(!=|=|~)\s*(.*)$/);
+  if (!match) {
+    const key = query.trim();
+    return properties => properties[key] !== undefined && properties[key] !== '';
+  }
+
+  const [, key, operator, expected] = match;
+  // An invalid pattern fails here rather than for every note
+  const pattern = operator === '~' ? new RegExp(expected, 'i') : undefined;
+  const test = pattern
+    ? (value: string) => pattern.test(value)
+    : (value: string) => value.toLowerCase() === expected.trim().toLowerCase();
+
+  return properties => {
+    const value = properties[key];
+    const values = value === undefined ? [] : Array.isArray(value) ? value : [value];
+    const found = values.some(test);
+    return operator === '!=' ? !found : found;
+  };
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"') && text.endsWith('"') && text.length >= 2) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      return text.slice(1, -1);
+    }
+  }
+  if (text.startsWith("'") && text.endsWith("'") && text.length >= 2) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
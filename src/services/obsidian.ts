@@ -1,155 +1,680 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { SummaryResult } from './summarizer';
+import { TemplateContext, createArticleContext, createPartialLoader, formatDate, renderTemplate } from './template';
+import { VaultIndex, frontmatterPropertyPattern } from './vault-index';
+import { NoteProperties, mergeFrontmatter, readProperties, splitNote } from './frontmatter';
+import { DailyNoteConfig, DailyNoteWriter } from './daily-note';
+import { RouteRule, findRoute } from './routing';
+import { ArticleClipper, Clip, ClipConfig } from './clipper';
+import { toYaml } from '../utils/yaml';
+import { sanitizeFilename, stripIllegalCharacters } from '../utils/filename';
+
+export type DuplicatePolicy = 'skip' | 'overwrite' | 'version' | 'append';
+
+export const DUPLICATE_POLICIES: DuplicatePolicy[] = ['skip', 'overwrite', 'version', 'append'];
 
 export interface ObsidianConfig {
   vaultPath: string;
   outputFolder: string;
+  // Note template in templates/notes used when the profile has none
   templateName: string;
   filenameFormat: string;
+  // Longest filename in UTF-8 bytes before the extension (default 200)
+  maxFilenameBytes?: number;
+  // What to do when the vault already has a note for the article's URL (default: overwrite)
+  duplicatePolicy?: DuplicatePolicy;
+  // Frontmatter property names, e.g. { "url": "source", "excerpt": false } renames url and omits excerpt
+  properties?: Record<string, string | false>;
+  // Folder rules checked in order before falling back to outputFolder
+  routes?: RouteRule[];
+  // Keep a copy of the source article and its images in the vault
+  clip?: ClipConfig;
+  // Link every saved summary from the daily note of the article's date
+  dailyNote?: DailyNoteConfig;
+}
+
+export type SaveAction = 'created' | 'skipped' | 'overwritten' | 'versioned' | 'appended';
+
+export interface SaveResult {
+  path: string;
+  action: SaveAction;
+  // Clip note with the source article, in 'note' clip mode
+  clip?: string;
+  // Daily note the summary was linked from, when one was updated
+  dailyNote?: string;
+}
+
+// A summary note read back from the vault
+export interface ExistingNote {
+  path: string;
+  // Frontmatter as written in the note
+  properties: NoteProperties;
+  // The same frontmatter under the built-in property names (see `properties` in the config)
+  fields: NoteProperties;
+}
+
+export interface RebuildOptions {
+  // Replace the whole body when the note has no AI summary markers
+  force?: boolean;
+  // Return the new content without writing it
+  dryRun?: boolean;
+}
+
+export interface RebuildResult {
+  before: string;
+  after: string;
+}
+
+// The AI-generated part of a note body is kept between these markers, so it
+// can be regenerated without touching what the user wrote around it
+export const SUMMARY_START_MARKER = '<!-- ai-summary:start -->';
+export const SUMMARY_END_MARKER = '<!-- ai-summary:end -->';
+
+/**
+ * Default console reporting for a save, shared by the CLI and the trigger manager.
+ */
+export function logSaveResult(result: SaveResult): void {
+  switch (result.action) {
+    case 'created':
+      console.log(`✅ Summary saved to: ${result.path}`);
+      break;
+    case 'skipped':
+      console.log(`⏭️ A note for this URL already exists, left unchanged: ${result.path}`);
+      break;
+    case 'overwritten':
+      console.log(`♻️ Updated existing note: ${result.path}`);
+      break;
+    case 'versioned':
+      console.log(`✅ Summary saved as a new version: ${result.path}`);
+      break;
+    case 'appended':
+      console.log(`➕ Summary appended to existing note: ${result.path}`);
+      break;
+  }
+  if (result.clip) {
+    console.log(`📎 Source article clipped to: ${result.clip}`);
+  }
+  if (result.dailyNote) {
+    console.log(`📅 Linked from daily note: ${result.dailyNote}`);
+  }
 }
 
+// A clip prepared for a save; noteName is set when it gets its own note
+type SavedClip = Clip & { noteName?: string };
+
+// Longest TL;DR written to the daily note
+const MAX_DAILY_SUMMARY_LENGTH = 200;
+
+// Values used by filename placeholders when the article does not provide them
+const FILENAME_DEFAULTS: Record<string, string> = {
+  title: 'Article',
+  author: 'Unknown',
+  language: 'unknown'
+};
+
+// Frontmatter keys written by the integration itself; structured fields cannot override them
+const RESERVED_PROPERTIES = [
+  'title', 'aliases', 'type', 'date', 'url', 'author', 'siteName', 'language', 'excerpt', 'created', 'updated',
+  'model', 'profile', 'feedTitle', 'feedUrl', 'categories', 'triggeredBy', 'tags', 'clip'
+];
+
+// List properties whose user-added values survive a rebuild
+const MERGED_LIST_PROPERTIES = ['aliases', 'tags'];
+
+// Structured summary field whose values are merged into the note's tags
+const SUGGESTED_TAGS_FIELD = 'suggestedTags';
+
+// Note body templates, selected by `templateName` or a profile's `noteTemplateFile`
+export const NOTE_TEMPLATES_DIR = path.join(__dirname, '../../templates/notes');
+
+const MAX_RELATED_NOTES = 5;
+
 export class ObsidianIntegration {
-  constructor(private config: ObsidianConfig) {}
+  private partials = createPartialLoader();
+  private noteTemplates = createPartialLoader(NOTE_TEMPLATES_DIR);
+  private index: VaultIndex;
+  private dailyNote?: DailyNoteWriter;
+  private clipper?: ArticleClipper;
+
+  constructor(private config: ObsidianConfig) {
+    if (config.clip && config.clip.enabled !== false) {
+      this.clipper = new ArticleClipper(config.vaultPath, config.clip);
+    }
+    if (config.dailyNote && config.dailyNote.enabled !== false) {
+      this.dailyNote = new DailyNoteWriter(config.vaultPath, config.dailyNote);
+    }
+    this.index = new VaultIndex(config.vaultPath, {
+      url: this.propertyName('url'),
+      type: this.propertyName('type'),
+      created: this.propertyName('created')
+    });
+  }
 
   async saveArticle(summary: SummaryResult): Promise<string> {
-    const filename = this.generateFilename(summary);
-    const fullPath = path.join(this.config.vaultPath, this.config.outputFolder, filename);
-    
-    // Ensure the output directory exists
-    await fs.mkdir(path.dirname(fullPath), { recursive: true });
-    
-    const markdown = this.generateMarkdown(summary);
-    await fs.writeFile(fullPath, markdown, 'utf8');
-    
-    return fullPath;
-  }
-
-  private generateFilename(summary: SummaryResult): string {
+    return (await this.save(summary)).path;
+  }
+
+  /**
+   * With the 'skip' policy, the path of the existing note for this URL, so
+   * callers can skip summarizing an article that would not be saved anyway.
+   */
+  async findNoteToSkip(url: string): Promise<string | undefined> {
+    if (this.config.duplicatePolicy !== 'skip') {
+      return undefined;
+    }
+    return (await this.index.find(url))?.path;
+  }
+
+  /**
+   * Save a summary, applying the duplicate policy when a note for the same
+   * canonical URL already exists. A different note that happens to have the
+   * same filename is never overwritten; the new note gets a `-v2` suffix.
+   * Unless the save was skipped, the note is then linked from the daily note.
+   */
+  async save(summary: SummaryResult): Promise<SaveResult> {
+    const result = await this.writeNote(summary);
+    if (result.action === 'skipped' || !this.dailyNote) {
+      return result;
+    }
+
+    const date = summary.originalArticle.publishedDate || new Date();
+    try {
+      const added = await this.dailyNote.addEntry(date, {
+        noteName: path.basename(result.path, '.md'),
+        summary: this.getOneLineSummary(summary)
+      });
+      return added ? { ...result, dailyNote: this.dailyNote.getPath(date) } : result;
+    } catch (error) {
+      // The summary itself is saved; a daily note problem should not fail the run
+      console.warn(`⚠️ Could not update the daily note: ${error instanceof Error ? error.message : String(error)}`);
+      return result;
+    }
+  }
+
+  private async writeNote(summary: SummaryResult): Promise<SaveResult> {
+    const url = summary.originalArticle.url;
+    const existing = await this.index.find(url);
+    const policy = this.config.duplicatePolicy || 'overwrite';
+
+    if (existing && policy === 'skip') {
+      return { path: existing.path, action: 'skipped' };
+    }
+
+    const clip = this.clipper ? await this.clipper.clip(summary.originalArticle) : undefined;
+    const title = this.generateNoteTitle(summary);
+
+    let result: SaveResult;
+    if (existing && (policy === 'overwrite' || policy === 'append')) {
+      result = { path: existing.path, action: policy === 'overwrite' ? 'overwritten' : 'appended' };
+    } else {
+      const fullPath = await this.findFreePath(path.join(this.config.vaultPath, this.resolveFolder(summary), `${title}.md`));
+      result = { path: fullPath, action: existing ? 'versioned' : 'created' };
+    }
+
+    const savedClip: SavedClip | undefined = clip && {
+      ...clip,
+      noteName: this.clipper!.getMode() === 'note' ? `${path.basename(result.path, '.md')} (clip)` : undefined
+    };
+
+    if (result.action === 'appended') {
+      await this.appendSummary(result.path, summary, savedClip);
+    } else {
+      // Ensure the output directory exists
+      await fs.mkdir(path.dirname(result.path), { recursive: true });
+
+      // A rewritten note keeps its creation time
+      const created = result.action === 'overwritten' ? existing?.created : undefined;
+      const markdown = await this.generateMarkdown(summary, title, created, savedClip);
+      await fs.writeFile(result.path, markdown, 'utf8');
+      if (result.action !== 'overwritten') {
+        await this.index.add({ path: result.path, url, created: this.formatDateTime(new Date()) });
+      }
+    }
+
+    if (savedClip?.noteName) {
+      const clipPath = path.join(path.dirname(result.path), `${savedClip.noteName}.md`);
+      await fs.writeFile(clipPath, this.generateClipNote(summary, savedClip, path.basename(result.path, '.md')), 'utf8');
+      result.clip = clipPath;
+    }
+
+    return result;
+  }
+
+  /**
+   * Read a note's frontmatter, or undefined when the file has none.
+   */
+  async readNote(notePath: string): Promise<ExistingNote | undefined> {
+    const { frontmatter } = splitNote(await fs.readFile(notePath, 'utf8'));
+    if (!frontmatter) {
+      return undefined;
+    }
+    const properties = readProperties(frontmatter);
+    const fields: NoteProperties = {};
+    for (const key of [...RESERVED_PROPERTIES, ...Object.keys(properties)]) {
+      const name = this.propertyName(key);
+      if (name && properties[name] !== undefined && fields[key] === undefined) {
+        fields[key] = properties[name];
+      }
+    }
+    return { path: notePath, properties, fields };
+  }
+
+  /**
+   * The article text saved with a note: its clip note in 'note' mode, or the
+   * "Original article" callout in 'callout' mode. Undefined when there is none.
+   */
+  async readClip(note: ExistingNote): Promise<string | undefined> {
+    const link = typeof note.fields.clip === 'string' ? note.fields.clip.match(/^\[\[([^\]|]+)/)?.[1] : undefined;
+    if (link) {
+      try {
+        const { body } = splitNote(await fs.readFile(path.join(path.dirname(note.path), `${link}.md`), 'utf8'));
+        // Drop the title heading the clip note starts with
+        return body.replace(/^# .*\r?\n+/, '').trim();
+      } catch {
+        // Fall back to a callout
+      }
+    }
+
+    const { body } = splitNote(await fs.readFile(note.path, 'utf8'));
+    const callout = body.match(/^> \[!quote\]- Original article\r?\n((?:>.*(?:\r?\n|$))*)/m);
+    if (!callout) {
+      return undefined;
+    }
+    return callout[1].split(/\r?\n/).map(line => line.replace(/^> ?/, '')).join('\n').trim();
+  }
+
+  /**
+   * Put a new summary into an existing note. Only the region between the AI
+   * summary markers is replaced; the rest of the body is left as the user
+   * edited it. Generated properties are rewritten in place, while `created`,
+   * the clip link, properties the user added and tags or aliases the user
+   * added are kept.
+   */
+  async rebuildNote(note: ExistingNote, summary: SummaryResult, options: RebuildOptions = {}): Promise<RebuildResult> {
+    const before = await fs.readFile(note.path, 'utf8');
+    const { frontmatter, body } = splitNote(before);
+
+    const created = typeof note.fields.created === 'string' ? note.fields.created : undefined;
+    const properties = this.renameProperties(this.buildProperties(summary, path.basename(note.path, '.md'), created));
+    const mergeLists = MERGED_LIST_PROPERTIES.map(key => this.propertyName(key)).filter((name): name is string => !!name);
+
+    const start = body.indexOf(SUMMARY_START_MARKER);
+    const end = body.indexOf(SUMMARY_END_MARKER, start);
+    let newBody: string;
+    if (start !== -1 && end !== -1) {
+      newBody = body.slice(0, start) + this.markSummary(summary) + body.slice(end + SUMMARY_END_MARKER.length);
+    } else if (options.force) {
+      const clipLink = typeof note.fields.clip === 'string' ? note.fields.clip : undefined;
+      newBody = await this.renderNoteBody(summary, clipLink);
+    } else {
+      throw new Error('The note has no AI summary markers; use --force to replace its whole body');
+    }
+
+    const after = `---\n${mergeFrontmatter(frontmatter, properties, mergeLists)}\n---\n\n${newBody}`;
+    if (!options.dryRun && after !== before) {
+      await fs.writeFile(note.path, after, 'utf8');
+    }
+    return { before, after };
+  }
+
+  /**
+   * The source article as its own note, linking back to the summary. It is
+   * typed `clip` so the duplicate index does not mistake it for the summary.
+   */
+  private generateClipNote(summary: SummaryResult, clip: SavedClip, summaryName: string): string {
+    const article = summary.originalArticle;
+    const properties = this.renameProperties({
+      title: article.title || clip.noteName,
+      type: 'clip',
+      url: article.url,
+      author: article.author,
+      siteName: article.siteName,
+      date: article.publishedDate ? formatDate(article.publishedDate) : undefined,
+      created: this.formatDateTime(new Date()),
+      summary: `[[${summaryName}]]`
+    });
+    const heading = article.title ? `# ${article.title}\n\n` : '';
+    return `---\n${toYaml(properties)}---\n\n${heading}${clip.markdown.trim()}\n`;
+  }
+
+  /**
+   * The source article as a collapsed callout at the end of the summary note.
+   */
+  private formatClipCallout(clip: SavedClip): string {
+    const quoted = clip.markdown.trim().split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+    return `> [!quote]- Original article\n${quoted}\n`;
+  }
+
+  /**
+   * The folder of the first routing rule that matches the note, rendered
+   * with the filename placeholders, or `outputFolder` when none matches.
+   */
+  private resolveFolder(summary: SummaryResult): string {
+    const article = summary.originalArticle;
+    const route = findRoute(this.config.routes || [], {
+      profile: [summary.profile.id, summary.profile.name].filter((name): name is string => !!name),
+      siteName: article.siteName,
+      domain: this.getSourceDomain(article.url),
+      tags: this.getTags(summary),
+      trigger: summary.metadata?.triggeredBy,
+      language: article.language,
+      title: article.title
+    });
+    if (!route) {
+      return this.config.outputFolder;
+    }
+
+    const folder = renderTemplate(route.folder, this.buildTemplateContext(summary), {
+      defaults: { ...FILENAME_DEFAULTS, siteName: 'Unknown' },
+      // Values must not add path separators or characters that are invalid in folder names
+      transform: stripIllegalCharacters
+    });
+    return folder.split(/[\\/]/)
+      .map(segment => sanitizeFilename(segment, { maxBytes: this.config.maxFilenameBytes }))
+      .filter(segment => segment.length > 0)
+      .join('/');
+  }
+
+  /**
+   * The given path, or the first free `name-vN.md` next to it.
+   */
+  private async findFreePath(fullPath: string): Promise<string> {
+    const extension = path.extname(fullPath);
+    const base = fullPath.slice(0, fullPath.length - extension.length);
+    let candidate = fullPath;
+    for (let version = 2; await this.fileExists(candidate); version++) {
+      candidate = `${base}-v${version}${extension}`;
+    }
+    return candidate;
+  }
+
+  private async fileExists(filePath: string): Promise<boolean> {
+    try {
+      await fs.access(filePath);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Add the new summary as a dated section at the end of an existing note and
+   * bump its `updated` property, adding it when the note does not have one.
+   */
+  private async appendSummary(notePath: string, summary: SummaryResult, clip?: SavedClip): Promise<void> {
+    const now = this.formatDateTime(new Date());
+    const content = await fs.readFile(notePath, 'utf8');
+    const updatedName = this.propertyName('updated');
+    const updated = updatedName ? this.setFrontmatterProperty(content, updatedName, now) : content;
+    const body = summary.data ? this.renderStructuredBody(summary) : summary.summary;
+    const callout = clip && !clip.noteName ? `\n\n${this.formatClipCallout(clip).trim()}` : '';
+    await fs.writeFile(notePath, `${updated.replace(/\s*$/, '')}\n\n## Summary (${now})\n\n${body.trim()}${callout}\n`, 'utf8');
+  }
+
+  private setFrontmatterProperty(content: string, name: string, value: string): string {
+    const frontmatter = content.match(/^---\r?\n([\s\S]*?\r?\n)?---/);
+    if (!frontmatter) {
+      return `---\n${toYaml({ [name]: value })}---\n\n${content}`;
+    }
+    const pattern = frontmatterPropertyPattern(name);
+    const replaced = pattern.test(frontmatter[0])
+      ? frontmatter[0].replace(pattern, (line, key: string) => `${key} ${value}`)
+      : frontmatter[0].replace(/---$/, `${toYaml({ [name]: value })}---`);
+    return replaced + content.slice(frontmatter[0].length);
+  }
+
+  private formatDateTime(date: Date): string {
+    return formatDate(date) + ' ' +
+      String(date.getHours()).padStart(2, '0') + ':' +
+      String(date.getMinutes()).padStart(2, '0');
+  }
+
+  /**
+   * The note name, used both as the filename (plus `.md`) and as the
+   * frontmatter title so that the two always agree.
+   */
+  private generateNoteTitle(summary: SummaryResult): string {
+    // Use profile filename if available, otherwise fallback to config
+    const filenameTemplate = summary.profile.filename || this.config.filenameFormat || '{date}-summary';
+
+    const title = renderTemplate(filenameTemplate, this.buildTemplateContext(summary), {
+      defaults: FILENAME_DEFAULTS,
+      // Strip characters that are unsafe in filenames from every substituted value
+      transform: stripIllegalCharacters
+    });
+
+    return sanitizeFilename(title, { maxBytes: this.config.maxFilenameBytes }) || FILENAME_DEFAULTS.title;
+  }
+
+  /**
+   * Placeholder values for filenames and note titles: all article fields, the
+   * summary metadata (model, trigger metadata) and the filename shortcuts.
+   */
+  private buildTemplateContext(summary: SummaryResult): TemplateContext {
     const article = summary.originalArticle;
     const now = new Date();
-    const currentDate = now.getFullYear() + '-' + 
-                        String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                        String(now.getDate()).padStart(2, '0');
-    
+
     // Use published date if available, otherwise use current date
     const publishedDate = article.publishedDate || now;
-    const publishedDateStr = publishedDate.getFullYear() + '-' + 
-                             String(publishedDate.getMonth() + 1).padStart(2, '0') + '-' + 
-                             String(publishedDate.getDate()).padStart(2, '0');
-    
-    // Use profile filename if available, otherwise fallback to config
-    const filenameTemplate = summary.profile.filename || this.config.filenameFormat || '{date}-summary';
-    
+
     // Extract domain name for fallback
-    const urlParts = new URL(article.url);
-    const domain = urlParts.hostname.replace(/^www\./, '');
-    const cleanDomain = domain.replace(/[^a-zA-Z0-9-]/g, '-');
-    
-    // Use siteName if available, fallback to domain
-    const siteIdentifier = article.siteName || domain;
-    const cleanSiteIdentifier = siteIdentifier.replace(/[^a-zA-Z0-9가-힣\s-]/g, '').trim();
-    
-    // Clean title for filename use
-    const cleanTitle = (article.title || 'Article').replace(/[^a-zA-Z0-9가-힣\s-]/g, '').trim();
-    
-    const filename = filenameTemplate
-      .replace('{date}', currentDate)
-      .replace('{title}', cleanTitle)
-      .replace('{published_date}', publishedDateStr)
-      .replace('{published_year}', publishedDate.getFullYear().toString())
-      .replace('{published_month}', String(publishedDate.getMonth() + 1).padStart(2, '0'))
-      .replace('{published_day}', String(publishedDate.getDate()).padStart(2, '0'))
-      .replace('{domain}', cleanDomain)
-      .replace('{siteName}', cleanSiteIdentifier)
-      .replace('{timestamp}', Date.now().toString())
-      // New Readability metadata placeholders
-      .replace('{author}', (article.author || 'Unknown').replace(/[^a-zA-Z0-9가-힣\s-]/g, '').trim())
-      .replace('{language}', article.language || 'unknown');
-    
-    return `${filename}.md`;
-  }
-
-  private generateMarkdown(summary: SummaryResult): string {
+    const domain = this.getSourceDomain(article.url);
+
+    return {
+      ...summary.metadata,
+      ...createArticleContext(article),
+      profile: summary.profile.name,
+      date: formatDate(now),
+      published_date: formatDate(publishedDate),
+      published_year: publishedDate.getFullYear().toString(),
+      published_month: String(publishedDate.getMonth() + 1).padStart(2, '0'),
+      published_day: String(publishedDate.getDate()).padStart(2, '0'),
+      domain: domain.replace(/[^a-zA-Z0-9-]/g, '-'),
+      // Use siteName if available, fallback to domain
+      siteName: article.siteName || domain,
+      timestamp: Date.now().toString()
+    };
+  }
+
+  private getSourceDomain(url: string): string {
+    try {
+      const parsed = new URL(url);
+      if (parsed.protocol === 'http:' || parsed.protocol === 'https:') {
+        return parsed.hostname.replace(/^www\./, '');
+      }
+      // Local files and stdin have no hostname
+      return parsed.protocol === 'file:' ? 'local' : parsed.protocol.replace(/:$/, '');
+    } catch {
+      return 'unknown';
+    }
+  }
+
+  private async generateMarkdown(summary: SummaryResult, title: string, created?: string, clip?: SavedClip): Promise<string> {
+    const clipLink = clip?.noteName ? `[[${clip.noteName}]]` : undefined;
+    const properties = this.renameProperties({ ...this.buildProperties(summary, title, created), clip: clipLink });
+    const body = await this.renderNoteBody(summary, clipLink);
+    const callout = clip && !clip.noteName ? `\n${this.formatClipCallout(clip)}` : '';
+
+    return `---\n${toYaml(properties)}---\n\n${body}${callout}`;
+  }
+
+  /**
+   * The note below the frontmatter: the profile's note template, else the
+   * configured `templateName`, else just the summary.
+   */
+  private async renderNoteBody(summary: SummaryResult, clipLink?: string): Promise<string> {
+    // The AI-generated summary content
+    const summaryText = this.markSummary(summary);
+    const template = summary.profile.noteTemplate ?? this.noteTemplates(this.config.templateName || 'default');
+    if (template === undefined) {
+      return `${summaryText}\n`;
+    }
+
+    const article = summary.originalArticle;
+    const metadata = summary.metadata || {};
+    const context = {
+      ...this.buildTemplateContext(summary),
+      ...summary.data,
+      summary: summaryText,
+      sourceLink: this.formatSourceLink(summary),
+      sourceCallout: this.formatSourceCallout(summary),
+      relatedNotes: (await this.index.findRelated(article.url, MAX_RELATED_NOTES))
+        .map(note => `[[${path.basename(note.path, '.md')}]]`),
+      clipLink,
+      triggerSource: metadata.triggeredBy
+        ? (metadata.feedTitle ? `${metadata.feedTitle} (${metadata.triggeredBy})` : metadata.triggeredBy)
+        : undefined
+    };
+
+    return renderTemplate(template, context, { partials: this.noteTemplates }).replace(/\s*$/, '\n');
+  }
+
+  /**
+   * The summary content between the AI summary markers.
+   */
+  private markSummary(summary: SummaryResult): string {
+    const text = summary.data ? this.renderStructuredBody(summary) : summary.summary;
+    return `${SUMMARY_START_MARKER}\n${text.trim()}\n${SUMMARY_END_MARKER}`;
+  }
+
+  /**
+   * The structured TL;DR, or else the first line of prose in the summary.
+   */
+  private getOneLineSummary(summary: SummaryResult): string | undefined {
+    const tldr = typeof summary.data?.tldr === 'string'
+      ? summary.data.tldr
+      : summary.summary.split('\n')
+        .map(line => line.trim())
+        .find(line => line && !/^(#|---|```|\||>)/.test(line));
+    if (!tldr) {
+      return undefined;
+    }
+    const text = tldr.replace(/^([-*+]|\d+\.)\s+/, '').replace(/\*\*|__/g, '').replace(/\s+/g, ' ').trim();
+    return text.length > MAX_DAILY_SUMMARY_LENGTH ? `${text.slice(0, MAX_DAILY_SUMMARY_LENGTH - 1).trimEnd()}…` : text;
+  }
+
+  private formatSourceLink(summary: SummaryResult): string {
+    const { url, title } = summary.originalArticle;
+    const text = (title || this.getSourceDomain(url)).replace(/([\[\]])/g, '\\$1');
+    return `[${text}](${url.replace(/ /g, '%20').replace(/\)/g, '%29')})`;
+  }
+
+  private formatSourceCallout(summary: SummaryResult): string {
     const article = summary.originalArticle;
+    const details = [article.author, article.siteName || this.getSourceDomain(article.url), article.publishedDate && formatDate(article.publishedDate)]
+      .filter(Boolean)
+      .join(' · ');
+    return `> [!info] Source\n> ${this.formatSourceLink(summary)}${details ? `\n> ${details}` : ''}`;
+  }
+
+  /**
+   * Frontmatter properties under their built-in names, in output order.
+   * Missing values are left undefined and are not written.
+   */
+  private buildProperties(summary: SummaryResult, title: string, created?: string): Record<string, unknown> {
+    const article = summary.originalArticle;
+    const metadata = summary.metadata || {};
     const now = new Date();
-    const createdDateTime = now.getFullYear() + '-' + 
-                           String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                           String(now.getDate()).padStart(2, '0') + ' ' +
-                           String(now.getHours()).padStart(2, '0') + ':' + 
-                           String(now.getMinutes()).padStart(2, '0');
-    
-    // Generate title based on profile filename pattern
-    const filenameTemplate = summary.profile.filename || 'Article Summary {date}';
-    let title = filenameTemplate;
-    
-    // Replace placeholders in title
-    const currentDateStr = now.getFullYear() + '-' + 
-                          String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                          String(now.getDate()).padStart(2, '0');
-    
-    if (article.publishedDate) {
-      const publishedDateStr = article.publishedDate.getFullYear() + '-' + 
-                               String(article.publishedDate.getMonth() + 1).padStart(2, '0') + '-' + 
-                               String(article.publishedDate.getDate()).padStart(2, '0');
-      title = title.replace('{published_date}', publishedDateStr);
-    }
-    
-    // Extract domain for title
-    const urlParts = new URL(article.url);
-    const domain = urlParts.hostname.replace(/^www\./, '');
-    const cleanDomain = domain.replace(/[^a-zA-Z0-9-]/g, '-');
-    
-    // Use siteName if available, fallback to domain
-    const siteIdentifier = article.siteName || domain;
-    
-    // Clean title for filename use
-    const cleanTitle = (article.title || 'Article').replace(/[^a-zA-Z0-9가-힣\s-]/g, '').trim();
-    
-    title = title.replace('{date}', currentDateStr);
-    title = title.replace('{title}', cleanTitle);
-    title = title.replace('{domain}', cleanDomain);
-    title = title.replace('{siteName}', siteIdentifier);
-    title = title.replace('{timestamp}', Date.now().toString())
-           // New Readability metadata placeholders for title
-           .replace('{author}', article.author || 'Unknown')
-           .replace('{language}', article.language || 'unknown');
-    
-    let markdown = '';
-    
-    // Frontmatter - new format
-    markdown += '---\n';
-    markdown += `title: ${title}\n`;
-    markdown += `type: summary\n`;
-    
-    // Add date (published date if available, otherwise current date)
-    if (article.publishedDate) {
-      const publishedDateStr = article.publishedDate.getFullYear() + '-' + 
-                               String(article.publishedDate.getMonth() + 1).padStart(2, '0') + '-' + 
-                               String(article.publishedDate.getDate()).padStart(2, '0');
-      markdown += `date: ${publishedDateStr}\n`;
-    } else {
-      const currentDateStr = now.getFullYear() + '-' + 
-                            String(now.getMonth() + 1).padStart(2, '0') + '-' + 
-                            String(now.getDate()).padStart(2, '0');
-      markdown += `date: ${currentDateStr}\n`;
-    }
-    
-    markdown += `url: ${article.url}\n`;
-    markdown += `created: ${createdDateTime}\n`;
-    markdown += `updated: ${createdDateTime}\n`;
-    
-    // Add tags from profile (single line format)
-    if (summary.profile.tags && summary.profile.tags.length > 0) {
-      markdown += `tags: ${summary.profile.tags.join(', ')}\n`;
-    }
-    
-    markdown += '---\n\n';
-    
-    // Only the AI-generated summary content
-    markdown += summary.summary;
-    
-    return markdown;
+    const updatedDateTime = this.formatDateTime(now);
+
+    // Record which model actually wrote the summary (it may be a fallback)
+    const model = metadata.model && metadata.provider ? `${metadata.provider}:${metadata.model}` : metadata.model;
+
+    const properties: Record<string, unknown> = {
+      title,
+      // Lets links and search find the note by the article's own title
+      aliases: article.title && article.title !== title ? [article.title] : undefined,
+      type: 'summary',
+      // Published date if available, otherwise the current date
+      date: formatDate(article.publishedDate || now),
+      url: article.url,
+      author: article.author || metadata.author,
+      siteName: article.siteName,
+      language: article.language,
+      excerpt: article.excerpt,
+      // A rewritten note keeps its original creation time
+      created: created || updatedDateTime,
+      updated: updatedDateTime,
+      model,
+      profile: summary.profile.name,
+      // Trigger metadata, set by the trigger manager
+      feedTitle: metadata.feedTitle,
+      feedUrl: metadata.feedUrl,
+      categories: Array.isArray(metadata.categories) && metadata.categories.length > 0 ? metadata.categories : undefined,
+      triggeredBy: metadata.triggeredBy
+    };
+
+    // Structured summaries: each schema field becomes a typed property
+    for (const [key, value] of Object.entries(summary.data || {})) {
+      if (!RESERVED_PROPERTIES.includes(key) && key !== SUGGESTED_TAGS_FIELD) {
+        properties[key] = value;
+      }
+    }
+
+    const tags = this.getTags(summary);
+    properties.tags = tags.length > 0 ? tags : undefined;
+
+    return properties;
+  }
+
+  /**
+   * Apply `obsidian.properties`: a property mapped to a string is written
+   * under that name, one mapped to false is left out.
+   */
+  private renameProperties(properties: Record<string, unknown>): Record<string, unknown> {
+    const renamed: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(properties)) {
+      const name = this.propertyName(key);
+      if (name) {
+        renamed[name] = value;
+      }
+    }
+    return renamed;
+  }
+
+  private propertyName(key: string): string | undefined {
+    const name = this.config.properties?.[key];
+    if (name === false) return undefined;
+    return name || key;
+  }
+
+  /**
+   * Tags from the profile, plus tags suggested by a structured summary.
+   */
+  private getTags(summary: SummaryResult): string[] {
+    return [...(summary.profile.tags || []), ...this.getSuggestedTags(summary)]
+      .filter((tag, index, all) => all.indexOf(tag) === index);
+  }
+
+  private getSuggestedTags(summary: SummaryResult): string[] {
+    const suggested = summary.data?.[SUGGESTED_TAGS_FIELD];
+    if (!Array.isArray(suggested)) return [];
+    return suggested
+      .filter((tag): tag is string => typeof tag === 'string')
+      // Obsidian tags cannot contain spaces or start with '#'
+      .map(tag => tag.trim().replace(/^#/, '').replace(/\s+/g, '-').toLowerCase())
+      .filter(tag => tag.length > 0);
+  }
+
+  private renderStructuredBody(summary: SummaryResult): string {
+    const data = summary.data!;
+    if (summary.profile.bodyTemplate) {
+      const context = { ...this.buildTemplateContext(summary), ...data };
+      return renderTemplate(summary.profile.bodyTemplate, context, { partials: this.partials });
+    }
+
+    // Without a template, list the fields as sections in schema order
+    return Object.entries(data)
+      .filter(([key]) => key !== SUGGESTED_TAGS_FIELD)
+      .map(([key, value]) => {
+        const heading = key.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+        const body = Array.isArray(value)
+          ? value.map(item => `- ${typeof item === 'object' ? JSON.stringify(item) : item}`).join('\n')
+          : typeof value === 'object' ? JSON.stringify(value) : String(value);
+        return `## ${heading}\n\n${body}`;
+      })
+      .join('\n\n') + '\n';
   }
 
   async validateVaultPath(): Promise<boolean> {
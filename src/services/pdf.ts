@@ -0,0 +1,279 @@
+import pdfParse from 'pdf-parse';
+import { ArticleContent } from './fetcher';
+
+export interface PdfExtractorOptions {
+  // Maximum number of pages to read (0 = all pages)
+  maxPages?: number;
+}
+
+interface PdfLine {
+  text: string;
+  fontSize: number;
+  y: number;
+  page: number;
+}
+
+// The parts of a pdf.js text item the extractor reads; marked-content items have no str
+interface PdfTextItem {
+  str?: string;
+  // [scaleX, skewY, skewX, scaleY, x, y]
+  transform: number[];
+  width?: number;
+  hasEOL?: boolean;
+}
+
+interface PdfPageData {
+  getTextContent(options: { normalizeWhitespace: boolean }): Promise<{ items: PdfTextItem[] }>;
+}
+
+// Common placeholder titles written by LaTeX/Word toolchains into the PDF info dictionary
+const PLACEHOLDER_TITLES = /^(untitled|microsoft word - .*|.*\.(dvi|pdf|docx?|tex))$/i;
+
+export class PdfExtractor {
+  constructor(private options: PdfExtractorOptions = {}) {}
+
+  async extract(data: Buffer, url: string): Promise<ArticleContent> {
+    const lines: PdfLine[] = [];
+    let pageNumber = 0;
+
+    // The bundled pdf.js clones its input with `new value.constructor(value)` and later reads the
+    // underlying ArrayBuffer from offset 0. A cloned Buffer may live inside Node's shared pool
+    // at a non-zero offset, so hand it a plain Uint8Array instead.
+    const pdfData = new Uint8Array(data) as unknown as Buffer;
+
+    const result = await pdfParse(pdfData, {
+      max: this.options.maxPages || 0,
+      // Keep font sizes and positions so headings can be told apart from body text
+      pagerender: async (pageData: PdfPageData) => {
+        const page = ++pageNumber;
+        const textContent = await pageData.getTextContent({ normalizeWhitespace: true });
+        const pageLines = this.groupIntoLines(textContent.items, page);
+        lines.push(...pageLines);
+        return pageLines.map(line => line.text).join('\n');
+      }
+    });
+
+    this.removeRunningHeaders(lines, result.numrender);
+
+    const info = result.info || {};
+    const bodySize = this.getBodyFontSize(lines);
+    const infoTitle = typeof info.Title === 'string' ? info.Title.trim() : '';
+    const title = infoTitle && !PLACEHOLDER_TITLES.test(infoTitle)
+      ? infoTitle
+      : this.detectTitle(lines);
+
+    const { markdown, abstract, byline } = this.buildMarkdown(lines, bodySize, title);
+    const infoAuthor = typeof info.Author === 'string' ? info.Author.trim() : '';
+
+    const metaData: Record<string, string> = { 'pdf:pages': String(result.numpages) };
+    for (const [key, value] of Object.entries(info)) {
+      if (typeof value === 'string' && value.trim()) {
+        metaData[`pdf:${key}`] = value.trim();
+      }
+    }
+
+    console.log(`\n=== PDF DEBUG INFO ===`);
+    console.log(`Pages: ${result.numpages} (rendered ${result.numrender})`);
+    console.log(`Title: ${title || 'Not found'}`);
+    console.log(`Author: ${infoAuthor || byline || 'Not found'}`);
+    console.log(`Body font size: ${bodySize.toFixed(1)}`);
+    console.log(`Markdown length: ${markdown.length}`);
+    console.log(`======================\n`);
+
+    return {
+      url,
+      markdownContent: markdown,
+      title: title || undefined,
+      publishedDate: this.parsePdfDate(info.CreationDate) || this.parsePdfDate(info.ModDate),
+      metaData,
+      author: infoAuthor || byline,
+      excerpt: abstract ? abstract.substring(0, 300) : undefined,
+      sourceType: 'pdf'
+    };
+  }
+
+  private groupIntoLines(items: PdfTextItem[], page: number): PdfLine[] {
+    const lines: PdfLine[] = [];
+    let current: PdfLine | null = null;
+
+    for (const item of items) {
+      if (typeof item.str !== 'string') continue;
+      const [a, b, c, d, , y] = item.transform;
+      const fontSize = Math.round(Math.max(Math.hypot(a, b), Math.hypot(c, d)) * 10) / 10;
+
+      if (current && Math.abs(current.y - y) < Math.max(2, fontSize * 0.3)) {
+        current.text += item.str;
+        current.fontSize = Math.max(current.fontSize, fontSize);
+      } else {
+        if (current) lines.push(current);
+        current = { text: item.str, fontSize, y, page };
+      }
+    }
+    if (current) lines.push(current);
+
+    return lines
+      .map(line => ({ ...line, text: line.text.replace(/\s+/g, ' ').trim() }))
+      // Drop empty lines and bare page numbers
+      .filter(line => line.text.length > 0 && !/^\d{1,4}$/.test(line.text));
+  }
+
+  private removeRunningHeaders(lines: PdfLine[], pageCount: number): void {
+    if (pageCount < 3) return;
+
+    // Text repeated on most pages is a running header or footer, not content
+    const pagesByText = new Map<string, Set<number>>();
+    for (const line of lines) {
+      const pages = pagesByText.get(line.text) || new Set<number>();
+      pages.add(line.page);
+      pagesByText.set(line.text, pages);
+    }
+
+    for (let i = lines.length - 1; i >= 0; i--) {
+      const pages = pagesByText.get(lines[i].text)!;
+      if (pages.size > pageCount / 2 && !(lines[i].page === 1 && pages.size < pageCount)) {
+        lines.splice(i, 1);
+      }
+    }
+  }
+
+  private getBodyFontSize(lines: PdfLine[]): number {
+    // The body size is the one covering the most characters
+    const weights = new Map<number, number>();
+    for (const line of lines) {
+      weights.set(line.fontSize, (weights.get(line.fontSize) || 0) + line.text.length);
+    }
+    let bodySize = 0;
+    let maxWeight = -1;
+    for (const [size, weight] of weights) {
+      if (weight > maxWeight) {
+        bodySize = size;
+        maxWeight = weight;
+      }
+    }
+    return bodySize;
+  }
+
+  private detectTitle(lines: PdfLine[]): string {
+    const firstPage = lines.filter(line => line.page === 1);
+    if (firstPage.length === 0) return '';
+
+    const maxSize = Math.max(...firstPage.map(line => line.fontSize));
+    const start = firstPage.findIndex(line => line.fontSize === maxSize);
+    const titleLines: string[] = [];
+    for (let i = start; i < firstPage.length && firstPage[i].fontSize === maxSize; i++) {
+      titleLines.push(firstPage[i].text);
+    }
+    return titleLines.join(' ').trim();
+  }
+
+  private isHeading(line: PdfLine, bodySize: number): boolean {
+    if (line.text.length > 120 || !/\p{L}/u.test(line.text) || /[.,;:]$/.test(line.text)) {
+      return false;
+    }
+    if (line.fontSize >= bodySize * 1.15) {
+      return true;
+    }
+    // Numbered section titles ("3 Method", "4.2 Results") are often set at body size in bold
+    return line.fontSize >= bodySize && /^(\d+(\.\d+)*\.?|[IVX]+\.)\s+\p{Lu}/u.test(line.text) && line.text.length <= 80;
+  }
+
+  private buildMarkdown(lines: PdfLine[], bodySize: number, title: string): { markdown: string; abstract?: string; byline?: string } {
+    const blocks: string[] = [];
+    // Lines between the title and the first section usually hold authors and affiliations
+    const preamble: string[] = [];
+    let inPreamble = true;
+    let paragraph: string[] = [];
+    let abstractLines: string[] | null = null;
+    let abstract: string | undefined;
+    let previous: PdfLine | null = null;
+    let titleSkipped = false;
+
+    const flush = () => {
+      if (paragraph.length === 0) return;
+      // Re-join words hyphenated across line breaks
+      const text = paragraph.join('\n').replace(/(\p{L})-\n(\p{Ll})/gu, '$1$2').replace(/\n/g, ' ');
+      blocks.push(text);
+      if (abstractLines) {
+        abstractLines.push(text);
+      }
+      paragraph = [];
+    };
+
+    for (const line of lines) {
+      // The detected title becomes the note title, not a body heading
+      if (!titleSkipped && line.page === 1 && line.fontSize > bodySize && title.startsWith(line.text)) {
+        titleSkipped = title.endsWith(line.text);
+        previous = line;
+        continue;
+      }
+
+      const abstractMatch = line.text.match(/^abstract\b[\s.:—–-]*(.*)$/i);
+      if (abstractMatch && abstract === undefined && !abstractLines) {
+        inPreamble = false;
+        flush();
+        blocks.push('## Abstract');
+        abstractLines = [];
+        if (abstractMatch[1]) {
+          paragraph.push(abstractMatch[1]);
+        }
+        previous = line;
+        continue;
+      }
+
+      if (this.isHeading(line, bodySize)) {
+        inPreamble = false;
+        flush();
+        if (abstractLines) {
+          abstract = abstractLines.join(' ');
+          abstractLines = null;
+        }
+        const depth = (line.text.match(/^(\d+(?:\.\d+)*)/)?.[1].split('.').length || 1);
+        blocks.push(`${'#'.repeat(Math.min(depth + 1, 4))} ${line.text}`);
+        previous = line;
+        continue;
+      }
+
+      // Start a new paragraph on a page break or a vertical gap noticeably larger than the line height
+      const gap = previous && previous.page === line.page ? previous.y - line.y : Infinity;
+      if (previous && (previous.page !== line.page || gap > line.fontSize * 1.8 || gap < 0)) {
+        flush();
+      }
+      if (inPreamble && line.page === 1) {
+        preamble.push(line.text);
+      }
+      paragraph.push(line.text);
+      previous = line;
+    }
+
+    flush();
+    if (abstractLines && abstract === undefined) {
+      abstract = abstractLines.join(' ');
+    }
+
+    const byline = preamble.join(', ');
+
+    return {
+      markdown: blocks.join('\n\n').trim(),
+      abstract: abstract?.trim() || undefined,
+      byline: byline && byline.length <= 200 ? byline : undefined
+    };
+  }
+
+  private parsePdfDate(value: unknown): Date | undefined {
+    if (typeof value !== 'string') return undefined;
+
+    // PDF dates look like D:YYYYMMDDHHmmSSOHH'mm'
+    const match = value.match(/^(?:D:)?(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(Z|[+-]\d{2}'?\d{2}'?)?/);
+    if (!match) return undefined;
+
+    const [, year, month = '01', day = '01', hour = '00', minute = '00', second = '00', zone] = match;
+    let offset = 'Z';
+    if (zone && zone !== 'Z') {
+      const digits = zone.replace(/'/g, '');
+      offset = `${digits.slice(0, 3)}:${digits.slice(3, 5) || '00'}`;
+    }
+
+    const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+}
@@ -0,0 +1,51 @@
+import { CompletionRequest, ProviderConfig, ProviderError, SummarizerProvider, postJson } from './base';
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 8192;
+const STRUCTURED_TOOL_NAME = 'record_summary';
+
+/**
+ * Native Anthropic Messages API.
+ */
+export class AnthropicProvider implements SummarizerProvider {
+  readonly name = 'anthropic' as const;
+
+  constructor(private config: ProviderConfig) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new ProviderError('anthropic API key is not configured. Set ANTHROPIC_API_KEY or ai.providers.anthropic.apiKey', this.name);
+    }
+
+    const baseUrl = (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const data = await postJson(this.name, `${baseUrl}/v1/messages`, {
+      model: request.model,
+      // The Messages API requires an explicit output limit
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      system: request.systemPrompt,
+      messages: [
+        { role: 'user', content: request.userMessage }
+      ],
+      // Structured output goes through a forced tool call whose input follows the schema
+      ...(request.responseSchema ? {
+        tools: [{ name: STRUCTURED_TOOL_NAME, description: 'Record the summary', input_schema: request.responseSchema }],
+        tool_choice: { type: 'tool', name: STRUCTURED_TOOL_NAME }
+      } : {})
+    }, {
+      'x-api-key': this.config.apiKey,
+      'anthropic-version': ANTHROPIC_VERSION,
+      ...this.config.headers
+    }, request.signal);
+
+    const toolUse = (data.content || []).find((block: any) => block.type === 'tool_use');
+    if (toolUse) {
+      return JSON.stringify(toolUse.input);
+    }
+
+    return (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+  }
+}
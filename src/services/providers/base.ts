@@ -0,0 +1,121 @@
+import { JsonSchema } from '../schema';
+
+export type ProviderName = 'openai' | 'openrouter' | 'anthropic' | 'gemini' | 'ollama';
+
+export const PROVIDER_NAMES: ProviderName[] = ['openai', 'openrouter', 'anthropic', 'gemini', 'ollama'];
+
+export interface ProviderConfig {
+  apiKey?: string;
+  baseUrl?: string;
+  // Extra HTTP headers sent with every request (e.g. OpenRouter attribution)
+  headers?: Record<string, string>;
+}
+
+export interface CompletionRequest {
+  model: string;
+  systemPrompt: string;
+  userMessage: string;
+  maxTokens?: number;
+  // Context window of the model, for backends that must be told explicitly (Ollama)
+  contextWindow?: number;
+  // Ask for a JSON object matching this schema (native JSON mode where the backend has one)
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface SummarizerProvider {
+  readonly name: ProviderName;
+  complete(request: CompletionRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public readonly provider: ProviderName,
+    public readonly status?: number,
+    public readonly retryable: boolean = false,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Map an HTTP failure to a ProviderError with a message that says what to fix.
+ */
+export function createHttpError(provider: ProviderName, status: number, detail: string, retryAfter?: string | null): ProviderError {
+  const retryAfterMs = parseRetryAfter(retryAfter);
+  const suffix = detail ? `: ${detail}` : '';
+
+  if (status === 401 || status === 403) {
+    return new ProviderError(`${provider} rejected the credentials (HTTP ${status}). Check the API key${suffix}`, provider, status);
+  }
+  if (status === 404) {
+    return new ProviderError(`${provider} model or endpoint not found (HTTP 404)${suffix}`, provider, status);
+  }
+  if (status === 429) {
+    return new ProviderError(`${provider} rate limit exceeded (HTTP 429)${suffix}`, provider, status, true, retryAfterMs);
+  }
+  if (status === 408 || status >= 500) {
+    return new ProviderError(`${provider} server error (HTTP ${status})${suffix}`, provider, status, true, retryAfterMs);
+  }
+  return new ProviderError(`${provider} request failed (HTTP ${status})${suffix}`, provider, status);
+}
+
+/**
+ * Shared JSON POST helper for the providers that talk HTTP directly.
+ */
+export async function postJson(
+  provider: ProviderName,
+  url: string,
+  body: unknown,
+  headers: Record<string, string>,
+  signal?: AbortSignal
+): Promise<any> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal
+    });
+  } catch (error) {
+    if (error instanceof Error && (error.name === 'AbortError' || error.name === 'TimeoutError')) {
+      throw new ProviderError(`${provider} request timed out`, provider, undefined, true);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    throw new ProviderError(`${provider} request failed: ${message}`, provider, undefined, true);
+  }
+
+  const text = await response.text();
+  let data: any;
+  try {
+    data = text ? JSON.parse(text) : {};
+  } catch {
+    data = undefined;
+  }
+
+  if (!response.ok) {
+    const detail = data?.error?.message || data?.error || text.substring(0, 200);
+    throw createHttpError(provider, response.status, typeof detail === 'string' ? detail : JSON.stringify(detail), response.headers.get('retry-after'));
+  }
+  if (data === undefined) {
+    throw new ProviderError(`${provider} returned invalid JSON`, provider, response.status);
+  }
+
+  return data;
+}
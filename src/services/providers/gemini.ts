@@ -0,0 +1,45 @@
+import { CompletionRequest, ProviderConfig, ProviderError, SummarizerProvider, postJson } from './base';
+
+const DEFAULT_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+/**
+ * Native Google Gemini generateContent API.
+ */
+export class GeminiProvider implements SummarizerProvider {
+  readonly name = 'gemini' as const;
+
+  constructor(private config: ProviderConfig) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    if (!this.config.apiKey) {
+      throw new ProviderError('gemini API key is not configured. Set GEMINI_API_KEY or ai.providers.gemini.apiKey', this.name);
+    }
+
+    const baseUrl = (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    // Accept "models/gemini-2.5-pro" as well as the bare model name
+    const model = request.model.replace(/^models\//, '');
+    const data = await postJson(this.name, `${baseUrl}/models/${encodeURIComponent(model)}:generateContent`, {
+      systemInstruction: { parts: [{ text: request.systemPrompt }] },
+      contents: [
+        { role: 'user', parts: [{ text: request.userMessage }] }
+      ],
+      generationConfig: {
+        ...(request.maxTokens ? { maxOutputTokens: request.maxTokens } : {}),
+        ...(request.responseSchema ? { responseMimeType: 'application/json' } : {})
+      }
+    }, {
+      'x-goog-api-key': this.config.apiKey,
+      ...this.config.headers
+    }, request.signal);
+
+    const candidate = data.candidates?.[0];
+    if (!candidate) {
+      const reason = data.promptFeedback?.blockReason;
+      throw new ProviderError(`gemini returned no candidates${reason ? ` (blocked: ${reason})` : ''}`, this.name);
+    }
+
+    return (candidate.content?.parts || [])
+      .map((part: any) => part.text || '')
+      .join('');
+  }
+}
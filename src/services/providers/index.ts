@@ -0,0 +1,109 @@
+import { AIConfig } from '../../utils/config';
+import { PROVIDER_NAMES, ProviderConfig, ProviderName, SummarizerProvider } from './base';
+import { OpenAICompatibleProvider } from './openai';
+import { AnthropicProvider } from './anthropic';
+import { GeminiProvider } from './gemini';
+import { OllamaProvider } from './ollama';
+
+export * from './base';
+export { OpenAICompatibleProvider } from './openai';
+export { AnthropicProvider } from './anthropic';
+export { GeminiProvider } from './gemini';
+export { OllamaProvider } from './ollama';
+
+export interface ModelSpec {
+  provider: ProviderName;
+  model: string;
+}
+
+const API_KEY_ENV_VARS: Record<ProviderName, string[]> = {
+  openai: ['OPENAI_API_KEY'],
+  openrouter: ['OPENROUTER_API_KEY'],
+  anthropic: ['ANTHROPIC_API_KEY'],
+  gemini: ['GEMINI_API_KEY', 'GOOGLE_API_KEY'],
+  ollama: []
+};
+
+export function isProviderName(value: string): value is ProviderName {
+  return (PROVIDER_NAMES as string[]).includes(value);
+}
+
+/**
+ * Parse "provider:model" (e.g. "anthropic:claude-sonnet-4-20250514", "ollama:llama3.1:8b").
+ * Only a known provider name counts as a prefix, so OpenRouter ids such as
+ * "meta-llama/llama-3-8b:free" are left intact.
+ */
+export function parseModelSpec(spec: string, defaultProvider: ProviderName): ModelSpec {
+  const separator = spec.indexOf(':');
+  if (separator > 0) {
+    const prefix = spec.substring(0, separator);
+    if (isProviderName(prefix)) {
+      return { provider: prefix, model: spec.substring(separator + 1) };
+    }
+  }
+  return { provider: defaultProvider, model: spec };
+}
+
+export class ProviderRegistry {
+  private instances: Map<ProviderName, SummarizerProvider> = new Map();
+
+  constructor(
+    public readonly defaultProvider: ProviderName,
+    private configs: Partial<Record<ProviderName, ProviderConfig>>
+  ) {}
+
+  static fromConfig(ai: AIConfig): ProviderRegistry {
+    const defaultProvider = ai.provider || 'openai';
+    const configs: Partial<Record<ProviderName, ProviderConfig>> = { ...ai.providers };
+
+    // The top-level apiKey/baseUrl keep configuring the default provider
+    configs[defaultProvider] = {
+      ...configs[defaultProvider],
+      apiKey: configs[defaultProvider]?.apiKey || ai.apiKey,
+      baseUrl: configs[defaultProvider]?.baseUrl || ai.baseUrl
+    };
+
+    return new ProviderRegistry(defaultProvider, configs);
+  }
+
+  getConfig(name: ProviderName): ProviderConfig {
+    const config = this.configs[name] || {};
+    const envKey = API_KEY_ENV_VARS[name].map(key => process.env[key]).find(Boolean);
+    const baseUrl = config.baseUrl || (name === 'ollama' ? process.env.OLLAMA_HOST : undefined);
+    return { ...config, apiKey: config.apiKey || envKey, baseUrl };
+  }
+
+  requiresApiKey(name: ProviderName): boolean {
+    return name !== 'ollama';
+  }
+
+  get(name: ProviderName): SummarizerProvider {
+    let provider = this.instances.get(name);
+    if (!provider) {
+      provider = this.create(name, this.getConfig(name));
+      this.instances.set(name, provider);
+    }
+    return provider;
+  }
+
+  resolve(modelSpec: string): { provider: SummarizerProvider; model: string } {
+    const { provider, model } = parseModelSpec(modelSpec, this.defaultProvider);
+    return { provider: this.get(provider), model };
+  }
+
+  private create(name: ProviderName, config: ProviderConfig): SummarizerProvider {
+    switch (name) {
+      case 'openai':
+      case 'openrouter':
+        return new OpenAICompatibleProvider(name, config);
+      case 'anthropic':
+        return new AnthropicProvider(config);
+      case 'gemini':
+        return new GeminiProvider(config);
+      case 'ollama':
+        return new OllamaProvider(config);
+      default:
+        throw new Error(`Unknown AI provider: ${name}`);
+    }
+  }
+}
@@ -0,0 +1,39 @@
+import { CompletionRequest, ProviderConfig, SummarizerProvider, postJson } from './base';
+
+const DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Local Ollama server via its native /api/chat endpoint.
+ * (llama.cpp's server is OpenAI-compatible: use the openai provider with a baseUrl.)
+ */
+export class OllamaProvider implements SummarizerProvider {
+  readonly name = 'ollama' as const;
+
+  constructor(private config: ProviderConfig) {}
+
+  async complete(request: CompletionRequest): Promise<string> {
+    const baseUrl = (this.config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, '');
+    const headers: Record<string, string> = { ...this.config.headers };
+    if (this.config.apiKey) {
+      headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+    }
+
+    const data = await postJson(this.name, `${baseUrl}/api/chat`, {
+      model: request.model,
+      stream: false,
+      // Ollama constrains generation to a JSON schema passed as "format"
+      format: request.responseSchema,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userMessage }
+      ],
+      options: {
+        // Ollama silently truncates prompts beyond num_ctx (2048 by default)
+        num_ctx: request.contextWindow,
+        num_predict: request.maxTokens
+      }
+    }, headers, request.signal);
+
+    return data.message?.content || '';
+  }
+}
@@ -0,0 +1,79 @@
+import OpenAI from 'openai';
+import { CompletionRequest, ProviderConfig, ProviderError, ProviderName, SummarizerProvider, createHttpError } from './base';
+
+export const DEFAULT_BASE_URLS: Record<'openai' | 'openrouter', string> = {
+  openai: 'https://api.openai.com/v1',
+  openrouter: 'https://openrouter.ai/api/v1'
+};
+
+// Reasoning models reject max_tokens and take max_completion_tokens instead
+const COMPLETION_TOKENS_MODELS = /^(openai\/)?(o\d|gpt-5)/i;
+
+/**
+ * Any backend that speaks the OpenAI Chat Completions API: OpenAI, OpenRouter,
+ * or a local llama.cpp / vLLM server via baseUrl.
+ */
+export class OpenAICompatibleProvider implements SummarizerProvider {
+  private client: OpenAI;
+
+  constructor(public readonly name: 'openai' | 'openrouter', config: ProviderConfig) {
+    this.client = new OpenAI({
+      // Local OpenAI-compatible servers usually accept any key
+      apiKey: config.apiKey || 'not-needed',
+      baseURL: config.baseUrl || DEFAULT_BASE_URLS[name],
+      defaultHeaders: config.headers,
+      // Retry policy is left to the caller, which sees every failure
+      maxRetries: 0
+    });
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    try {
+      const completion = await this.client.chat.completions.create({
+        model: request.model,
+        messages: [
+          {
+            role: 'system',
+            content: request.systemPrompt
+          },
+          {
+            role: 'user',
+            content: request.userMessage
+          }
+        ],
+        ...(request.maxTokens ? this.maxTokensParam(request.model, request.maxTokens) : {}),
+        // JSON mode is widely supported across OpenAI-compatible servers; the schema itself is in the prompt
+        ...(request.responseSchema ? { response_format: { type: 'json_object' as const } } : {})
+      }, { signal: request.signal });
+
+      return completion.choices[0]?.message?.content || '';
+    } catch (error) {
+      throw this.mapError(error);
+    }
+  }
+
+  private maxTokensParam(model: string, maxTokens: number): { max_tokens: number } | { max_completion_tokens: number } {
+    return COMPLETION_TOKENS_MODELS.test(model) ? { max_completion_tokens: maxTokens } : { max_tokens: maxTokens };
+  }
+
+  private mapError(error: unknown): Error {
+    const name: ProviderName = this.name;
+    if (error instanceof ProviderError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIError && error.status) {
+      const retryAfter = error.headers?.get?.('retry-after') ?? null;
+      return createHttpError(name, error.status, error.message, retryAfter);
+    }
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new ProviderError(`${name} request timed out`, name, undefined, true);
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new ProviderError(`${name} connection failed: ${error.message}`, name, undefined, true);
+    }
+    if (error instanceof OpenAI.APIUserAbortError) {
+      return new ProviderError(`${name} request timed out`, name, undefined, true);
+    }
+    return error instanceof Error ? error : new Error(String(error));
+  }
+}
@@ -0,0 +1,324 @@
+import { randomUUID } from 'crypto';
+import * as path from 'path';
+import { JsonFileStore, withFileLock } from './state';
+import { TriggerEvent } from './triggers/base';
+import { getBackoffDelay } from '../utils/retry';
+
+export type JobState = 'pending' | 'running' | 'done' | 'failed' | 'dead';
+
+export const JOB_STATES: JobState[] = ['pending', 'running', 'done', 'failed', 'dead'];
+
+export interface Job {
+  id: string;
+  triggerId: string;
+  profile: string;
+  // The trigger event, with its timestamp stored as an ISO string
+  event: Omit<TriggerEvent, 'timestamp'> & { timestamp: string };
+  state: JobState;
+  attempts: number;
+  maxAttempts: number;
+  createdAt: string;
+  updatedAt: string;
+  // When a failed job becomes due again
+  nextRunAt?: string;
+  lastError?: string;
+  result?: Record<string, unknown>;
+}
+
+export interface QueueOptions {
+  maxAttempts?: number;
+  // Backoff between attempts: initialDelayMs doubles per attempt, up to maxDelayMs
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+  // How often the worker looks for due jobs
+  pollIntervalMs?: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: Required<QueueOptions> = {
+  maxAttempts: 5,
+  initialDelayMs: 60 * 1000,
+  maxDelayMs: 60 * 60 * 1000,
+  pollIntervalMs: 5000
+};
+
+interface QueueData {
+  jobs: Job[];
+}
+
+/**
+ * Persistent queue of trigger events. Every change re-reads the file while
+ * holding a lock file, so the `queue` CLI command and a running daemon can
+ * both modify it.
+ */
+export class JobQueue {
+  private store: JsonFileStore<QueueData>;
+  private lockPath: string;
+  private options: Required<QueueOptions>;
+  private updateChain: Promise<unknown> = Promise.resolve();
+
+  constructor(filePath: string, options: QueueOptions = {}) {
+    this.store = new JsonFileStore<QueueData>(filePath, () => ({ jobs: [] }));
+    this.lockPath = `${filePath}.lock`;
+    this.options = { ...DEFAULT_QUEUE_OPTIONS, ...options };
+  }
+
+  static forStateDir(stateDir: string, options: QueueOptions = {}): JobQueue {
+    return new JobQueue(path.join(stateDir, 'queue.json'), options);
+  }
+
+  async enqueue(triggerId: string, profile: string, event: TriggerEvent): Promise<Job> {
+    return this.update(data => {
+      // The same article from the same trigger is only queued once while it is unfinished
+      const existing = data.jobs.find(job =>
+        job.triggerId === triggerId && job.event.url === event.url && ['pending', 'running', 'failed'].includes(job.state));
+      if (existing) {
+        return existing;
+      }
+
+      const now = new Date().toISOString();
+      const job: Job = {
+        id: randomUUID(),
+        triggerId,
+        profile,
+        event: { ...event, timestamp: event.timestamp.toISOString() },
+        state: 'pending',
+        attempts: 0,
+        maxAttempts: this.options.maxAttempts,
+        createdAt: now,
+        updatedAt: now
+      };
+      data.jobs.push(job);
+      return job;
+    });
+  }
+
+  async list(states?: JobState[]): Promise<Job[]> {
+    const { jobs } = await this.store.read();
+    return states ? jobs.filter(job => states.includes(job.state)) : jobs;
+  }
+
+  /**
+   * Find a job by its full id or a unique prefix of it.
+   */
+  async get(idOrPrefix: string): Promise<Job | undefined> {
+    const { jobs } = await this.store.read();
+    return this.findJob(jobs, idOrPrefix);
+  }
+
+  /**
+   * Move the oldest due job to 'running' and return it.
+   */
+  async claimNext(now: Date = new Date()): Promise<Job | undefined> {
+    return this.update(data => {
+      const job = data.jobs.find(candidate =>
+        candidate.state === 'pending' ||
+        (candidate.state === 'failed' && (!candidate.nextRunAt || new Date(candidate.nextRunAt) <= now)));
+      if (!job) {
+        return undefined;
+      }
+      job.state = 'running';
+      job.attempts++;
+      job.updatedAt = now.toISOString();
+      return { ...job };
+    });
+  }
+
+  async complete(id: string, result?: Record<string, unknown>): Promise<void> {
+    await this.update(data => {
+      const job = this.requireJob(data.jobs, id);
+      job.state = 'done';
+      job.result = result;
+      job.nextRunAt = undefined;
+      job.updatedAt = new Date().toISOString();
+    });
+  }
+
+  /**
+   * Record a failed attempt: the job is retried after a backoff delay, or
+   * becomes 'dead' once it has used up its attempts.
+   */
+  async fail(id: string, error: string): Promise<Job> {
+    return this.update(data => {
+      const job = this.requireJob(data.jobs, id);
+      const now = new Date();
+      job.lastError = error;
+      job.updatedAt = now.toISOString();
+      if (job.attempts >= job.maxAttempts) {
+        job.state = 'dead';
+        job.nextRunAt = undefined;
+      } else {
+        job.state = 'failed';
+        job.nextRunAt = new Date(now.getTime() + getBackoffDelay(job.attempts - 1, this.options)).toISOString();
+      }
+      return { ...job };
+    });
+  }
+
+  /**
+   * Make failed or dead jobs due immediately with a fresh set of attempts.
+   * Without an id, every failed and dead job is retried.
+   */
+  async retry(idOrPrefix?: string): Promise<Job[]> {
+    return this.update(data => {
+      const jobs = idOrPrefix
+        ? [this.requireJob(data.jobs, idOrPrefix)]
+        : data.jobs.filter(job => job.state === 'failed' || job.state === 'dead');
+      for (const job of jobs) {
+        if (job.state === 'running') {
+          throw new Error(`Job ${job.id} is running and cannot be retried`);
+        }
+        job.state = 'pending';
+        job.attempts = 0;
+        job.nextRunAt = undefined;
+        job.updatedAt = new Date().toISOString();
+      }
+      return jobs.map(job => ({ ...job }));
+    });
+  }
+
+  async purge(states: JobState[]): Promise<number> {
+    return this.update(data => {
+      const before = data.jobs.length;
+      data.jobs = data.jobs.filter(job => !states.includes(job.state));
+      return before - data.jobs.length;
+    });
+  }
+
+  /**
+   * Jobs left 'running' by a process that died are made pending again.
+   */
+  async recoverInterrupted(): Promise<number> {
+    return this.update(data => {
+      const interrupted = data.jobs.filter(job => job.state === 'running');
+      for (const job of interrupted) {
+        job.state = 'pending';
+        job.attempts = Math.max(0, job.attempts - 1);
+        job.updatedAt = new Date().toISOString();
+      }
+      return interrupted.length;
+    });
+  }
+
+  private async update<R>(mutate: (data: QueueData) => R): Promise<R> {
+    const run = () => withFileLock(this.lockPath, async () => {
+      const data = await this.store.read();
+      const result = mutate(data);
+      await this.store.write(data);
+      return result;
+    });
+    const next = this.updateChain.then(run, run);
+    this.updateChain = next.catch(() => undefined);
+    return next;
+  }
+
+  private findJob(jobs: Job[], idOrPrefix: string): Job | undefined {
+    const exact = jobs.find(job => job.id === idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+    const matches = jobs.filter(job => job.id.startsWith(idOrPrefix));
+    if (matches.length > 1) {
+      throw new Error(`Job id prefix '${idOrPrefix}' is ambiguous (${matches.length} matches)`);
+    }
+    return matches[0];
+  }
+
+  private requireJob(jobs: Job[], idOrPrefix: string): Job {
+    const job = this.findJob(jobs, idOrPrefix);
+    if (!job) {
+      throw new Error(`Job ${idOrPrefix} not found`);
+    }
+    return job;
+  }
+}
+
+/**
+ * Processes due jobs one at a time. `kick()` wakes it up right after an
+ * enqueue; otherwise it polls for retries that have become due.
+ */
+export class QueueWorker {
+  private timer?: NodeJS.Timeout;
+  private running = false;
+  private active?: Promise<void>;
+  private idleWaiters: (() => void)[] = [];
+
+  constructor(
+    private queue: JobQueue,
+    private handler: (job: Job) => Promise<Record<string, unknown> | void>,
+    private pollIntervalMs: number = DEFAULT_QUEUE_OPTIONS.pollIntervalMs
+  ) {}
+
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = true;
+    const recovered = await this.queue.recoverInterrupted();
+    if (recovered > 0) {
+      console.log(`♻️ Re-queued ${recovered} job(s) interrupted by the last shutdown`);
+    }
+    this.kick();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    // Let the current job finish so it is not left 'running'
+    await this.active;
+  }
+
+  kick(): void {
+    if (!this.running || this.active) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    // A failed queue write (e.g. a full disk) must not end the daemon; the next poll tries again
+    this.active = this.drain().catch(error => {
+      console.error('❌ Job queue error, retrying on the next poll:', error);
+    }).finally(() => {
+      this.active = undefined;
+      this.idleWaiters.splice(0).forEach(resolve => resolve());
+      if (this.running) {
+        this.timer = setTimeout(() => this.kick(), this.pollIntervalMs);
+        // Polling alone should not keep a finished CLI process alive
+        this.timer.unref();
+      }
+    });
+  }
+
+  /**
+   * Resolves once the worker has no job in progress.
+   */
+  onIdle(): Promise<void> {
+    return this.active ? new Promise(resolve => this.idleWaiters.push(resolve)) : Promise.resolve();
+  }
+
+  private async drain(): Promise<void> {
+    while (this.running) {
+      const job = await this.queue.claimNext();
+      if (!job) {
+        return;
+      }
+
+      console.log(`📋 Processing job ${job.id.substring(0, 8)} (attempt ${job.attempts}/${job.maxAttempts}): ${job.event.title || job.event.url}`);
+      try {
+        const result = await this.handler(job);
+        await this.queue.complete(job.id, result || undefined);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const failed = await this.queue.fail(job.id, message);
+        if (failed.state === 'dead') {
+          console.error(`💀 Job ${job.id.substring(0, 8)} failed ${failed.attempts} times and was moved to the dead-letter list: ${message}`);
+        } else {
+          console.warn(`⚠️ Job ${job.id.substring(0, 8)} failed (${message}), retrying after ${failed.nextRunAt}`);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ArticleContent, ContentFetcher, FetchMode } from './fetcher';
+import { AISummarizer, SummaryProfile, SummaryProgressEvent } from './summarizer';
+import { ExistingNote, ObsidianIntegration } from './obsidian';
+import { PropertyQuery } from './frontmatter';
+import { listMarkdownFiles } from './vault-index';
+import { createUnifiedDiff } from '../utils/diff';
+
+export interface ResummarizeOptions {
+  // Prompt profile key; defaults to the profile recorded in the note
+  profile?: string;
+  model?: string;
+  fetchMode?: FetchMode;
+  // Summarize the saved clip instead of fetching the article again
+  useClip?: boolean;
+  // Replace the whole body of notes without AI summary markers
+  force?: boolean;
+  // Compute the changes without writing them
+  dryRun?: boolean;
+  onProgress?: (event: SummaryProgressEvent) => void;
+}
+
+export interface ResummarizeResult {
+  path: string;
+  // Where the article text came from
+  source: 'fetched' | 'clip';
+  profile: string;
+  changed: boolean;
+  // Unified diff of the note, empty when nothing changed
+  diff: string;
+}
+
+export interface ResummarizerSettings {
+  prompts: Record<string, SummaryProfile>;
+  defaultPrompt: string;
+  model: string;
+}
+
+// Trigger metadata recorded in a note, carried over so a rebuild keeps it
+const TRIGGER_FIELDS = ['feedTitle', 'feedUrl', 'categories', 'triggeredBy'];
+
+// Shortest article text worth summarizing, as for the summarize command
+const MIN_CONTENT_LENGTH = 100;
+
+/**
+ * Regenerates the summaries of existing notes, e.g. after a prompt was
+ * improved. The article is fetched again (or read from its saved clip) and
+ * only the AI-generated region of each note is replaced.
+ */
+export class Resummarizer {
+  constructor(
+    private fetcher: ContentFetcher,
+    private summarizer: AISummarizer,
+    private obsidian: ObsidianIntegration,
+    private settings: ResummarizerSettings
+  ) {}
+
+  /**
+   * The summary notes among the given files and folders (searched
+   * recursively) that match every query. Notes without a URL, such as clip
+   * notes and daily notes, are left out.
+   */
+  async findNotes(targets: string[], queries: PropertyQuery[] = []): Promise<ExistingNote[]> {
+    const files: string[] = [];
+    for (const target of targets) {
+      const stats = await fs.stat(target).catch(() => undefined);
+      if (!stats) {
+        throw new Error(`Note or folder not found: ${target}`);
+      }
+      files.push(...(stats.isDirectory() ? await listMarkdownFiles(target) : [target]));
+    }
+
+    const notes: ExistingNote[] = [];
+    for (const file of files.filter((file, index) => files.indexOf(file) === index)) {
+      const note = await this.obsidian.readNote(file).catch(() => undefined);
+      if (note && typeof note.fields.url === 'string' && note.fields.type !== 'clip' &&
+          queries.every(query => query(note.properties))) {
+        notes.push(note);
+      }
+    }
+    return notes;
+  }
+
+  async resummarize(note: ExistingNote, options: ResummarizeOptions = {}): Promise<ResummarizeResult> {
+    const profileKey = this.resolveProfile(note, options.profile);
+    const { article, source } = await this.loadArticle(note, options);
+
+    const summary = await this.summarizer.summarize(article, this.settings.prompts[profileKey], options.model || this.settings.model, {
+      onProgress: options.onProgress
+    });
+    summary.metadata = { ...this.readTriggerMetadata(note), ...summary.metadata };
+
+    const { before, after } = await this.obsidian.rebuildNote(note, summary, { force: options.force, dryRun: options.dryRun });
+    const name = path.basename(note.path);
+    return {
+      path: note.path,
+      source,
+      profile: profileKey,
+      changed: before !== after,
+      diff: createUnifiedDiff(before, after, { fromLabel: `a/${name}`, toLabel: `b/${name}` })
+    };
+  }
+
+  /**
+   * The requested profile, else the one whose key or name the note records,
+   * else the default prompt.
+   */
+  private resolveProfile(note: ExistingNote, requested?: string): string {
+    const { prompts, defaultPrompt } = this.settings;
+    if (requested) {
+      if (!prompts[requested]) {
+        throw new Error(`Prompt template '${requested}' not found. Available prompts: ${Object.keys(prompts).join(', ')}`);
+      }
+      return requested;
+    }
+    const recorded = typeof note.fields.profile === 'string' ? note.fields.profile.toLowerCase() : undefined;
+    const match = recorded && Object.entries(prompts)
+      .find(([key, profile]) => key.toLowerCase() === recorded || profile.name.toLowerCase() === recorded);
+    return match ? match[0] : defaultPrompt;
+  }
+
+  /**
+   * Fetch the article again, or use the saved clip when asked to or when the
+   * article can no longer be fetched.
+   */
+  private async loadArticle(note: ExistingNote, options: ResummarizeOptions): Promise<{ article: ArticleContent; source: 'fetched' | 'clip' }> {
+    const url = note.fields.url as string;
+    let fetchError: unknown;
+    if (!options.useClip) {
+      try {
+        const article = await this.fetcher.fetchSource(url, { mode: options.fetchMode });
+        if (article.markdownContent && article.markdownContent.length >= MIN_CONTENT_LENGTH) {
+          return { article, source: 'fetched' };
+        }
+        fetchError = new Error('Could not extract sufficient content from the article');
+      } catch (error) {
+        fetchError = error;
+      }
+    }
+
+    const clip = await this.obsidian.readClip(note);
+    if (!clip) {
+      if (fetchError) {
+        throw fetchError;
+      }
+      throw new Error('The note has no saved clip');
+    }
+    if (fetchError) {
+      console.warn(`⚠️ Could not fetch ${url} (${fetchError instanceof Error ? fetchError.message : String(fetchError)}), using the saved clip`);
+    }
+
+    const { fields } = note;
+    const text = (key: string) => (typeof fields[key] === 'string' ? fields[key] as string : undefined);
+    const aliases = fields.aliases;
+    const date = text('date') ? new Date(`${text('date')}T00:00:00`) : undefined;
+    return {
+      article: {
+        url,
+        markdownContent: clip,
+        // The note title is the filename; an alias holds the article's own title
+        title: (Array.isArray(aliases) ? aliases[0] : undefined) || text('title'),
+        author: text('author'),
+        siteName: text('siteName'),
+        language: text('language'),
+        excerpt: text('excerpt'),
+        publishedDate: date && !isNaN(date.getTime()) ? date : undefined
+      },
+      source: 'clip'
+    };
+  }
+
+  private readTriggerMetadata(note: ExistingNote): Record<string, unknown> {
+    const metadata: Record<string, unknown> = {};
+    for (const field of TRIGGER_FIELDS) {
+      if (note.fields[field] !== undefined) {
+        metadata[field] = note.fields[field];
+      }
+    }
+    return metadata;
+  }
+}
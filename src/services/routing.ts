@@ -0,0 +1,150 @@
+/**
+ * Rules that pick the vault folder a note is saved to. Rules are checked in
+ * order and the first match wins; a rule without conditions matches every
+ * note and serves as the fallback.
+ */
+export interface RouteRule {
+  // Conditions: every one that is set must match. String values compare
+  // case-insensitively and a list matches if any of its values does.
+  profile?: string | string[];
+  siteName?: string | string[];
+  // Matches the host and its subdomains, e.g. "example.com" matches "blog.example.com"
+  domain?: string | string[];
+  // Matches if the note has any of these tags
+  tags?: string | string[];
+  trigger?: string | string[];
+  language?: string | string[];
+  // Regular expression tested against the article title (case-insensitive)
+  title?: string;
+  // Folder relative to the vault, with template placeholders, e.g. "News/{siteName}/{published_year}"
+  folder: string;
+}
+
+export const ROUTE_CONDITIONS = ['profile', 'siteName', 'domain', 'tags', 'trigger', 'language', 'title'] as const;
+
+export type RouteCondition = typeof ROUTE_CONDITIONS[number];
+
+// What a note is matched on
+export interface RouteSubject {
+  // Profile key and display name
+  profile: string[];
+  siteName?: string;
+  domain?: string;
+  tags: string[];
+  trigger?: string;
+  language?: string;
+  title?: string;
+}
+
+export function findRoute(rules: RouteRule[], subject: RouteSubject): RouteRule | undefined {
+  return rules.find(rule => matchesRoute(rule, subject));
+}
+
+export function matchesRoute(rule: RouteRule, subject: RouteSubject): boolean {
+  return ROUTE_CONDITIONS.every(condition => {
+    const expected = rule[condition];
+    if (expected === undefined) {
+      return true;
+    }
+    if (condition === 'title') {
+      return subject.title !== undefined && safeRegExp(expected as string)?.test(subject.title) === true;
+    }
+
+    const values = toList(expected);
+    switch (condition) {
+      case 'profile':
+        return subject.profile.some(profile => includesIgnoreCase(values, profile));
+      case 'tags':
+        return subject.tags.some(tag => includesIgnoreCase(values, tag.replace(/^#/, '')));
+      case 'domain':
+        return subject.domain !== undefined && values.some(domain => {
+          const host = subject.domain!.toLowerCase();
+          const wanted = domain.toLowerCase().replace(/^www\./, '');
+          return host === wanted || host.endsWith(`.${wanted}`);
+        });
+      default:
+        return subject[condition] !== undefined && includesIgnoreCase(values, subject[condition]!);
+    }
+  });
+}
+
+export interface RouteContext {
+  // Profile keys and trigger ids that exist in the configuration
+  profiles: string[];
+  triggers: string[];
+}
+
+/**
+ * Problems with routing rules that make them useless: rules that can never
+ * match, or are never reached because an earlier rule matches first.
+ */
+export function validateRoutes(rules: RouteRule[], context: RouteContext): string[] {
+  const warnings: string[] = [];
+  let fallbackIndex = -1;
+
+  rules.forEach((rule, index) => {
+    const label = `Route ${index + 1}${rule.folder ? ` (${rule.folder})` : ''}`;
+
+    if (!rule.folder || typeof rule.folder !== 'string') {
+      warnings.push(`${label} has no folder`);
+    }
+    if (fallbackIndex !== -1) {
+      warnings.push(`${label} can never match: route ${fallbackIndex + 1} has no conditions and matches every note first`);
+      return;
+    }
+
+    const conditions = ROUTE_CONDITIONS.filter(condition => rule[condition] !== undefined);
+    for (const key of Object.keys(rule)) {
+      if (key !== 'folder' && !(ROUTE_CONDITIONS as readonly string[]).includes(key)) {
+        warnings.push(`${label} has an unknown condition '${key}'. Use: ${ROUTE_CONDITIONS.join(', ')}`);
+      }
+    }
+    if (conditions.length === 0) {
+      fallbackIndex = index;
+      return;
+    }
+
+    for (const condition of conditions) {
+      const value = rule[condition]!;
+      if (condition === 'title') {
+        if (!safeRegExp(value as string)) {
+          warnings.push(`${label} can never match: invalid title pattern '${value}'`);
+        }
+        continue;
+      }
+      const values = toList(value);
+      if (values.length === 0) {
+        warnings.push(`${label} can never match: '${condition}' is an empty list`);
+      } else if (condition === 'profile' && !values.some(profile => includesIgnoreCase(context.profiles, profile))) {
+        warnings.push(`${label} can never match: no profile named ${values.join(', ')}`);
+      } else if (condition === 'trigger' && !values.some(trigger => includesIgnoreCase(context.triggers, trigger))) {
+        warnings.push(`${label} can never match: no trigger with id ${values.join(', ')}`);
+      }
+    }
+
+    // An earlier rule with the same conditions always wins
+    const duplicate = rules.slice(0, index).findIndex(earlier =>
+      ROUTE_CONDITIONS.every(condition => JSON.stringify(earlier[condition]) === JSON.stringify(rule[condition])));
+    if (duplicate !== -1) {
+      warnings.push(`${label} can never match: route ${duplicate + 1} has the same conditions`);
+    }
+  });
+
+  return warnings;
+}
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+function includesIgnoreCase(values: string[], value: string): boolean {
+  return values.some(candidate => candidate.toLowerCase() === value.toLowerCase());
+}
+
+function safeRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return undefined;
+  }
+}
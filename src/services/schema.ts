@@ -0,0 +1,127 @@
+/**
+ * The subset of JSON Schema used for structured summaries. Providers get the
+ * schema as-is; validation here covers the keywords below.
+ */
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean' | 'null';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * Validate a value against a schema. Returns one message per problem, each
+ * prefixed with the JSON path, so the messages can be sent back to the model.
+ */
+export function validateJson(value: unknown, schema: JsonSchema, pathName: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.enum && !schema.enum.some(option => option === value)) {
+    errors.push(`${pathName} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    return errors;
+  }
+
+  switch (schema.type) {
+    case 'object': {
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${pathName} must be an object`);
+        break;
+      }
+      const record = value as Record<string, unknown>;
+      for (const key of schema.required || []) {
+        if (record[key] === undefined) {
+          errors.push(`${pathName}.${key} is required`);
+        }
+      }
+      for (const [key, child] of Object.entries(record)) {
+        const childSchema = schema.properties?.[key];
+        if (childSchema) {
+          errors.push(...validateJson(child, childSchema, `${pathName}.${key}`));
+        } else if (schema.additionalProperties === false) {
+          errors.push(`${pathName}.${key} is not allowed`);
+        }
+      }
+      break;
+    }
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${pathName} must be an array`);
+        break;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${pathName} must have at least ${schema.minItems} items`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${pathName} must have at most ${schema.maxItems} items`);
+      }
+      if (schema.items) {
+        value.forEach((item, index) => errors.push(...validateJson(item, schema.items!, `${pathName}[${index}]`)));
+      }
+      break;
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${pathName} must be a string`);
+      } else if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(`${pathName} must be at least ${schema.minLength} characters`);
+      } else if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${pathName} must be at most ${schema.maxLength} characters`);
+      }
+      break;
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || isNaN(value) || (schema.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${pathName} must be ${schema.type === 'integer' ? 'an integer' : 'a number'}`);
+      } else if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${pathName} must be >= ${schema.minimum}`);
+      } else if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${pathName} must be <= ${schema.maximum}`);
+      }
+      break;
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${pathName} must be a boolean`);
+      }
+      break;
+    case 'null':
+      if (value !== null) {
+        errors.push(`${pathName} must be null`);
+      }
+      break;
+  }
+
+  return errors;
+}
+
+/**
+ * Parse a model response that should be JSON, tolerating markdown code fences
+ * and text around the outermost object.
+ */
+export function parseJsonResponse(text: string): unknown {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/i);
+  const candidate = fenced ? fenced[1] : trimmed;
+
+  try {
+    return JSON.parse(candidate);
+  } catch (error) {
+    const start = candidate.indexOf('{');
+    const end = candidate.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(candidate.slice(start, end + 1));
+      } catch {
+        // Report the error for the whole response below
+      }
+    }
+    throw new Error(`Response is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
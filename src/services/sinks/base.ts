@@ -0,0 +1,131 @@
+import { SummaryResult } from '../summarizer';
+import { ObsidianConfig, SaveResult } from '../obsidian';
+import { createArticleContext, formatDate, renderTemplate } from '../template';
+import { sanitizeFilename, stripIllegalCharacters } from '../../utils/filename';
+
+export type SinkType = 'obsidian' | 'markdown' | 'jsonl' | 'html' | 'webhook';
+
+export const SINK_TYPES: SinkType[] = ['obsidian', 'markdown', 'jsonl', 'html', 'webhook'];
+
+// The configured Obsidian vault, available without being listed in `sinks`
+export const DEFAULT_SINK = 'obsidian';
+
+// Settings override the top-level `obsidian` config, e.g. a different vaultPath
+export interface ObsidianSinkConfig extends Partial<ObsidianConfig> {
+  type: 'obsidian';
+}
+
+export interface MarkdownSinkConfig {
+  type: 'markdown';
+  // Folder the notes are written to (created when missing)
+  directory: string;
+  // Filename template with the filename placeholders (default: "{published_date} {title}")
+  filenameFormat?: string;
+}
+
+export interface JsonLinesSinkConfig {
+  type: 'jsonl';
+  // File each summary is appended to as one JSON line
+  path: string;
+}
+
+export interface HtmlSinkConfig {
+  type: 'html';
+  // Folder the pages are written to (created when missing)
+  directory: string;
+  filenameFormat?: string;
+}
+
+export interface WebhookSinkConfig {
+  type: 'webhook';
+  url: string;
+  method?: 'POST' | 'PUT';
+  // Extra request headers, e.g. an Authorization token
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+}
+
+export type SinkConfig = ObsidianSinkConfig | MarkdownSinkConfig | JsonLinesSinkConfig | HtmlSinkConfig | WebhookSinkConfig;
+
+// Settings of a trigger or a single run applied on top of the sink configs
+export interface SinkOverrides {
+  // Folder for Obsidian sinks; it replaces their routing rules
+  outputFolder?: string;
+}
+
+export interface SinkResult {
+  sink: string;
+  // Where the summary went: a file path or URL
+  location: string;
+  // Set by the Obsidian sink
+  save?: SaveResult;
+}
+
+/**
+ * A destination for finished summaries.
+ */
+export interface OutputSink {
+  readonly name: string;
+  readonly type: SinkType;
+  write(summary: SummaryResult): Promise<SinkResult>;
+  // Output that already exists for the URL and would not be written again, so
+  // the article need not be summarized (the Obsidian 'skip' duplicate policy)
+  findExisting?(url: string): Promise<string | undefined>;
+}
+
+// A summary as plain JSON, written by the JSON Lines and webhook sinks
+export interface SummaryRecord {
+  url: string;
+  title?: string;
+  author?: string;
+  siteName?: string;
+  language?: string;
+  excerpt?: string;
+  publishedDate?: string;
+  profile: string;
+  model?: string;
+  tags: string[];
+  summary: string;
+  data?: Record<string, unknown>;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export function createSummaryRecord(summary: SummaryResult): SummaryRecord {
+  const article = summary.originalArticle;
+  const { model, provider, ...metadata } = summary.metadata || {};
+  return {
+    url: article.url,
+    title: article.title,
+    author: article.author,
+    siteName: article.siteName,
+    language: article.language,
+    excerpt: article.excerpt,
+    publishedDate: article.publishedDate?.toISOString(),
+    profile: summary.profile.id || summary.profile.name,
+    model: model && provider ? `${provider}:${model}` : model,
+    tags: summary.profile.tags || [],
+    summary: summary.summary,
+    data: summary.data,
+    metadata,
+    createdAt: new Date().toISOString()
+  };
+}
+
+export const DEFAULT_SINK_FILENAME_FORMAT = '{published_date} {title}';
+
+/**
+ * A file name (without extension) for a summary, rendered from a filename
+ * template with the article fields and `published_date`.
+ */
+export function createSinkFilename(summary: SummaryResult, format: string = DEFAULT_SINK_FILENAME_FORMAT): string {
+  const article = summary.originalArticle;
+  const context = {
+    ...summary.metadata,
+    ...createArticleContext(article),
+    profile: summary.profile.name,
+    published_date: formatDate(article.publishedDate || new Date())
+  };
+  const name = renderTemplate(format, context, { defaults: { title: 'Article' }, transform: stripIllegalCharacters });
+  return sanitizeFilename(name) || 'Article';
+}
@@ -0,0 +1,65 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SummaryResult } from '../summarizer';
+import { formatDate } from '../template';
+import { escapeHtml, markdownToHtml } from '../../utils/markdown';
+import { HtmlSinkConfig, OutputSink, SinkResult, createSinkFilename } from './base';
+
+const PAGE_STYLE = [
+  'body { font-family: system-ui, sans-serif; line-height: 1.6; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #222; }',
+  'header { border-bottom: 1px solid #ddd; margin-bottom: 1.5rem; }',
+  '.meta { color: #666; font-size: 0.9rem; }',
+  'blockquote { border-left: 3px solid #ccc; margin-left: 0; padding-left: 1rem; color: #444; }',
+  'pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }',
+  '.tags span { background: #eef; border-radius: 3px; padding: 0 0.4rem; margin-right: 0.3rem; font-size: 0.85rem; }'
+].join('\n');
+
+/**
+ * Writes each summary as a self-contained HTML page (inline styles, no
+ * scripts) that can be opened in a browser or published as is.
+ */
+export class HtmlSink implements OutputSink {
+  readonly type = 'html';
+
+  constructor(readonly name: string, private config: HtmlSinkConfig) {}
+
+  async write(summary: SummaryResult): Promise<SinkResult> {
+    const filePath = path.join(this.config.directory, `${createSinkFilename(summary, this.config.filenameFormat)}.html`);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, renderSummaryPage(summary), 'utf8');
+    return { sink: this.name, location: filePath };
+  }
+}
+
+export function renderSummaryPage(summary: SummaryResult): string {
+  const article = summary.originalArticle;
+  const title = escapeHtml(article.title || article.url);
+  const details = [article.author, article.siteName, article.publishedDate && formatDate(article.publishedDate)]
+    .filter((detail): detail is string => !!detail)
+    .map(escapeHtml)
+    .join(' · ');
+  const tags = (summary.profile.tags || []).map(tag => `<span>${escapeHtml(tag)}</span>`).join('');
+
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeHtml(article.language || 'en')}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${title}</title>`,
+    `<style>\n${PAGE_STYLE}\n</style>`,
+    '</head>',
+    '<body>',
+    '<header>',
+    `<h1>${title}</h1>`,
+    `<p class="meta"><a href="${escapeHtml(article.url)}">${escapeHtml(article.url)}</a>${details ? `<br>${details}` : ''}</p>`,
+    tags ? `<p class="tags">${tags}</p>` : '',
+    '</header>',
+    '<main>',
+    markdownToHtml(summary.summary.trim()),
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].filter(line => line !== '').join('\n') + '\n';
+}
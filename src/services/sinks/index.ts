@@ -0,0 +1,170 @@
+import { SummaryResult } from '../summarizer';
+import { ObsidianConfig, ObsidianIntegration, logSaveResult } from '../obsidian';
+import { DEFAULT_SINK, OutputSink, SINK_TYPES, SinkConfig, SinkOverrides, SinkResult } from './base';
+import { ObsidianSink } from './obsidian';
+import { MarkdownSink } from './markdown';
+import { JsonLinesSink } from './jsonl';
+import { HtmlSink } from './html';
+import { WebhookSink } from './webhook';
+
+export * from './base';
+export { ObsidianSink } from './obsidian';
+export { MarkdownSink } from './markdown';
+export { JsonLinesSink } from './jsonl';
+export { HtmlSink, renderSummaryPage } from './html';
+export { WebhookSink } from './webhook';
+
+export interface SinkSettings {
+  obsidian: ObsidianConfig;
+  sinks?: Record<string, SinkConfig>;
+  // Sinks used when a trigger or command does not name any (default: ["obsidian"])
+  defaultSinks?: string[];
+}
+
+/**
+ * The configured sinks by name. `obsidian` always exists and uses the
+ * top-level obsidian config unless `sinks` redefines it.
+ */
+export class SinkRegistry {
+  private instances: Map<string, OutputSink> = new Map();
+
+  constructor(private settings: SinkSettings) {}
+
+  names(): string[] {
+    return [DEFAULT_SINK, ...Object.keys(this.settings.sinks || {})]
+      .filter((name, index, all) => all.indexOf(name) === index);
+  }
+
+  get(name: string, overrides: SinkOverrides = {}): OutputSink {
+    // Overridden sinks are separate instances, e.g. one per trigger with its own folder
+    const key = overrides.outputFolder ? `${name}\u0000${overrides.outputFolder}` : name;
+    let sink = this.instances.get(key);
+    if (!sink) {
+      const config = this.settings.sinks?.[name] ?? (name === DEFAULT_SINK ? { type: 'obsidian' as const } : undefined);
+      if (!config) {
+        throw new Error(`Unknown sink '${name}'. Available sinks: ${this.names().join(', ')}`);
+      }
+      sink = this.create(name, config, overrides);
+      this.instances.set(key, sink);
+    }
+    return sink;
+  }
+
+  /**
+   * The named sinks, or the default sinks when no names are given.
+   */
+  resolve(names?: string[], overrides: SinkOverrides = {}): OutputSink[] {
+    const selected = names && names.length > 0 ? names : (this.settings.defaultSinks || [DEFAULT_SINK]);
+    return selected.map(name => this.get(name, overrides));
+  }
+
+  private create(name: string, config: SinkConfig, overrides: SinkOverrides): OutputSink {
+    switch (config.type) {
+      case 'obsidian': {
+        const { type, ...settings } = config;
+        const obsidian: ObsidianConfig = { ...this.settings.obsidian, ...settings };
+        if (overrides.outputFolder) {
+          obsidian.outputFolder = overrides.outputFolder;
+          obsidian.routes = [];
+        }
+        return new ObsidianSink(name, new ObsidianIntegration(obsidian));
+      }
+      case 'markdown':
+        return new MarkdownSink(name, config);
+      case 'jsonl':
+        return new JsonLinesSink(name, config);
+      case 'html':
+        return new HtmlSink(name, config);
+      case 'webhook':
+        return new WebhookSink(name, config);
+      default:
+        throw new Error(`Unknown sink type '${(config as SinkConfig).type}' for sink '${name}'`);
+    }
+  }
+}
+
+/**
+ * Existing output for the URL when every sink would skip it, so the article
+ * need not be summarized at all. A sink that cannot tell always gets it.
+ */
+export async function findSkippedOutput(sinks: OutputSink[], url: string): Promise<string | undefined> {
+  let existing: string | undefined;
+  for (const sink of sinks) {
+    existing = sink.findExisting ? await sink.findExisting(url) : undefined;
+    if (!existing) {
+      return undefined;
+    }
+  }
+  return existing;
+}
+
+/**
+ * Write a summary to every sink. A failing sink does not stop the others;
+ * the call only fails when no sink succeeded, so that a retry does not
+ * write the summary again to the sinks that already have it.
+ */
+export async function writeToSinks(sinks: OutputSink[], summary: SummaryResult): Promise<SinkResult[]> {
+  const results: SinkResult[] = [];
+  const errors: string[] = [];
+  for (const sink of sinks) {
+    try {
+      results.push(await sink.write(summary));
+    } catch (error) {
+      const message = `${sink.name}: ${error instanceof Error ? error.message : String(error)}`;
+      errors.push(message);
+      console.warn(`⚠️ Could not write to sink ${message}`);
+    }
+  }
+  if (results.length === 0 && errors.length > 0) {
+    throw new Error(`No sink accepted the summary (${errors.join('; ')})`);
+  }
+  return results;
+}
+
+export function logSinkResult(result: SinkResult): void {
+  if (result.save) {
+    logSaveResult(result.save);
+  } else {
+    console.log(`📤 Sent to ${result.sink}: ${result.location}`);
+  }
+}
+
+/**
+ * Problems with the sink configuration: unknown types, missing settings and
+ * references to sinks that do not exist.
+ */
+export function validateSinks(settings: SinkSettings, references: { label: string; sinks?: string[] }[] = []): string[] {
+  const errors: string[] = [];
+  const names = new SinkRegistry(settings).names();
+
+  for (const [name, config] of Object.entries(settings.sinks || {})) {
+    if (!config || !SINK_TYPES.includes(config.type)) {
+      errors.push(`Sink '${name}' has an invalid type '${config?.type}'. Use one of: ${SINK_TYPES.join(', ')}`);
+      continue;
+    }
+    const required = { markdown: 'directory', html: 'directory', jsonl: 'path', webhook: 'url', obsidian: undefined }[config.type];
+    if (required && !(config as unknown as Record<string, unknown>)[required]) {
+      errors.push(`Sink '${name}' (${config.type}) needs a '${required}' setting`);
+    }
+    if (config.type === 'webhook' && config.url) {
+      try {
+        const protocol = new URL(config.url).protocol;
+        if (protocol !== 'http:' && protocol !== 'https:') {
+          throw new Error(protocol);
+        }
+      } catch {
+        errors.push(`Sink '${name}' has an invalid webhook URL '${config.url}'`);
+      }
+    }
+  }
+
+  for (const { label, sinks } of [{ label: 'defaultSinks', sinks: settings.defaultSinks }, ...references]) {
+    for (const sink of sinks || []) {
+      if (!names.includes(sink)) {
+        errors.push(`${label} refers to unknown sink '${sink}'. Available sinks: ${names.join(', ')}`);
+      }
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,20 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SummaryResult } from '../summarizer';
+import { JsonLinesSinkConfig, OutputSink, SinkResult, createSummaryRecord } from './base';
+
+/**
+ * Appends every summary to a JSON Lines file, one record per line, for
+ * search indexes and other tools that ingest JSON.
+ */
+export class JsonLinesSink implements OutputSink {
+  readonly type = 'jsonl';
+
+  constructor(readonly name: string, private config: JsonLinesSinkConfig) {}
+
+  async write(summary: SummaryResult): Promise<SinkResult> {
+    await fs.mkdir(path.dirname(this.config.path), { recursive: true });
+    await fs.appendFile(this.config.path, `${JSON.stringify(createSummaryRecord(summary))}\n`, 'utf8');
+    return { sink: this.name, location: this.config.path };
+  }
+}
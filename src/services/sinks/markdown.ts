@@ -0,0 +1,36 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { SummaryResult } from '../summarizer';
+import { formatDate } from '../template';
+import { toYaml } from '../../utils/yaml';
+import { MarkdownSinkConfig, OutputSink, SinkResult, createSinkFilename } from './base';
+
+/**
+ * Writes each summary as a plain markdown file with a small frontmatter
+ * block, for wikis and static site generators that read a folder of files.
+ * A summary of the same article under the same name replaces the file.
+ */
+export class MarkdownSink implements OutputSink {
+  readonly type = 'markdown';
+
+  constructor(readonly name: string, private config: MarkdownSinkConfig) {}
+
+  async write(summary: SummaryResult): Promise<SinkResult> {
+    const article = summary.originalArticle;
+    const filePath = path.join(this.config.directory, `${createSinkFilename(summary, this.config.filenameFormat)}.md`);
+    const tags = summary.profile.tags || [];
+    const properties = {
+      title: article.title,
+      url: article.url,
+      author: article.author,
+      siteName: article.siteName,
+      date: article.publishedDate ? formatDate(article.publishedDate) : undefined,
+      profile: summary.profile.name,
+      tags: tags.length > 0 ? tags : undefined
+    };
+
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, `---\n${toYaml(properties)}---\n\n${summary.summary.trim()}\n`, 'utf8');
+    return { sink: this.name, location: filePath };
+  }
+}
@@ -0,0 +1,21 @@
+import { SummaryResult } from '../summarizer';
+import { ObsidianIntegration } from '../obsidian';
+import { OutputSink, SinkResult } from './base';
+
+/**
+ * Saves summaries as notes in an Obsidian vault.
+ */
+export class ObsidianSink implements OutputSink {
+  readonly type = 'obsidian';
+
+  constructor(readonly name: string, private obsidian: ObsidianIntegration) {}
+
+  async write(summary: SummaryResult): Promise<SinkResult> {
+    const save = await this.obsidian.save(summary);
+    return { sink: this.name, location: save.path, save };
+  }
+
+  async findExisting(url: string): Promise<string | undefined> {
+    return this.obsidian.findNoteToSkip(url);
+  }
+}
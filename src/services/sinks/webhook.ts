@@ -0,0 +1,28 @@
+import { SummaryResult } from '../summarizer';
+import { OutputSink, SinkResult, WebhookSinkConfig, createSummaryRecord } from './base';
+
+const DEFAULT_WEBHOOK_TIMEOUT_MS = 30000;
+
+/**
+ * Sends every summary as JSON to an HTTP endpoint. Any non-2xx response is
+ * an error.
+ */
+export class WebhookSink implements OutputSink {
+  readonly type = 'webhook';
+
+  constructor(readonly name: string, private config: WebhookSinkConfig) {}
+
+  async write(summary: SummaryResult): Promise<SinkResult> {
+    const response = await fetch(this.config.url, {
+      method: this.config.method || 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.config.headers },
+      body: JSON.stringify(createSummaryRecord(summary)),
+      signal: AbortSignal.timeout(this.config.timeoutMs ?? DEFAULT_WEBHOOK_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).trim().slice(0, 200);
+      throw new Error(`Webhook ${this.config.url} answered HTTP ${response.status}${detail ? `: ${detail}` : ''}`);
+    }
+    return { sink: this.name, location: this.config.url };
+  }
+}
@@ -0,0 +1,241 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { sleep } from '../utils/retry';
+
+export const DEFAULT_STATE_DIR = '.state';
+
+export function resolveStateDir(stateDir?: string): string {
+  return path.resolve(stateDir || process.env.STATE_DIR || DEFAULT_STATE_DIR);
+}
+
+/**
+ * A JSON document on disk. Writes go to a temporary file that is renamed over
+ * the original, so a crash never leaves a truncated file, and are serialized
+ * so concurrent updates within the process do not interleave.
+ */
+export class JsonFileStore<T> {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, private createDefault: () => T) {}
+
+  async read(): Promise<T> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return this.createDefault();
+      }
+      throw new Error(`Could not read state file ${this.filePath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  write(data: T): Promise<void> {
+    const write = async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      const tempPath = `${this.filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    };
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+}
+
+export interface FileLockOptions {
+  // A lock older than this was left by a crashed process and is taken over
+  staleMs?: number;
+  // How long to wait for another process to release the lock
+  timeoutMs?: number;
+}
+
+const LOCK_RETRY_DELAY_MS = 20;
+
+/**
+ * Run fn while holding a lock file, so that read-modify-write cycles of
+ * separate processes (e.g. the daemon and a CLI command) do not overwrite
+ * each other's changes.
+ */
+export async function withFileLock<T>(lockPath: string, fn: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const { staleMs = 30 * 1000, timeoutMs = 10 * 1000 } = options;
+  await fs.mkdir(path.dirname(lockPath), { recursive: true });
+  const started = Date.now();
+
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.writeFile(`${process.pid}\n`, 'utf8');
+      await handle.close();
+      break;
+    } catch (error: any) {
+      if (error?.code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    const lock = await fs.stat(lockPath).catch(() => undefined);
+    if (lock && Date.now() - lock.mtimeMs > staleMs) {
+      await fs.unlink(lockPath).catch(() => undefined);
+      continue;
+    }
+    if (Date.now() - started > timeoutMs) {
+      throw new Error(`Timed out waiting for lock ${lockPath}; remove it if no other process is running`);
+    }
+    await sleep(LOCK_RETRY_DELAY_MS);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await fs.unlink(lockPath).catch(() => undefined);
+  }
+}
+
+// 'skipped' items were seen but rejected by the trigger's filters
+export type ItemStatus = 'seen' | 'processing' | 'done' | 'failed' | 'skipped';
+
+export interface SeenItem {
+  status: ItemStatus;
+  firstSeen: string;
+  updated: string;
+  url?: string;
+  title?: string;
+  error?: string;
+  // Filter that rejected a skipped item
+  reason?: string;
+}
+
+export interface ItemDetails {
+  url?: string;
+  title?: string;
+  error?: string;
+  reason?: string;
+}
+
+export interface TriggerState {
+  items: Record<string, SeenItem>;
+  lastCheck?: string;
+  lastSuccessfulCheck?: string;
+  // Item ids in the feed at the last successful check
+  lastCheckItems?: string[];
+}
+
+// Items that left the feed are forgotten after this long
+const SEEN_ITEM_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Per-trigger record of seen items, their processing status and the last
+ * successful check. Without a file path the state only lives in memory.
+ */
+export class TriggerStateStore {
+  private state: TriggerState = { items: {} };
+  private file?: JsonFileStore<TriggerState>;
+  private loaded = false;
+
+  constructor(filePath?: string) {
+    if (filePath) {
+      this.file = new JsonFileStore<TriggerState>(filePath, () => ({ items: {} }));
+    }
+  }
+
+  static forTrigger(stateDir: string, triggerId: string): TriggerStateStore {
+    const safeId = triggerId.replace(/[^\w.-]/g, '_');
+    return new TriggerStateStore(path.join(stateDir, 'triggers', `${safeId}.json`));
+  }
+
+  async load(): Promise<TriggerState> {
+    if (!this.loaded) {
+      if (this.file) {
+        const state = await this.file.read();
+        this.state = { ...state, items: state.items || {} };
+      }
+      this.loaded = true;
+    }
+    return this.state;
+  }
+
+  /**
+   * Whether the trigger has completed a check before (i.e. this is a restart).
+   */
+  hasHistory(): boolean {
+    return !!this.state.lastSuccessfulCheck;
+  }
+
+  getLastSuccessfulCheck(): Date | undefined {
+    return this.state.lastSuccessfulCheck ? new Date(this.state.lastSuccessfulCheck) : undefined;
+  }
+
+  /**
+   * Whether the item was in the feed at the last successful check; undefined
+   * for state written before these were recorded.
+   */
+  wasInLastCheck(itemId: string): boolean | undefined {
+    return this.state.lastCheckItems ? this.state.lastCheckItems.includes(itemId) : undefined;
+  }
+
+  /**
+   * Seen means handled or deliberately skipped; an item left 'processing' by a
+   * crash is picked up again.
+   */
+  isSeen(itemId: string): boolean {
+    const item = this.state.items[itemId];
+    return !!item && item.status !== 'processing';
+  }
+
+  getItem(itemId: string): SeenItem | undefined {
+    return this.state.items[itemId];
+  }
+
+  /**
+   * Items with the given status (all items without one), most recently updated first.
+   */
+  listItems(status?: ItemStatus): Array<SeenItem & { id: string }> {
+    return Object.entries(this.state.items)
+      .filter(([, item]) => !status || item.status === status)
+      .map(([id, item]) => ({ id, ...item }))
+      .sort((a, b) => b.updated.localeCompare(a.updated));
+  }
+
+  async setStatus(itemIds: string | string[], status: ItemStatus, details: ItemDetails = {}): Promise<void> {
+    const now = new Date().toISOString();
+    for (const itemId of Array.isArray(itemIds) ? itemIds : [itemIds]) {
+      const existing = this.state.items[itemId];
+      this.state.items[itemId] = {
+        status,
+        firstSeen: existing?.firstSeen || now,
+        updated: now,
+        url: details.url || existing?.url,
+        title: details.title || existing?.title,
+        error: status === 'failed' ? details.error : undefined,
+        reason: status === 'skipped' ? details.reason : undefined
+      };
+    }
+    await this.save();
+  }
+
+  async recordCheck(success: boolean, currentItemIds: string[] = []): Promise<void> {
+    const now = new Date();
+    this.state.lastCheck = now.toISOString();
+    if (success) {
+      this.state.lastSuccessfulCheck = this.state.lastCheck;
+      this.state.lastCheckItems = currentItemIds;
+      this.prune(currentItemIds, now);
+    }
+    await this.save();
+  }
+
+  private prune(currentItemIds: string[], now: Date): void {
+    // Items still in the feed must be kept, or they would come back as new
+    const current = new Set(currentItemIds);
+    for (const [itemId, item] of Object.entries(this.state.items)) {
+      if (!current.has(itemId) && now.getTime() - new Date(item.updated).getTime() > SEEN_ITEM_RETENTION_MS) {
+        delete this.state.items[itemId];
+      }
+    }
+  }
+
+  private async save(): Promise<void> {
+    if (this.file) {
+      await this.file.write(this.state);
+    }
+  }
+}
@@ -1,74 +1,344 @@
-import OpenAI from 'openai';
 import { ArticleContent } from './fetcher';
+import { estimateTokens, getModelContextWindow, splitMarkdown } from './chunker';
+import { CompletionRequest, ProviderError, ProviderRegistry, SummarizerProvider } from './providers';
+import { AIConfig } from '../utils/config';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, getBackoffDelay, sleep } from '../utils/retry';
+import { TemplateContext, createArticleContext, createPartialLoader, renderTemplate } from './template';
+import { JsonSchema, parseJsonResponse, validateJson } from './schema';
 
 export interface SummaryResult {
   summary: string;
   originalArticle: ArticleContent;
   profile: SummaryProfile;
   metadata?: Record<string, any>;
+  // Validated fields of a structured (outputSchema) summary
+  data?: Record<string, unknown>;
 }
 
 export interface SummaryProfile {
+  // Key of the profile in the prompts config, filled in when the config is loaded
+  id?: string;
   name: string;
   systemPrompt: string;
   userPrompt?: string;
   userPromptFile?: string;
   filename?: string;
   tags?: string[];
+  // JSON Schema for structured summaries; the fields become frontmatter properties
+  outputSchema?: JsonSchema;
+  outputSchemaFile?: string;
+  // Note body for structured summaries, rendered with the JSON fields
+  bodyTemplate?: string;
+  // Layout of the whole note below the frontmatter, wrapping the summary (see templates/notes)
+  noteTemplate?: string;
+  noteTemplateFile?: string;
+}
+
+export interface SummarizerOptions {
+  // Context window overrides by model name, merged over the built-in table
+  contextWindows?: Record<string, number>;
+  // Tokens reserved for the model's answer when sizing requests
+  maxOutputTokens?: number;
+  // Retry policy for transient provider failures (rate limits, 5xx, timeouts)
+  retry?: RetryOptions;
+  // Per-request timeout in milliseconds (0 = no timeout)
+  timeoutMs?: number;
+  // Models ("provider:model" or bare) tried in order when the requested model keeps failing
+  fallbackModels?: string[];
+  // Directory for {> partial} includes in prompts (default: templates/prompts)
+  partialsDir?: string;
+}
+
+export type SummaryProgressEvent =
+  | { stage: 'chunking'; chunks: number; tokens: number; contextWindow: number }
+  | { stage: 'map'; chunk: number; chunks: number }
+  | { stage: 'reduce'; chunks: number }
+  | { stage: 'retry'; model: string; attempt: number; maxRetries: number; delayMs: number; error: string }
+  | { stage: 'fallback'; from: string; to: string; error: string }
+  | { stage: 'invalid'; attempt: number; errors: string[] };
+
+export interface SummarizeOptions {
+  onProgress?: (event: SummaryProgressEvent) => void;
+  // Extra prompt placeholders, e.g. trigger metadata such as {feedTitle} or {categories}
+  variables?: TemplateContext;
+}
+
+export function logSummaryProgress(event: SummaryProgressEvent): void {
+  switch (event.stage) {
+    case 'chunking':
+      console.log(`📚 Article is ~${event.tokens} tokens (context window ${event.contextWindow}), splitting into ${event.chunks} parts...`);
+      break;
+    case 'map':
+      console.log(`🧩 Summarizing part ${event.chunk}/${event.chunks}...`);
+      break;
+    case 'reduce':
+      console.log(`🔗 Combining ${event.chunks} part summaries...`);
+      break;
+    case 'retry':
+      console.warn(`⏳ ${event.model} failed (${event.error}), retry ${event.attempt}/${event.maxRetries} in ${(event.delayMs / 1000).toFixed(1)}s...`);
+      break;
+    case 'fallback':
+      console.warn(`↪️ ${event.from} failed (${event.error}), falling back to ${event.to}...`);
+      break;
+    case 'invalid':
+      console.warn(`🔁 Response did not match the output schema (${event.errors.slice(0, 3).join('; ')}), asking again...`);
+      break;
+  }
+}
+
+const DEFAULT_MAX_OUTPUT_TOKENS = 8192;
+const DEFAULT_TIMEOUT_MS = 180000;
+// Attempts at getting schema-valid JSON before giving up on a model
+const MAX_STRUCTURED_ATTEMPTS = 3;
+// Safety margin for message framing and estimation error
+const PROMPT_OVERHEAD_TOKENS = 500;
+const MAX_REDUCE_ROUNDS = 3;
+
+const MAP_SYSTEM_PROMPT = 'You condense one part of a longer document so that it can be summarized as a whole later. ' +
+  'Keep every key fact, number, name, date, quote and claim, and preserve the order of ideas. ' +
+  'Do not add commentary. Write in the same language as the source text.';
+
+/**
+ * Raised when a model keeps answering with JSON that does not match the profile's
+ * output schema. Like provider errors, it moves on to the next fallback model.
+ */
+export class StructuredOutputError extends Error {
+  constructor(message: string, public readonly errors: string[]) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
 }
 
 export class AISummarizer {
-  private openai: OpenAI;
+  private partials: (name: string) => string | undefined;
+
+  constructor(private providers: ProviderRegistry, private options: SummarizerOptions = {}) {
+    this.partials = createPartialLoader(options.partialsDir);
+  }
 
-  constructor(apiKey: string, baseUrl?: string) {
-    this.openai = new OpenAI({ 
-      apiKey,
-      baseURL: baseUrl || 'https://api.openai.com/v1'
+  static fromConfig(ai: AIConfig): AISummarizer {
+    return new AISummarizer(ProviderRegistry.fromConfig(ai), {
+      contextWindows: ai.contextWindows,
+      maxOutputTokens: ai.maxOutputTokens,
+      retry: ai.retry,
+      timeoutMs: ai.timeoutMs,
+      fallbackModels: ai.fallbackModels
     });
   }
 
   async summarize(
-    article: ArticleContent, 
+    article: ArticleContent,
     profile: SummaryProfile,
-    model: string = 'gpt-4'
+    modelSpec: string = 'gpt-4',
+    options: SummarizeOptions = {}
   ): Promise<SummaryResult> {
-    
+
     if (!profile.userPrompt) {
       throw new Error(`Profile ${profile.name} has no userPrompt defined`);
     }
-    
-    const userMessage = profile.userPrompt
-      .replace('{content}', article.markdownContent)
-      .replace('{url}', article.url);
-
-    const completion = await this.openai.chat.completions.create({
-      model: model,
-      messages: [
-        {
-          role: 'system',
-          content: profile.systemPrompt
-        },
-        {
-          role: 'user',
-          content: userMessage
+
+    const candidates = [modelSpec, ...(this.options.fallbackModels || [])]
+      .filter((spec, index, all) => spec && all.indexOf(spec) === index);
+
+    for (let i = 0; ; i++) {
+      try {
+        const result = await this.summarizeWithModel(article, profile, candidates[i], options);
+        if (i > 0) {
+          result.metadata = { ...result.metadata, fallbackFrom: modelSpec };
         }
-      ]
-    });
+        return result;
+      } catch (error) {
+        // Only provider failures are worth another model; anything else is a bug or bad input
+        if (!(error instanceof ProviderError || error instanceof StructuredOutputError) || i === candidates.length - 1) {
+          throw error;
+        }
+        options.onProgress?.({ stage: 'fallback', from: candidates[i], to: candidates[i + 1], error: error.message });
+      }
+    }
+  }
+
+  private async summarizeWithModel(
+    article: ArticleContent,
+    profile: SummaryProfile,
+    modelSpec: string,
+    options: SummarizeOptions
+  ): Promise<SummaryResult> {
+    // "provider:model" selects a provider; a bare model name uses the default one
+    const { provider, model } = this.providers.resolve(modelSpec);
+    const contextWindow = getModelContextWindow(model, this.options.contextWindows);
+    const maxOutputTokens = Math.min(this.options.maxOutputTokens || DEFAULT_MAX_OUTPUT_TOKENS, Math.floor(contextWindow / 4));
+    const systemPrompt = this.renderPrompt(profile.systemPrompt, article, '', options) +
+      (profile.outputSchema ? this.buildSchemaInstructions(profile.outputSchema) : '');
+    const promptTokens = estimateTokens(systemPrompt) + estimateTokens(this.renderPrompt(profile.userPrompt!, article, '', options));
+    const contentBudget = contextWindow - maxOutputTokens - promptTokens - PROMPT_OVERHEAD_TOKENS;
+    const contentTokens = estimateTokens(article.markdownContent);
+
+    let content = article.markdownContent;
+    let chunkCount = 1;
+
+    // Articles that exceed the model context are condensed part by part (map),
+    // then the profile prompt runs once over the combined notes (reduce)
+    if (contentTokens > contentBudget) {
+      const chunkTokens = Math.max(1000, contextWindow - maxOutputTokens - estimateTokens(MAP_SYSTEM_PROMPT) - PROMPT_OVERHEAD_TOKENS);
+      const reduceBudget = Math.max(1000, contentBudget);
+
+      for (let round = 1; round <= MAX_REDUCE_ROUNDS && estimateTokens(content) > reduceBudget; round++) {
+        const chunks = splitMarkdown(content, chunkTokens);
+        if (round === 1) {
+          chunkCount = chunks.length;
+        }
+        options.onProgress?.({ stage: 'chunking', chunks: chunks.length, tokens: estimateTokens(content), contextWindow });
+
+        const notes: string[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+          options.onProgress?.({ stage: 'map', chunk: i + 1, chunks: chunks.length });
+          const note = await this.completeWithRetry(provider, {
+            model,
+            systemPrompt: MAP_SYSTEM_PROMPT,
+            userMessage: this.buildMapMessage(article, chunks[i], i + 1, chunks.length),
+            maxTokens: maxOutputTokens,
+            contextWindow
+          }, options);
+          notes.push(`## Part ${i + 1}/${chunks.length}\n\n${note.trim()}`);
+        }
+
+        content = 'The original article was too long to process at once. ' +
+          'The following are condensed notes of each part, in order.\n\n' +
+          notes.join('\n\n');
+      }
+
+      options.onProgress?.({ stage: 'reduce', chunks: chunkCount });
+    }
+
+    const userMessage = this.renderPrompt(profile.userPrompt!, article, content, options);
+    const request: CompletionRequest = {
+      model,
+      systemPrompt,
+      userMessage,
+      maxTokens: maxOutputTokens,
+      contextWindow
+    };
+    let response: string;
+    let data: Record<string, unknown> | undefined;
+    if (profile.outputSchema) {
+      data = await this.completeStructured(provider, request, profile.outputSchema, options);
+      response = JSON.stringify(data, null, 2);
+    } else {
+      response = await this.completeWithRetry(provider, request, options);
+    }
 
-    const response = completion.choices[0]?.message?.content || '';
-    
     // Debug: Log the main summary response
     console.log(`\n=== SUMMARY DEBUG ===`);
-    console.log(`Model: ${model}`);
+    console.log(`Model: ${provider.name}:${model}`);
+    console.log(`Estimated content tokens: ${contentTokens} (context window: ${contextWindow})`);
+    if (chunkCount > 1) {
+      console.log(`Map-reduce chunks: ${chunkCount}`);
+    }
     console.log(`Summary length: ${response.length}`);
     console.log(`Summary preview: ${response.substring(0, 200)}...`);
     console.log(`====================\n`);
-    
+
     return {
       summary: response,
       originalArticle: article,
-      profile
+      profile,
+      data,
+      metadata: {
+        provider: provider.name,
+        model,
+        ...(chunkCount > 1 ? { chunks: chunkCount } : {})
+      }
     };
   }
 
-}
\ No newline at end of file
+  private async completeWithRetry(
+    provider: SummarizerProvider,
+    request: CompletionRequest,
+    options: SummarizeOptions
+  ): Promise<string> {
+    const retry = { ...DEFAULT_RETRY_OPTIONS, ...this.options.retry };
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await provider.complete({
+          ...request,
+          signal: timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined
+        });
+      } catch (error) {
+        if (!(error instanceof ProviderError) || !error.retryable || attempt >= retry.maxRetries) {
+          throw error;
+        }
+        // A server asking for a longer pause than we are willing to wait is better served by the next fallback
+        if (error.retryAfterMs !== undefined && error.retryAfterMs > retry.maxDelayMs) {
+          throw error;
+        }
+
+        const delayMs = error.retryAfterMs ?? getBackoffDelay(attempt, retry);
+        options.onProgress?.({
+          stage: 'retry',
+          model: `${provider.name}:${request.model}`,
+          attempt: attempt + 1,
+          maxRetries: retry.maxRetries,
+          delayMs,
+          error: error.message
+        });
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  private async completeStructured(
+    provider: SummarizerProvider,
+    request: CompletionRequest,
+    schema: JsonSchema,
+    options: SummarizeOptions
+  ): Promise<Record<string, unknown>> {
+    let userMessage = request.userMessage;
+    let errors: string[] = [];
+
+    for (let attempt = 1; attempt <= MAX_STRUCTURED_ATTEMPTS; attempt++) {
+      const response = await this.completeWithRetry(provider, { ...request, userMessage, responseSchema: schema }, options);
+
+      try {
+        const value = parseJsonResponse(response);
+        errors = validateJson(value, schema);
+        if (errors.length === 0) {
+          return value as Record<string, unknown>;
+        }
+      } catch (error) {
+        errors = [error instanceof Error ? error.message : String(error)];
+      }
+
+      if (attempt < MAX_STRUCTURED_ATTEMPTS) {
+        options.onProgress?.({ stage: 'invalid', attempt, errors });
+        // Re-ask with the problems spelled out so the model can correct its own answer
+        userMessage = `${request.userMessage}\n\n---\n\nYour previous response did not match the required JSON schema:\n` +
+          errors.map(error => `- ${error}`).join('\n') +
+          `\n\nPrevious response:\n${response.substring(0, 4000)}\n\nRespond again with only the corrected JSON object.`;
+      }
+    }
+
+    throw new StructuredOutputError(
+      `${provider.name}:${request.model} did not return valid JSON for the output schema after ${MAX_STRUCTURED_ATTEMPTS} attempts: ${errors.slice(0, 3).join('; ')}`,
+      errors
+    );
+  }
+
+  private buildSchemaInstructions(schema: JsonSchema): string {
+    return '\n\nRespond with a single JSON object that conforms to the following JSON Schema. ' +
+      'Do not wrap it in a code block or add any text before or after it.\n\n' +
+      JSON.stringify(schema, null, 2);
+  }
+
+  private renderPrompt(template: string, article: ArticleContent, content: string, options: SummarizeOptions): string {
+    // Trigger variables never shadow the article's own fields
+    const context = { ...options.variables, ...createArticleContext(article), content };
+    return renderTemplate(template, context, { partials: this.partials });
+  }
+
+  private buildMapMessage(article: ArticleContent, chunk: string, index: number, total: number): string {
+    const title = article.title ? ` of "${article.title}"` : '';
+    return `This is part ${index} of ${total}${title} (${article.url}).\n\n${chunk}`;
+  }
+}
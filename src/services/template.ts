@@ -0,0 +1,260 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ArticleContent } from './fetcher';
+
+/**
+ * Small template language shared by prompts and filenames:
+ *
+ *   {title}                   value (every occurrence is replaced)
+ *   {metaData.og:title}       nested value
+ *   {author|Unknown}          value with a default when missing or empty
+ *   {#if author}...{else}...{/if}   conditional section ({#if !author} negates)
+ *   {#each keyPoints}- {this}{/each}  repeat per list item; object items expose their fields
+ *   {> partial-name}          include templates/prompts/partial-name(.md|.txt)
+ *
+ * A placeholder whose top-level name is not in the context is left as written,
+ * so literal braces in prompts survive. Substituted values are never re-parsed.
+ */
+
+export type TemplateContext = Record<string, unknown>;
+
+export interface RenderOptions {
+  // Fallback values used when a placeholder has no inline default
+  defaults?: Record<string, string>;
+  // Applied to every substituted value (e.g. filename sanitizing)
+  transform?: (value: string) => string;
+  // Resolves {> name} includes; omit to disallow includes
+  partials?: (name: string) => string | undefined;
+}
+
+export const DEFAULT_PARTIALS_DIR = path.join(__dirname, '../../templates/prompts');
+
+const MAX_INCLUDE_DEPTH = 10;
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'var'; source: string; path: string[]; fallback?: string }
+  | { type: 'if'; path: string[]; negate: boolean; then: TemplateNode[]; otherwise: TemplateNode[] }
+  | { type: 'each'; path: string[]; body: TemplateNode[] }
+  | { type: 'partial'; name: string };
+
+const TAG_PATTERN = /\{(#if\s+!?\s*[A-Za-z_][\w.:-]*\s*|#each\s+[A-Za-z_][\w.:-]*\s*|else|\/if|\/each|>\s*[\w./-]+\s*|[A-Za-z_][\w.:-]*(?:\|[^{}]*)?)\}/g;
+
+export function renderTemplate(template: string, context: TemplateContext, options: RenderOptions = {}): string {
+  return renderNodes(parseTemplate(template), context, options, 0);
+}
+
+/**
+ * Loader for {> name} includes from a directory, cached per process.
+ */
+export function createPartialLoader(dir: string = DEFAULT_PARTIALS_DIR): (name: string) => string | undefined {
+  const cache = new Map<string, string | undefined>();
+  return (name: string) => {
+    if (!cache.has(name)) {
+      const candidates = [name, `${name}.md`, `${name}.txt`].map(file => path.join(dir, file));
+      const file = candidates.find(candidate => isInsideDir(dir, candidate) && fs.existsSync(candidate));
+      cache.set(name, file ? fs.readFileSync(file, 'utf8') : undefined);
+    }
+    return cache.get(name);
+  };
+}
+
+// A sibling such as "partials-evil" shares the directory's name as a prefix, so compare relative paths
+function isInsideDir(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return relative !== '' && relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative);
+}
+
+/**
+ * Placeholder values for an article: every ArticleContent field plus the current date.
+ */
+export function createArticleContext(article: ArticleContent): TemplateContext {
+  return {
+    url: article.url,
+    title: article.title,
+    author: article.author,
+    siteName: article.siteName,
+    language: article.language,
+    excerpt: article.excerpt,
+    publishedDate: article.publishedDate,
+    sourceType: article.sourceType,
+    metaData: article.metaData || {},
+    date: formatDate(new Date())
+  };
+}
+
+export function formatDate(date: Date): string {
+  return date.getFullYear() + '-' +
+    String(date.getMonth() + 1).padStart(2, '0') + '-' +
+    String(date.getDate()).padStart(2, '0');
+}
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Format a date with the moment.js tokens Obsidian uses for daily notes:
+ * YYYY, YY, MMMM, MMM, MM, M, DD, D, dddd, ddd, HH, mm. Text in [brackets] is literal.
+ */
+export function formatDatePattern(date: Date, pattern: string): string {
+  return pattern.replace(/\[([^\]]*)\]|YYYY|YY|MMMM|MMM|MM|M|DD|D|dddd|ddd|HH|mm/g, (token, literal) => {
+    if (literal !== undefined) return literal;
+    switch (token) {
+      case 'YYYY': return String(date.getFullYear());
+      case 'YY': return String(date.getFullYear()).slice(-2);
+      case 'MMMM': return MONTH_NAMES[date.getMonth()];
+      case 'MMM': return MONTH_NAMES[date.getMonth()].slice(0, 3);
+      case 'MM': return String(date.getMonth() + 1).padStart(2, '0');
+      case 'M': return String(date.getMonth() + 1);
+      case 'DD': return String(date.getDate()).padStart(2, '0');
+      case 'D': return String(date.getDate());
+      case 'dddd': return WEEKDAY_NAMES[date.getDay()];
+      case 'HH': return String(date.getHours()).padStart(2, '0');
+      case 'mm': return String(date.getMinutes()).padStart(2, '0');
+      default: return WEEKDAY_NAMES[date.getDay()].slice(0, 3);
+    }
+  });
+}
+
+function parseTemplate(template: string): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  // Each open {#if}/{#each} keeps the node and, for {#if}, which branch is being filled
+  const stack: { node: Extract<TemplateNode, { type: 'if' | 'each' }>; inElse: boolean }[] = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    if (top.node.type === 'each') return top.node.body;
+    return top.inElse ? top.node.otherwise : top.node.then;
+  };
+  const close = (type: 'if' | 'each') => {
+    const top = stack.pop();
+    if (!top || top.node.type !== type) {
+      throw new Error(`Template has {/${type}} without a matching {#${type}}`);
+    }
+  };
+
+  let lastIndex = 0;
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index! > lastIndex) {
+      current().push({ type: 'text', value: template.slice(lastIndex, match.index) });
+    }
+    lastIndex = match.index! + match[0].length;
+    const tag = match[1];
+
+    if (tag.startsWith('#if')) {
+      const expression = tag.slice(3).trim();
+      const negate = expression.startsWith('!');
+      const node: TemplateNode = { type: 'if', path: expression.replace(/^!\s*/, '').split('.'), negate, then: [], otherwise: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag.startsWith('#each')) {
+      const node: TemplateNode = { type: 'each', path: tag.slice(5).trim().split('.'), body: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== 'if' || top.inElse) {
+        throw new Error('Template has {else} without a matching {#if}');
+      }
+      top.inElse = true;
+    } else if (tag === '/if' || tag === '/each') {
+      close(tag === '/if' ? 'if' : 'each');
+    } else if (tag.startsWith('>')) {
+      current().push({ type: 'partial', name: tag.slice(1).trim() });
+    } else {
+      const separator = tag.indexOf('|');
+      const name = separator === -1 ? tag : tag.slice(0, separator);
+      current().push({
+        type: 'var',
+        source: match[0],
+        path: name.split('.'),
+        fallback: separator === -1 ? undefined : tag.slice(separator + 1)
+      });
+    }
+  }
+
+  if (stack.length > 0) {
+    const { node } = stack[stack.length - 1];
+    throw new Error(`Template has an unclosed {#${node.type} ${node.path.join('.')}}`);
+  }
+  if (lastIndex < template.length) {
+    root.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+  return root;
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext, options: RenderOptions, depth: number): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'var': {
+        const { known, value } = lookup(context, node.path);
+        const text = formatValue(value);
+        if (text) {
+          output += options.transform ? options.transform(text) : text;
+        } else if (node.fallback !== undefined || options.defaults?.[node.path.join('.')] !== undefined) {
+          output += node.fallback ?? options.defaults![node.path.join('.')];
+        } else if (!known) {
+          output += node.source;
+        }
+        break;
+      }
+      case 'if': {
+        const truthy = isTruthy(lookup(context, node.path).value);
+        output += renderNodes(truthy !== node.negate ? node.then : node.otherwise, context, options, depth);
+        break;
+      }
+      case 'each': {
+        const { value } = lookup(context, node.path);
+        const items = Array.isArray(value) ? value : (value === undefined || value === null || value === '' ? [] : [value]);
+        for (const item of items) {
+          const fields = item !== null && typeof item === 'object' && !Array.isArray(item) ? item as TemplateContext : {};
+          output += renderNodes(node.body, { ...context, ...fields, this: item }, options, depth);
+        }
+        break;
+      }
+      case 'partial': {
+        if (depth >= MAX_INCLUDE_DEPTH) {
+          throw new Error(`Template includes are nested more than ${MAX_INCLUDE_DEPTH} levels deep (at {> ${node.name}})`);
+        }
+        const partial = options.partials?.(node.name);
+        if (partial === undefined) {
+          throw new Error(`Template partial '${node.name}' not found`);
+        }
+        output += renderNodes(parseTemplate(partial), context, options, depth + 1);
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function lookup(context: TemplateContext, keys: string[]): { known: boolean; value: unknown } {
+  if (!(keys[0] in context)) {
+    return { known: false, value: undefined };
+  }
+  let value: unknown = context;
+  for (const key of keys) {
+    value = value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+  }
+  return { known: true, value };
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : formatDate(value);
+  if (Array.isArray(value)) return value.map(formatValue).filter(Boolean).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (value !== null && typeof value === 'object' && !(value instanceof Date)) return Object.keys(value).length > 0;
+  return formatValue(value).trim().length > 0 && value !== false;
+}
@@ -5,6 +5,14 @@ export interface TriggerConfig {
   enabled: boolean;
   profile: string;
   schedule?: string;
+  // Sinks the summaries are sent to, e.g. a named vault (default: defaultSinks)
+  sinks?: string[];
+  // Obsidian folder for this trigger's notes, instead of the routing rules and outputFolder
+  outputFolder?: string;
+  // Tags added to the profile's tags
+  tags?: string[];
+  // Model for this trigger, optionally as provider:model (default: ai.model)
+  model?: string;
   [key: string]: any;
 }
 
@@ -13,13 +21,30 @@ export interface TriggerEvent {
   title?: string;
   timestamp: Date;
   metadata?: Record<string, any>;
+  // Profile for this event instead of the trigger's, e.g. chosen by the submitter
+  profile?: string;
+  // Tags added to the trigger's tags for this event
+  tags?: string[];
+}
+
+// What became of a handled event: the queued job, or without a queue the saved output
+export interface TriggerHandlerResult {
+  jobId?: string;
+  savedPath?: string;
+}
+
+export type TriggerHandler = (event: TriggerEvent) => Promise<TriggerHandlerResult | void>;
+
+export interface TriggerEventResult extends TriggerHandlerResult {
+  success: boolean;
+  error?: string;
 }
 
 export abstract class BaseTrigger {
   protected config: TriggerConfig;
-  protected onTrigger: (event: TriggerEvent) => Promise<void>;
+  protected onTrigger: TriggerHandler;
 
-  constructor(config: TriggerConfig, onTrigger: (event: TriggerEvent) => Promise<void>) {
+  constructor(config: TriggerConfig, onTrigger: TriggerHandler) {
     this.config = config;
     this.onTrigger = onTrigger;
   }
@@ -28,15 +53,28 @@ export abstract class BaseTrigger {
   abstract stop(): Promise<void>;
   abstract getStatus(): { running: boolean; lastCheck?: Date; nextCheck?: Date };
 
-  protected async handleTriggerEvent(event: TriggerEvent): Promise<void> {
+  /**
+   * Called once the summary for one of the trigger's events has been saved,
+   * which may be long after the event when it was queued.
+   */
+  async onEventProcessed(_event: TriggerEvent, _savedPath: string): Promise<void> {
+    // Most triggers have nothing to record
+  }
+
+  /**
+   * Runs the handler and reports the outcome, so triggers can record failures.
+   */
+  protected async handleTriggerEvent(event: TriggerEvent): Promise<TriggerEventResult> {
     if (!this.config.enabled) {
-      return;
+      return { success: false, error: 'Trigger is disabled' };
     }
 
     try {
-      await this.onTrigger(event);
+      const result = await this.onTrigger(event);
+      return { ...result, success: true };
     } catch (error) {
       console.error(`Error handling trigger event for ${this.config.id}:`, error);
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,168 @@
+/**
+ * Rules that decide which feed items are worth summarizing. An item is
+ * skipped when it matches any exclude rule, when there are include rules and
+ * it matches none of them, when a field is shorter than its minimum length,
+ * or when it is older than the maximum age.
+ */
+export interface ItemFilterConfig {
+  include?: FilterRule[];
+  exclude?: FilterRule[];
+  // Minimum length in characters by field, e.g. { "description": 200 } skips teaser-only items
+  minLength?: Partial<Record<FilterField, number>>;
+  // Items published longer ago than this are skipped; items without a date are kept
+  maxAgeHours?: number;
+}
+
+export interface FilterRule {
+  // Name shown in the logs when the rule rejects an item
+  name?: string;
+  // Fields the rule looks at (default: title and description)
+  fields?: FilterField[];
+  // Matches if any keyword appears (case-insensitive; Latin words must match whole)
+  keywords?: string[];
+  // Regular expression, case-insensitive
+  pattern?: string;
+}
+
+export type FilterField = 'title' | 'description' | 'categories' | 'author' | 'link';
+
+export const FILTER_FIELDS: FilterField[] = ['title', 'description', 'categories', 'author', 'link'];
+
+const DEFAULT_RULE_FIELDS: FilterField[] = ['title', 'description'];
+
+// The parts of a feed item the filters look at
+export interface FilterItem {
+  title?: string;
+  description?: string;
+  categories?: string[];
+  author?: string;
+  link?: string;
+  published?: Date;
+}
+
+/**
+ * Why the item is skipped, or undefined when it passes every filter.
+ */
+export function getRejectionReason(filters: ItemFilterConfig, item: FilterItem, now: Date = new Date()): string | undefined {
+  if (filters.maxAgeHours !== undefined && item.published && !isNaN(item.published.getTime())) {
+    const ageHours = (now.getTime() - item.published.getTime()) / (60 * 60 * 1000);
+    if (ageHours > filters.maxAgeHours) {
+      return `older than ${filters.maxAgeHours}h (published ${item.published.toISOString()})`;
+    }
+  }
+
+  for (const [field, minimum] of Object.entries(filters.minLength || {}) as [FilterField, number][]) {
+    const length = getFieldText(item, field).trim().length;
+    if (length < minimum) {
+      return `${field} shorter than ${minimum} characters (${length})`;
+    }
+  }
+
+  const excluded = (filters.exclude || []).findIndex(rule => matchesRule(rule, item));
+  if (excluded !== -1) {
+    return `matched exclude rule ${describeRule(filters.exclude![excluded], excluded)}`;
+  }
+
+  const include = filters.include || [];
+  if (include.length > 0 && !include.some(rule => matchesRule(rule, item))) {
+    return 'matched no include rule';
+  }
+  return undefined;
+}
+
+/**
+ * A rule matches when every condition it sets matches one of its fields. A
+ * rule without keywords or a pattern matches nothing.
+ */
+export function matchesRule(rule: FilterRule, item: FilterItem): boolean {
+  if (!rule.keywords?.length && !rule.pattern) {
+    return false;
+  }
+  const texts = (rule.fields || DEFAULT_RULE_FIELDS).map(field => getFieldText(item, field));
+  if (rule.keywords?.length && !rule.keywords.some(keyword => texts.some(text => containsKeyword(text, keyword)))) {
+    return false;
+  }
+  if (rule.pattern) {
+    const pattern = safeRegExp(rule.pattern);
+    if (!pattern || !texts.some(text => pattern.test(text))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+export function validateFilters(filters: ItemFilterConfig, label: string): string[] {
+  const errors: string[] = [];
+  const rules = [
+    ...(filters.include || []).map((rule, index) => ({ rule, name: `include rule ${describeRule(rule, index)}` })),
+    ...(filters.exclude || []).map((rule, index) => ({ rule, name: `exclude rule ${describeRule(rule, index)}` }))
+  ];
+
+  for (const { rule, name } of rules) {
+    const unknown = (rule.fields || []).filter(field => !FILTER_FIELDS.includes(field));
+    if (unknown.length > 0) {
+      errors.push(`${label} ${name} has unknown fields ${unknown.join(', ')}. Use: ${FILTER_FIELDS.join(', ')}`);
+    }
+    if (!rule.keywords?.length && !rule.pattern) {
+      errors.push(`${label} ${name} needs keywords or a pattern`);
+    }
+    if (rule.pattern && !safeRegExp(rule.pattern)) {
+      errors.push(`${label} ${name} has an invalid pattern '${rule.pattern}'`);
+    }
+  }
+
+  for (const [field, minimum] of Object.entries(filters.minLength || {})) {
+    if (!FILTER_FIELDS.includes(field as FilterField)) {
+      errors.push(`${label} minLength has an unknown field '${field}'. Use: ${FILTER_FIELDS.join(', ')}`);
+    } else if (typeof minimum !== 'number' || minimum < 0) {
+      errors.push(`${label} minLength for '${field}' must be a non-negative number`);
+    }
+  }
+
+  if (filters.maxAgeHours !== undefined && (typeof filters.maxAgeHours !== 'number' || filters.maxAgeHours <= 0)) {
+    errors.push(`${label} maxAgeHours must be a positive number`);
+  }
+  return errors;
+}
+
+function describeRule(rule: FilterRule, index: number): string {
+  if (rule.name) {
+    return `'${rule.name}'`;
+  }
+  const conditions = [
+    rule.keywords?.length ? `keywords ${rule.keywords.join(', ')}` : undefined,
+    rule.pattern ? `pattern /${rule.pattern}/` : undefined
+  ].filter(Boolean).join(' and ');
+  return `${index + 1} (${conditions || 'empty'} in ${(rule.fields || DEFAULT_RULE_FIELDS).join(', ')})`;
+}
+
+function getFieldText(item: FilterItem, field: FilterField): string {
+  return field === 'categories' ? (item.categories || []).join('\n') : (item[field] || '');
+}
+
+function containsKeyword(text: string, keyword: string): boolean {
+  const wanted = keyword.trim().toLowerCase();
+  if (!wanted) {
+    return false;
+  }
+  const haystack = text.toLowerCase();
+  for (let index = haystack.indexOf(wanted); index !== -1; index = haystack.indexOf(wanted, index + 1)) {
+    // "AI" should not match "said", but "AI는" (Korean particle) should match "AI"
+    const before = haystack[index - 1];
+    const after = haystack[index + wanted.length];
+    const boundaryBefore = !/^[a-z0-9]/.test(wanted) || !before || !/[a-z0-9]/.test(before);
+    const boundaryAfter = !/[a-z0-9]$/.test(wanted) || !after || !/[a-z0-9]/.test(after);
+    if (boundaryBefore && boundaryAfter) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function safeRegExp(pattern: string): RegExp | undefined {
+  try {
+    return new RegExp(pattern, 'i');
+  } catch {
+    return undefined;
+  }
+}
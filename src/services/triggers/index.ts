@@ -1,3 +1,8 @@
-export { BaseTrigger, TriggerConfig, TriggerEvent } from './base';
+export { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler, TriggerHandlerResult } from './base';
 export { RssTrigger, RssTriggerConfig } from './rss';
-export { TriggerManager, TriggerManagerConfig } from './manager';
\ No newline at end of file
+export { PageTrigger, PageTriggerConfig, PageLink, ListingPage, parseListingPage, validatePageTrigger } from './page';
+export { WatchTrigger, WatchTriggerConfig, WATCH_FILE_EXTENSIONS, findInboxLinks, markInboxLinks, parseLinkFile } from './watch';
+export { WebhookTrigger, WebhookTriggerConfig, WebhookTriggerOptions, DEFAULT_WEBHOOK_PORT } from './webhook';
+export { OpmlFeed, OpmlImportOptions, OpmlImportResult, parseOpml, createOpml, importOpmlFeeds, exportOpmlFeeds } from './opml';
+export { TriggerManager, TriggerManagerConfig } from './manager';
+export { ItemFilterConfig, FilterRule, FilterField, FILTER_FIELDS, getRejectionReason, validateFilters } from './filters';
\ No newline at end of file
@@ -1,9 +1,14 @@
-import { BaseTrigger, TriggerConfig, TriggerEvent } from './base';
+import { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler } from './base';
 import { RssTrigger, RssTriggerConfig } from './rss';
+import { WatchTrigger, WatchTriggerConfig } from './watch';
+import { WebhookTrigger, WebhookTriggerConfig } from './webhook';
+import { PageTrigger, PageTriggerConfig } from './page';
 import { ContentFetcher } from '../fetcher';
-import { AISummarizer } from '../summarizer';
-import { ObsidianIntegration } from '../obsidian';
+import { AISummarizer, logSummaryProgress } from '../summarizer';
+import { SinkRegistry, findSkippedOutput, logSinkResult, writeToSinks } from '../sinks';
 import { ConfigManager } from '../../utils/config';
+import { TriggerStateStore, resolveStateDir } from '../state';
+import { JobQueue, QueueOptions, QueueWorker } from '../queue';
 
 export interface TriggerManagerConfig {
   triggers: TriggerConfig[];
@@ -14,7 +19,13 @@ export class TriggerManager {
   private configManager: ConfigManager;
   private fetcher: ContentFetcher;
   private summarizer!: AISummarizer;
-  private obsidian!: ObsidianIntegration;
+  private sinks!: SinkRegistry;
+  private stateDir?: string;
+  private vaultPath = '';
+  private profiles?: string[];
+  private queue?: JobQueue;
+  private worker?: QueueWorker;
+  private queueOptions: QueueOptions = {};
 
   constructor(configManager: ConfigManager) {
     this.configManager = configManager;
@@ -24,9 +35,15 @@ export class TriggerManager {
   async initialize(): Promise<void> {
     const config = await this.configManager.loadConfig();
     
-    // Initialize AI services
-    this.summarizer = new AISummarizer(config.ai.apiKey, config.ai.baseUrl);
-    this.obsidian = new ObsidianIntegration(config.obsidian);
+    // Initialize services
+    this.fetcher = new ContentFetcher(config.fetcher);
+    this.summarizer = AISummarizer.fromConfig(config.ai);
+    this.sinks = new SinkRegistry(config);
+    this.stateDir = resolveStateDir(config.stateDir);
+    this.vaultPath = config.obsidian.vaultPath;
+    this.profiles = Object.keys(config.prompts);
+    this.queueOptions = config.queue || {};
+    this.queue = JobQueue.forStateDir(this.stateDir, this.queueOptions);
     
     console.log('Trigger manager initialized');
   }
@@ -50,58 +67,135 @@ export class TriggerManager {
 
     switch (config.type) {
       case 'rss':
-        return new RssTrigger(config as RssTriggerConfig, onTrigger);
+        return new RssTrigger(config as RssTriggerConfig, onTrigger, this.createStateStore(config));
+      case 'page':
+        return new PageTrigger(config as PageTriggerConfig, onTrigger, this.fetcher, this.createStateStore(config));
+      case 'watch':
+        return new WatchTrigger(config as WatchTriggerConfig, onTrigger, this.createStateStore(config), this.vaultPath);
+      case 'webhook':
+        return new WebhookTrigger(config as WebhookTriggerConfig, onTrigger, { queue: this.queue, profiles: this.profiles });
       default:
         console.error(`Unknown trigger type: ${config.type}`);
         return null;
     }
   }
 
-  private createTriggerHandler(triggerConfig: TriggerConfig) {
-    return async (event: TriggerEvent): Promise<void> => {
-      try {
-        console.log(`🔔 Trigger ${triggerConfig.id} fired for: ${event.title || event.url}`);
-
-        // Fetch article content
-        console.log('🔍 Fetching article content...');
-        const article = await this.fetcher.fetchArticle(event.url);
-
-        if (!article.markdownContent || article.markdownContent.length < 100) {
-          console.warn(`⚠️ Insufficient content from ${event.url}, skipping`);
-          return;
-        }
-
-        // Get configuration
-        const config = await this.configManager.loadConfig();
-        
-        // Get prompt template
-        const promptTemplate = config.prompts[triggerConfig.profile] || config.prompts[config.defaultPrompt];
-        if (!promptTemplate) {
-          console.error(`❌ Prompt template '${triggerConfig.profile}' not found`);
-          return;
-        }
-
-        // Summarize
-        console.log(`🤖 Generating summary using '${promptTemplate.name}' prompt...`);
-        const summary = await this.summarizer.summarize(article, promptTemplate, config.ai.model);
-
-        // Add trigger metadata to summary
-        if (event.metadata) {
-          summary.metadata = { ...summary.metadata, ...event.metadata, triggeredBy: triggerConfig.id };
-        }
-
-        // Save to Obsidian
-        console.log('💾 Saving to Obsidian vault...');
-        const savedPath = await this.obsidian.saveArticle(summary);
-
-        console.log(`✅ Summary saved to: ${savedPath}`);
+  private createStateStore(config: TriggerConfig): TriggerStateStore | undefined {
+    return this.stateDir ? TriggerStateStore.forTrigger(this.stateDir, config.id) : undefined;
+  }
 
-      } catch (error) {
-        console.error(`❌ Error processing trigger event from ${triggerConfig.id}:`, error);
+  private createTriggerHandler(triggerConfig: TriggerConfig): TriggerHandler {
+    return async (event: TriggerEvent) => {
+      console.log(`🔔 Trigger ${triggerConfig.id} fired for: ${event.title || event.url}`);
+      const profile = event.profile || triggerConfig.profile;
+
+      // Without a queue (not initialized) the event is processed inline
+      if (!this.queue) {
+        return this.processAndNotify(triggerConfig.id, profile, event);
       }
+
+      const job = await this.queue.enqueue(triggerConfig.id, profile, event);
+      console.log(`📥 Queued job ${job.id.substring(0, 8)} for ${event.url}`);
+      await this.startQueue();
+      this.worker!.kick();
+      return { jobId: job.id };
     };
   }
 
+  /**
+   * Process the event and let its trigger know where the summary went, e.g.
+   * so an inbox can link to the note.
+   */
+  private async processAndNotify(triggerId: string, profile: string, event: TriggerEvent): Promise<{ savedPath: string }> {
+    const result = await this.processEvent(triggerId, profile, event);
+    const trigger = this.triggers.get(triggerId);
+    if (trigger) {
+      try {
+        await trigger.onEventProcessed(event, result.savedPath);
+      } catch (error) {
+        // The summary is saved; retrying the job would only write it again
+        console.warn(`⚠️ Trigger ${triggerId} could not record the result for ${event.url}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Fetch, summarize and save one trigger event. Throws on failure so the
+   * queue can retry it.
+   */
+  private async processEvent(triggerId: string, profile: string, event: TriggerEvent): Promise<{ savedPath: string }> {
+    // Fetch article content
+    console.log('🔍 Fetching article content...');
+    const article = await this.fetcher.fetchArticle(event.url);
+
+    if (!article.markdownContent || article.markdownContent.length < 100) {
+      throw new Error(`Insufficient content from ${event.url}`);
+    }
+
+    // Get configuration, including the trigger's output overrides
+    const config = await this.configManager.loadConfig();
+    const triggerConfig = config.triggers?.find(trigger => trigger.id === triggerId);
+    const sinks = this.sinks.resolve(triggerConfig?.sinks, { outputFolder: triggerConfig?.outputFolder });
+
+    const existingNote = await findSkippedOutput(sinks, article.url);
+    if (existingNote) {
+      console.log(`⏭️ A note for ${article.url} already exists, skipping: ${existingNote}`);
+      return { savedPath: existingNote };
+    }
+    
+    // Get prompt template
+    const promptTemplate = config.prompts[profile] || config.prompts[config.defaultPrompt];
+    if (!promptTemplate) {
+      throw new Error(`Prompt template '${profile}' not found`);
+    }
+    const extraTags = [...(triggerConfig?.tags || []), ...(event.tags || [])];
+    const triggerProfile = extraTags.length > 0
+      ? { ...promptTemplate, tags: [...(promptTemplate.tags || []), ...extraTags].filter((tag, index, all) => all.indexOf(tag) === index) }
+      : promptTemplate;
+    const model = triggerConfig?.model || config.ai.model;
+
+    // Summarize
+    console.log(`🤖 Generating summary using '${promptTemplate.name}' prompt with ${model}...`);
+    const summary = await this.summarizer.summarize(article, triggerProfile, model, {
+      onProgress: logSummaryProgress,
+      variables: { ...event.metadata, triggeredBy: triggerId }
+    });
+
+    // Add trigger metadata to summary; webhook events have none but still record their trigger
+    summary.metadata = { ...summary.metadata, ...event.metadata, triggeredBy: triggerId };
+
+    // Send to the trigger's sinks
+    console.log(`💾 Saving to ${sinks.map(sink => sink.name).join(', ')}...`);
+    const results = await writeToSinks(sinks, summary);
+
+    results.forEach(logSinkResult);
+    return { savedPath: results[0].location };
+  }
+
+  /**
+   * Start processing queued jobs, including any left over from a previous run.
+   */
+  async startQueue(): Promise<void> {
+    if (!this.queue) {
+      return;
+    }
+    if (!this.worker) {
+      this.worker = new QueueWorker(this.queue, job => this.processAndNotify(job.triggerId, job.profile, {
+        ...job.event,
+        timestamp: new Date(job.event.timestamp)
+      }), this.queueOptions.pollIntervalMs);
+    }
+    await this.worker.start();
+  }
+
+  /**
+   * Resolves when no queued job is being processed.
+   */
+  async waitForQueue(): Promise<void> {
+    await this.worker?.onIdle();
+  }
+
   async startTrigger(triggerId: string): Promise<void> {
     const trigger = this.triggers.get(triggerId);
     if (!trigger) {
@@ -162,6 +256,7 @@ export class TriggerManager {
 
   async cleanup(): Promise<void> {
     await this.stopAllTriggers();
+    await this.worker?.stop();
     await this.fetcher.close();
   }
 }
\ No newline at end of file
@@ -0,0 +1,245 @@
+import { JSDOM } from 'jsdom';
+import { TriggerConfig } from './base';
+import { RssTriggerConfig } from './rss';
+import { escapeHtml } from '../../utils/markdown';
+
+// A feed subscription from an OPML file
+export interface OpmlFeed {
+  title: string;
+  xmlUrl: string;
+  htmlUrl?: string;
+  // Folder path in the feed reader, e.g. "Tech/AI"
+  category?: string;
+}
+
+export interface OpmlImportOptions {
+  // Profile and schedule of new triggers
+  profile: string;
+  schedule: string;
+  enabled?: boolean;
+  maxItemsPerCheck?: number;
+  // Profile and output folder by category; a key matches the whole category path or one of its folders
+  profiles?: Record<string, string>;
+  folders?: Record<string, string>;
+}
+
+export interface OpmlImportResult {
+  triggers: TriggerConfig[];
+  created: string[];
+  updated: string[];
+  unchanged: string[];
+}
+
+const DEFAULT_MAX_ITEMS_PER_CHECK = 3;
+const MAX_ID_SLUG_LENGTH = 40;
+
+/**
+ * The feeds in an OPML document, with the titles of the outlines they are
+ * nested in as their category.
+ */
+export function parseOpml(xml: string): OpmlFeed[] {
+  const { document } = new JSDOM(xml, { contentType: 'text/xml' }).window;
+  if (document.querySelector('parsererror') || document.documentElement.nodeName.toLowerCase() !== 'opml') {
+    throw new Error('Not a valid OPML document');
+  }
+
+  const feeds: OpmlFeed[] = [];
+  const visit = (parent: Element, folders: string[]) => {
+    for (const outline of Array.from(parent.children).filter(child => child.nodeName.toLowerCase() === 'outline')) {
+      const title = (outline.getAttribute('title') || outline.getAttribute('text') || '').trim();
+      const xmlUrl = (outline.getAttribute('xmlUrl') || outline.getAttribute('xmlurl') || '').trim();
+      if (!xmlUrl) {
+        visit(outline, title ? [...folders, title] : folders);
+        continue;
+      }
+      // Readers without folders may use the category attribute instead, e.g. "/Tech/AI"
+      const category = folders.length > 0
+        ? folders.join('/')
+        : (outline.getAttribute('category') || '').split(',')[0].split('/').map(part => part.trim()).filter(Boolean).join('/');
+      feeds.push({
+        title: title || xmlUrl,
+        xmlUrl,
+        htmlUrl: outline.getAttribute('htmlUrl') || outline.getAttribute('htmlurl') || undefined,
+        category: category || undefined
+      });
+    }
+  };
+  const body = document.querySelector('body');
+  if (body) {
+    visit(body, []);
+  }
+  return feeds;
+}
+
+/**
+ * An OPML document with the feeds nested in outlines by category.
+ */
+export function createOpml(feeds: OpmlFeed[], title: string): string {
+  interface Folder { name: string; folders: Folder[]; feeds: OpmlFeed[] }
+  const root: Folder = { name: '', folders: [], feeds: [] };
+  for (const feed of feeds) {
+    let folder = root;
+    for (const name of (feed.category || '').split('/').filter(Boolean)) {
+      let child = folder.folders.find(candidate => candidate.name === name);
+      if (!child) {
+        child = { name, folders: [], feeds: [] };
+        folder.folders.push(child);
+      }
+      folder = child;
+    }
+    folder.feeds.push(feed);
+  }
+
+  const lines: string[] = [];
+  const write = (folder: Folder, indent: string) => {
+    for (const child of folder.folders) {
+      lines.push(`${indent}<outline text="${escapeHtml(child.name)}" title="${escapeHtml(child.name)}">`);
+      write(child, `${indent}  `);
+      lines.push(`${indent}</outline>`);
+    }
+    for (const feed of folder.feeds) {
+      const htmlUrl = feed.htmlUrl ? ` htmlUrl="${escapeHtml(feed.htmlUrl)}"` : '';
+      lines.push(`${indent}<outline type="rss" text="${escapeHtml(feed.title)}" title="${escapeHtml(feed.title)}" xmlUrl="${escapeHtml(feed.xmlUrl)}"${htmlUrl}/>`);
+    }
+  };
+  write(root, '    ');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeHtml(title)}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...lines,
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+}
+
+/**
+ * Add a trigger for every new feed and update the triggers of feeds that are
+ * already configured, matched by feed URL. Updates refresh the name and
+ * category, and the profile and folder when a category mapping applies; other
+ * settings such as the schedule are left as they are.
+ */
+export function importOpmlFeeds(triggers: TriggerConfig[], feeds: OpmlFeed[], options: OpmlImportOptions): OpmlImportResult {
+  const result = triggers.map(trigger => ({ ...trigger }));
+  const created: string[] = [];
+  const updated: string[] = [];
+  const unchanged: string[] = [];
+  const imported = new Set<string>();
+
+  for (const feed of feeds) {
+    const feedUrl = normalizeFeedUrl(feed.xmlUrl);
+    // A feed listed in several folders is imported once
+    if (imported.has(feedUrl)) {
+      continue;
+    }
+    imported.add(feedUrl);
+
+    const profile = matchCategory(feed.category, options.profiles);
+    const outputFolder = matchCategory(feed.category, options.folders);
+    const existing = result.find(trigger => trigger.type === 'rss' && normalizeFeedUrl(trigger.feedUrl || '') === feedUrl);
+
+    if (existing) {
+      const changes: Partial<RssTriggerConfig> = {
+        name: feed.title,
+        category: feed.category,
+        ...(profile ? { profile } : {}),
+        ...(outputFolder ? { outputFolder } : {})
+      };
+      const changed = Object.entries(changes).some(([key, value]) => existing[key] !== value);
+      Object.assign(existing, changes);
+      if (!existing.category) {
+        delete existing.category;
+      }
+      (changed ? updated : unchanged).push(existing.id);
+      continue;
+    }
+
+    const trigger: RssTriggerConfig = {
+      id: createTriggerId(feed, result.map(other => other.id)),
+      name: feed.title,
+      type: 'rss',
+      enabled: options.enabled ?? true,
+      profile: profile || options.profile,
+      feedUrl: feed.xmlUrl,
+      schedule: options.schedule,
+      maxItemsPerCheck: options.maxItemsPerCheck ?? DEFAULT_MAX_ITEMS_PER_CHECK,
+      ...(feed.category ? { category: feed.category } : {}),
+      ...(outputFolder ? { outputFolder } : {})
+    };
+    result.push(trigger);
+    created.push(trigger.id);
+  }
+
+  return { triggers: result, created, updated, unchanged };
+}
+
+/**
+ * The RSS triggers as OPML feeds, e.g. to load them into a feed reader.
+ */
+export function exportOpmlFeeds(triggers: TriggerConfig[]): OpmlFeed[] {
+  return triggers
+    .filter(trigger => trigger.type === 'rss' && trigger.feedUrl)
+    .map(trigger => ({ title: trigger.name || trigger.id, xmlUrl: trigger.feedUrl, category: trigger.category }));
+}
+
+/**
+ * The mapped value for the deepest matching folder of the category; the
+ * whole path ("Tech/AI") is tried first, then "AI", then "Tech".
+ */
+function matchCategory(category: string | undefined, mapping: Record<string, string> = {}): string | undefined {
+  if (!category) {
+    return undefined;
+  }
+  const candidates = [category, ...category.split('/').reverse()].map(name => name.toLowerCase());
+  for (const candidate of candidates) {
+    const key = Object.keys(mapping).find(name => name.replace(/^\/+|\/+$/g, '').toLowerCase() === candidate);
+    if (key) {
+      return mapping[key];
+    }
+  }
+  return undefined;
+}
+
+/**
+ * "rss-" plus the feed title as a slug, or the feed's host name when the
+ * title has no Latin letters or digits, made unique with a counter.
+ */
+function createTriggerId(feed: OpmlFeed, existingIds: string[]): string {
+  let host = '';
+  try {
+    host = new URL(feed.xmlUrl).hostname.replace(/^www\./, '');
+  } catch {
+    // The title has to do
+  }
+  const base = `rss-${slugify(feed.title) || slugify(host) || 'feed'}`;
+  let id = base;
+  for (let counter = 2; existingIds.includes(id); counter++) {
+    id = `${base}-${counter}`;
+  }
+  return id;
+}
+
+function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Accents, after NFKD split them off
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+/, '')
+    .slice(0, MAX_ID_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+function normalizeFeedUrl(url: string): string {
+  try {
+    return new URL(url.trim()).href.replace(/\/+$/, '');
+  } catch {
+    return url.trim().replace(/\/+$/, '');
+  }
+}
@@ -0,0 +1,305 @@
+import * as cron from 'node-cron';
+import { JSDOM } from 'jsdom';
+import { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler } from './base';
+import { TriggerStateStore } from '../state';
+import { ContentFetcher, FETCH_MODES, FetchMode } from '../fetcher';
+
+export interface PageTriggerConfig extends TriggerConfig {
+  type: 'page';
+  // Listing page to watch, e.g. a blog index or changelog
+  pageUrl: string;
+  schedule: string;
+  // CSS selector of the article links, or of elements containing them, e.g. "article h2 a"
+  selector?: string;
+  // Regular expression the absolute link URL must match, e.g. "/blog/[^/]+/?$"
+  linkPattern?: string;
+  // How the listing page is fetched (default: fetcher.mode and its domain overrides)
+  fetchMode?: FetchMode;
+  testMode?: boolean;
+  maxItemsPerCheck?: number; // Maximum links to process in one check cycle
+}
+
+export interface PageLink {
+  url: string;
+  title?: string;
+}
+
+export interface LinkExtractionOptions {
+  selector?: string;
+  linkPattern?: string;
+}
+
+export interface ListingPage {
+  title?: string;
+  links: PageLink[];
+}
+
+/**
+ * The title and article links of a listing page. Links are in page order, as
+ * absolute URLs without fragments and without duplicates; links back to the
+ * page itself and non-http(s) links are left out.
+ */
+export function parseListingPage(html: string, pageUrl: string, options: LinkExtractionOptions = {}): ListingPage {
+  const { document } = new JSDOM(html, { url: pageUrl }).window;
+  const pattern = options.linkPattern ? new RegExp(options.linkPattern, 'i') : undefined;
+  const page = withoutHash(pageUrl);
+  const links: PageLink[] = [];
+
+  for (const element of Array.from(document.querySelectorAll(options.selector || 'a[href]'))) {
+    // The selector may match a card or heading around the link
+    const anchor = element.matches('a[href]') ? element : element.querySelector('a[href]') || element.closest('a[href]');
+    const href = anchor?.getAttribute('href');
+    if (!href) {
+      continue;
+    }
+
+    let url: string;
+    try {
+      const resolved = new URL(href, pageUrl);
+      if (resolved.protocol !== 'http:' && resolved.protocol !== 'https:') {
+        continue;
+      }
+      url = withoutHash(resolved.href);
+    } catch {
+      continue;
+    }
+    if (url === page || (pattern && !pattern.test(url)) || links.some(link => link.url === url)) {
+      continue;
+    }
+
+    const text = (anchor!.textContent || '').replace(/\s+/g, ' ').trim();
+    const elementText = (element.textContent || '').replace(/\s+/g, ' ').trim();
+    const title = text || anchor!.getAttribute('title')?.trim() || elementText;
+    links.push({ url, title: title || undefined });
+  }
+  return { title: document.title.trim() || undefined, links };
+}
+
+export function validatePageTrigger(config: PageTriggerConfig): string[] {
+  const errors: string[] = [];
+  const label = `Page trigger '${config.id}'`;
+  try {
+    if (!['http:', 'https:'].includes(new URL(config.pageUrl).protocol)) {
+      throw new Error(config.pageUrl);
+    }
+  } catch {
+    errors.push(`${label} needs a 'pageUrl' with an http(s) URL`);
+  }
+  if (!config.schedule) {
+    errors.push(`${label} needs a 'schedule'`);
+  }
+  // Without either, every navigation and footer link would trigger
+  if (!config.selector && !config.linkPattern) {
+    errors.push(`${label} needs a 'selector' or 'linkPattern' to find the article links`);
+  }
+  if (config.selector) {
+    try {
+      new JSDOM('').window.document.querySelector(config.selector);
+    } catch {
+      errors.push(`${label} has an invalid selector '${config.selector}'`);
+    }
+  }
+  if (config.linkPattern) {
+    try {
+      new RegExp(config.linkPattern);
+    } catch {
+      errors.push(`${label} has an invalid linkPattern '${config.linkPattern}'`);
+    }
+  }
+  if (config.fetchMode && !FETCH_MODES.includes(config.fetchMode)) {
+    errors.push(`${label} has an invalid fetchMode '${config.fetchMode}'. Use one of: ${FETCH_MODES.join(', ')}`);
+  }
+  return errors;
+}
+
+function withoutHash(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = '';
+  return parsed.href;
+}
+
+/**
+ * Follows a listing page without a feed: every check fetches the page,
+ * extracts the article links and triggers for links it has not seen before.
+ * Seen links, the safety limit and scheduling work like the RSS trigger.
+ */
+export class PageTrigger extends BaseTrigger {
+  private task?: cron.ScheduledTask;
+  private lastCheck?: Date;
+  private checking = false;
+  private catchUpPending = false;
+
+  constructor(
+    config: PageTriggerConfig,
+    onTrigger: TriggerHandler,
+    private fetcher: ContentFetcher,
+    // Seen links and check history; in-memory unless the manager provides a persistent store
+    private stateStore: TriggerStateStore = new TriggerStateStore()
+  ) {
+    super(config, onTrigger);
+  }
+
+  private get pageConfig(): PageTriggerConfig {
+    return this.config as PageTriggerConfig;
+  }
+
+  async start(): Promise<void> {
+    if (this.task) {
+      console.log(`Page trigger ${this.config.id} is already running`);
+      return;
+    }
+
+    console.log(`Starting page trigger ${this.config.id} for ${this.pageConfig.pageUrl}`);
+
+    // Initialize with the current links to avoid processing old articles
+    await this.initializeSeenLinks();
+
+    this.task = cron.schedule(this.pageConfig.schedule, async () => {
+      await this.checkPage();
+    });
+    console.log(`Page trigger ${this.config.id} scheduled with pattern: ${this.pageConfig.schedule}`);
+
+    if (this.pageConfig.testMode || this.catchUpPending) {
+      this.catchUpPending = false;
+      setTimeout(async () => {
+        await this.checkPage();
+      }, 1000);
+    }
+  }
+
+  async stop(): Promise<void> {
+    if (this.task) {
+      this.task.stop();
+      this.task = undefined;
+      console.log(`Stopped page trigger ${this.config.id}`);
+    }
+  }
+
+  getStatus() {
+    return {
+      running: !!this.task,
+      lastCheck: this.lastCheck || this.stateStore.getLastSuccessfulCheck()
+    };
+  }
+
+  async runTestCheck(): Promise<void> {
+    console.log(`🧪 Running test check for page ${this.config.id}`);
+    await this.checkPage();
+  }
+
+  private async initializeSeenLinks(): Promise<void> {
+    try {
+      console.log(`Initializing page trigger ${this.config.id}...`);
+      await this.stateStore.load();
+
+      if (this.pageConfig.testMode) {
+        console.log(`Test mode enabled - will process up to ${this.pageConfig.maxItemsPerCheck || 2} links for testing`);
+      } else if (this.stateStore.hasHistory()) {
+        // Restart: links that appeared while the daemon was down are new
+        this.catchUpPending = true;
+        console.log(`Resuming page trigger ${this.config.id} (last successful check: ${this.stateStore.getLastSuccessfulCheck()!.toISOString()}), catching up on new links`);
+      } else {
+        await this.recordBaseline((await this.fetchPage()).links);
+      }
+    } catch (error) {
+      // The first successful check records the baseline instead
+      console.error(`Error initializing page trigger ${this.config.id}:`, error);
+    }
+  }
+
+  /**
+   * First run: the links on the page now are old news and only links added
+   * later trigger.
+   */
+  private async recordBaseline(links: PageLink[]): Promise<void> {
+    if (links.length === 0) {
+      console.warn(`⚠️ No links found on ${this.pageConfig.pageUrl}; check the trigger's selector and linkPattern`);
+      return;
+    }
+    const urls = links.map(link => link.url);
+    await this.stateStore.setStatus(urls, 'seen');
+    await this.stateStore.recordCheck(true, urls);
+    console.log(`Initialized page trigger ${this.config.id} with ${urls.length} existing links`);
+  }
+
+  private async checkPage(): Promise<void> {
+    // A slow check must not overlap the next scheduled one
+    if (this.checking) {
+      console.log(`Page trigger ${this.config.id} is still processing the previous check, skipping`);
+      return;
+    }
+    this.checking = true;
+
+    try {
+      this.lastCheck = new Date();
+      console.log(`Checking page ${this.config.id} at ${this.lastCheck.toISOString()}`);
+
+      const { links, title } = await this.fetchPage();
+      if (!this.stateStore.hasHistory() && !this.pageConfig.testMode) {
+        await this.recordBaseline(links);
+        return;
+      }
+      if (links.length === 0) {
+        // Probably a redesign that broke the selector; keep the last good check
+        console.warn(`⚠️ No links found on ${this.pageConfig.pageUrl}; check the trigger's selector and linkPattern`);
+        await this.stateStore.recordCheck(false);
+        return;
+      }
+
+      const newLinks = links.filter(link => !this.stateStore.isSeen(link.url));
+      console.log(`Found ${newLinks.length} new links on page ${this.config.id}`);
+
+      const maxItemsLimit = this.pageConfig.maxItemsPerCheck || 3;
+      if (newLinks.length > maxItemsLimit) {
+        console.log(`⚠️  Found ${newLinks.length} new links, but will only process ${maxItemsLimit} for safety. Remaining ${newLinks.length - maxItemsLimit} links will be processed in next cycle.`);
+      }
+
+      // Listing pages put the newest links first; process the oldest new links first
+      const linksToProcess = newLinks.slice(0, maxItemsLimit).reverse();
+
+      for (const link of linksToProcess) {
+        const event: TriggerEvent = {
+          url: link.url,
+          title: link.title,
+          timestamp: new Date(),
+          metadata: {
+            feedTitle: title,
+            feedUrl: this.pageConfig.pageUrl,
+            itemId: link.url
+          }
+        };
+
+        console.log(`Triggering for new link: ${link.title || link.url} - ${link.url}`);
+        await this.stateStore.setStatus(link.url, 'processing', { url: link.url, title: link.title });
+        const result = await this.handleTriggerEvent(event);
+        await this.stateStore.setStatus(link.url, result.success ? 'done' : 'failed', { url: link.url, error: result.error });
+      }
+
+      await this.stateStore.recordCheck(true, links.map(link => link.url));
+    } catch (error) {
+      console.error(`Error checking page ${this.config.id}:`, error);
+      await this.stateStore.recordCheck(false).catch(() => undefined);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * In auto mode a page whose static HTML has no matching links is rendered
+   * in the browser, as it is likely built by scripts.
+   */
+  private async fetchPage(): Promise<ListingPage> {
+    const { pageUrl, selector, linkPattern, fetchMode } = this.pageConfig;
+    const mode = this.fetcher.resolveFetchMode(pageUrl, fetchMode);
+
+    const html = await this.fetcher.fetchHtml(pageUrl, { mode: mode === 'auto' ? 'static' : mode });
+    const page = parseListingPage(html.html, html.url, { selector, linkPattern });
+    if (page.links.length > 0 || mode !== 'auto') {
+      return page;
+    }
+
+    console.log(`⚠️ No links in the static HTML of ${pageUrl}, falling back to headless browser`);
+    const rendered = await this.fetcher.fetchHtml(pageUrl, { mode: 'browser' });
+    return parseListingPage(rendered.html, rendered.url, { selector, linkPattern });
+  }
+}
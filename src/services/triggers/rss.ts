@@ -1,6 +1,8 @@
 import * as cron from 'node-cron';
 import Parser from 'rss-parser';
-import { BaseTrigger, TriggerConfig, TriggerEvent } from './base';
+import { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler } from './base';
+import { TriggerStateStore } from '../state';
+import { FilterItem, ItemFilterConfig, getRejectionReason } from './filters';
 
 export interface RssTriggerConfig extends TriggerConfig {
   type: 'rss';
@@ -9,15 +11,25 @@ export interface RssTriggerConfig extends TriggerConfig {
   maxItems?: number; // For backward compatibility (deprecated)
   testMode?: boolean;
   maxItemsPerCheck?: number; // Maximum items to process in one check cycle (both test and normal mode)
+  // Include/exclude rules; rejected items are recorded as skipped and never summarized
+  filters?: ItemFilterConfig;
+  // Folder of the feed in a feed reader, e.g. "Tech/AI"; kept for OPML export
+  category?: string;
 }
 
 export class RssTrigger extends BaseTrigger {
   private parser: Parser;
   private task?: cron.ScheduledTask;
   private lastCheck?: Date;
-  private seenItems: Set<string> = new Set();
-
-  constructor(config: RssTriggerConfig, onTrigger: (event: TriggerEvent) => Promise<void>) {
+  private checking = false;
+  private catchUpPending = false;
+
+  constructor(
+    config: RssTriggerConfig,
+    onTrigger: TriggerHandler,
+    // Seen items and check history; in-memory unless the manager provides a persistent store
+    private stateStore: TriggerStateStore = new TriggerStateStore()
+  ) {
     super(config, onTrigger);
     this.parser = new Parser();
   }
@@ -48,6 +60,11 @@ export class RssTrigger extends BaseTrigger {
       setTimeout(async () => {
         await this.checkFeed();
       }, 1000); // Small delay to let initialization complete
+    } else if (this.catchUpPending) {
+      this.catchUpPending = false;
+      setTimeout(async () => {
+        await this.checkFeed();
+      }, 1000);
     }
   }
 
@@ -62,7 +79,7 @@ export class RssTrigger extends BaseTrigger {
   getStatus() {
     return {
       running: !!this.task,
-      lastCheck: this.lastCheck,
+      lastCheck: this.lastCheck || this.stateStore.getLastSuccessfulCheck(),
       nextCheck: this.task ? new Date(Date.now() + this.getNextCheckInterval()) : undefined
     };
   }
@@ -78,6 +95,7 @@ export class RssTrigger extends BaseTrigger {
   private async initializeSeenItems(): Promise<void> {
     try {
       console.log(`Initializing RSS feed ${this.config.id}...`);
+      await this.stateStore.load();
       const feed = await this.parser.parseURL(this.rssConfig.feedUrl);
       
       if (this.rssConfig.testMode) {
@@ -85,38 +103,70 @@ export class RssTrigger extends BaseTrigger {
         const maxItems = this.rssConfig.maxItemsPerCheck || 2;
         const itemCount = Math.min(feed.items.length, maxItems);
         console.log(`Test mode enabled - will process ${itemCount} out of ${feed.items.length} items for testing (limit: ${maxItems})`);
+      } else if (this.stateStore.hasHistory()) {
+        // Restart: catch up on items published since the last successful check.
+        // Older unseen items that were in the feed then were left for a later
+        // cycle by the safety limit, so only those that were not are old news.
+        const lastCheck = this.stateStore.getLastSuccessfulCheck()!;
+        const olderIds = feed.items
+          .filter(item => {
+            const itemId = this.getItemId(item);
+            const published = item.pubDate ? new Date(item.pubDate) : undefined;
+            return itemId && !this.stateStore.isSeen(itemId) && published && published < lastCheck
+              && this.stateStore.wasInLastCheck(itemId) === false;
+          })
+          .map(item => this.getItemId(item)!);
+        await this.stateStore.setStatus(olderIds, 'seen');
+        this.catchUpPending = true;
+        console.log(`Resuming RSS trigger ${this.config.id} (last successful check: ${lastCheck.toISOString()}), catching up on new items`);
       } else {
-        // Mark all current items as seen to avoid processing old articles
-        feed.items.forEach(item => {
-          const itemId = this.getItemId(item);
-          if (itemId) {
-            this.seenItems.add(itemId);
-          }
-        });
-        console.log(`Initialized RSS trigger ${this.config.id} with ${this.seenItems.size} existing items`);
+        // First run: mark all current items as seen to avoid processing old articles
+        const itemIds = feed.items
+          .map(item => this.getItemId(item))
+          .filter((itemId): itemId is string => !!itemId);
+        await this.stateStore.setStatus(itemIds, 'seen');
+        await this.stateStore.recordCheck(true, itemIds);
+        console.log(`Initialized RSS trigger ${this.config.id} with ${itemIds.length} existing items`);
       }
     } catch (error) {
       console.error(`Error initializing RSS feed ${this.config.id}:`, error);
+      // Without a baseline every item would look new; only a known last check makes catching up safe
+      this.catchUpPending = this.stateStore.hasHistory();
     }
   }
 
   private async checkFeed(): Promise<void> {
+    // A slow check (many items, long summaries) must not overlap the next scheduled one
+    if (this.checking) {
+      console.log(`RSS trigger ${this.config.id} is still processing the previous check, skipping`);
+      return;
+    }
+    this.checking = true;
+
     try {
       this.lastCheck = new Date();
       console.log(`Checking RSS feed ${this.config.id} at ${this.lastCheck.toISOString()}`);
 
       const feed = await this.parser.parseURL(this.rssConfig.feedUrl);
-      const newItems = [];
-
-      for (const item of feed.items) {
+      const unseenItems = feed.items.filter(item => {
         const itemId = this.getItemId(item);
-        if (itemId && !this.seenItems.has(itemId)) {
+        return itemId && !this.stateStore.isSeen(itemId);
+      });
+
+      // Filtered items are skipped before the safety limit, so they do not use up its slots
+      const newItems = [];
+      for (const item of unseenItems) {
+        const reason = this.rssConfig.filters ? getRejectionReason(this.rssConfig.filters, this.toFilterItem(item)) : undefined;
+        if (reason) {
+          console.log(`⏭️ Skipping "${item.title || item.link}" from ${this.config.id}: ${reason}`);
+          await this.stateStore.setStatus(this.getItemId(item)!, 'skipped', { url: item.link, title: item.title, reason });
+        } else {
           newItems.push(item);
-          this.seenItems.add(itemId);
         }
       }
 
-      console.log(`Found ${newItems.length} new items in RSS feed ${this.config.id}`);
+      const skipped = unseenItems.length - newItems.length;
+      console.log(`Found ${newItems.length} new items in RSS feed ${this.config.id}${skipped > 0 ? ` (${skipped} skipped by filters)` : ''}`);
 
       // Apply safety limit for both test and normal mode
       const maxItemsLimit = this.rssConfig.maxItemsPerCheck || this.rssConfig.maxItems || 3;
@@ -131,36 +181,60 @@ export class RssTrigger extends BaseTrigger {
         .reverse(); // Process oldest new items first
 
       for (const item of itemsToProcess) {
-        if (item.link) {
-          const event: TriggerEvent = {
-            url: item.link,
-            title: item.title,
-            timestamp: new Date(item.pubDate || Date.now()),
-            metadata: {
-              feedTitle: feed.title,
-              feedUrl: this.rssConfig.feedUrl,
-              itemId: this.getItemId(item),
-              categories: item.categories,
-              author: item.creator || item['dc:creator']
-            }
-          };
-
-          console.log(`Triggering for new article: ${item.title} - ${item.link}`);
-          await this.handleTriggerEvent(event);
+        const itemId = this.getItemId(item)!;
+        // Paper feeds sometimes attach the PDF as an enclosure instead of linking to it
+        const url = item.link || (item.enclosure?.type === 'application/pdf' ? item.enclosure.url : undefined);
+        if (!url) {
+          await this.stateStore.setStatus(itemId, 'seen');
+          continue;
         }
-      }
 
-      // Cleanup old seen items to prevent memory growth
-      if (this.seenItems.size > 1000) {
-        const itemsArray = Array.from(this.seenItems);
-        this.seenItems = new Set(itemsArray.slice(-500)); // Keep latest 500
+        const event: TriggerEvent = {
+          url,
+          title: item.title,
+          timestamp: new Date(item.pubDate || Date.now()),
+          metadata: {
+            feedTitle: feed.title,
+            feedUrl: this.rssConfig.feedUrl,
+            itemId,
+            categories: item.categories,
+            author: item.creator || item['dc:creator']
+          }
+        };
+
+        console.log(`Triggering for new article: ${item.title} - ${url}`);
+        await this.stateStore.setStatus(itemId, 'processing', { url, title: item.title });
+        const result = await this.handleTriggerEvent(event);
+        await this.stateStore.setStatus(itemId, result.success ? 'done' : 'failed', { url, error: result.error });
       }
 
+      const currentIds = feed.items
+        .map(item => this.getItemId(item))
+        .filter((itemId): itemId is string => !!itemId);
+      await this.stateStore.recordCheck(true, currentIds);
+
     } catch (error) {
       console.error(`Error checking RSS feed ${this.config.id}:`, error);
+      await this.stateStore.recordCheck(false).catch(() => undefined);
+    } finally {
+      this.checking = false;
     }
   }
 
+  private toFilterItem(item: any): FilterItem {
+    const published = item.isoDate || item.pubDate;
+    return {
+      title: item.title,
+      description: item.contentSnippet || item.summary || item.content,
+      categories: Array.isArray(item.categories)
+        ? item.categories.map((category: any) => (typeof category === 'string' ? category : category?._ || '')).filter(Boolean)
+        : [],
+      author: item.creator || item['dc:creator'] || item.author,
+      link: item.link,
+      published: published ? new Date(published) : undefined
+    };
+  }
+
   private getItemId(item: any): string | null {
     return item.guid || item.link || item.id || null;
   }
@@ -0,0 +1,309 @@
+import * as cron from 'node-cron';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler } from './base';
+import { TriggerStateStore } from '../state';
+
+export interface WatchTriggerConfig extends TriggerConfig {
+  type: 'watch';
+  // Inbox note, or folder of link files; relative to the vault unless absolute
+  path: string;
+  // How often the inbox is checked (default: every minute)
+  schedule?: string;
+  maxItemsPerCheck?: number;
+  // Where processed link files are moved, relative to the watched folder (default: Processed)
+  processedFolder?: string;
+}
+
+// Link files a watched folder picks up, e.g. from a phone's share sheet
+export const WATCH_FILE_EXTENSIONS = ['.url', '.txt', '.webloc'];
+
+const DEFAULT_WATCH_SCHEDULE = '* * * * *';
+const DEFAULT_PROCESSED_FOLDER = 'Processed';
+
+// A URL on an unprocessed line of an inbox note
+export interface InboxLink {
+  url: string;
+  title?: string;
+  // Zero-based line number in the note
+  line: number;
+}
+
+// A URL in an inbox note or link file, with the file it came from
+interface InboxEntry {
+  url: string;
+  title?: string;
+  file: string;
+}
+
+const MARKDOWN_LINK = /\[([^\]]*)\]\((https?:\/\/[^\s)]+)\)/;
+const BARE_URL = /https?:\/\/[^\s<>"'`\])]+/;
+const CHECKED_TASK = /^\s*[-*+]\s+\[[xX]\]/;
+
+/**
+ * The first URL on every line of the note that is not yet processed, i.e.
+ * not a checked task. Frontmatter and code blocks are ignored.
+ */
+export function findInboxLinks(content: string): InboxLink[] {
+  const links: InboxLink[] = [];
+  const lines = content.split('\n');
+  let inFrontmatter = lines[0]?.trim() === '---';
+  let inCode = false;
+
+  lines.forEach((text, line) => {
+    if (inFrontmatter) {
+      inFrontmatter = line === 0 || text.trim() !== '---';
+      return;
+    }
+    if (/^\s*(```|~~~)/.test(text)) {
+      inCode = !inCode;
+      return;
+    }
+    if (inCode || CHECKED_TASK.test(text)) {
+      return;
+    }
+    const link = parseLine(text);
+    if (link) {
+      links.push({ ...link, line });
+    }
+  });
+  return links;
+}
+
+/**
+ * Mark every unprocessed line with the URL as done: the line becomes a
+ * checked task and gets a wikilink to the summary. Returns undefined when no
+ * line has the URL, e.g. because the user removed it meanwhile.
+ */
+export function markInboxLinks(content: string, url: string, noteName?: string): string | undefined {
+  const lines = content.split('\n');
+  const matching = findInboxLinks(content).filter(link => link.url === url);
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  for (const { line } of matching) {
+    const text = lines[line].replace(/\s+$/, '');
+    const suffix = noteName ? ` → [[${noteName}]]` : '';
+    const item = text.match(/^(\s*)[-*+]\s+(?:\[ \]\s+)?(.*)$/);
+    lines[line] = item ? `${item[1]}- [x] ${item[2]}${suffix}` : `- [x] ${text.trim()}${suffix}`;
+  }
+  return lines.join('\n');
+}
+
+/**
+ * URLs in a link file: the URL= entry of a Windows .url shortcut, the URL
+ * string of an XML .webloc, or every URL in a .txt file.
+ */
+export function parseLinkFile(fileName: string, content: string): string[] {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.url':
+      return [...content.matchAll(/^\s*URL=(https?:\/\/\S+)\s*$/gim)].map(match => match[1]);
+    case '.webloc':
+      return [...content.matchAll(/<key>URL<\/key>\s*<string>(https?:\/\/[^<]+)<\/string>/g)]
+        .map(match => match[1].trim().replace(/&amp;/g, '&'));
+    default:
+      return content.split('\n').map(parseLine).filter((link): link is { url: string } => !!link).map(link => link.url);
+  }
+}
+
+function parseLine(text: string): { url: string; title?: string } | undefined {
+  const markdown = text.match(MARKDOWN_LINK);
+  if (markdown) {
+    return { url: markdown[2], title: markdown[1].trim() || undefined };
+  }
+  const bare = text.match(BARE_URL);
+  // Sentence punctuation after a pasted URL is not part of it
+  return bare ? { url: bare[0].replace(/[.,;:!?]+$/, '') } : undefined;
+}
+
+/**
+ * Watches an inbox note such as `Inbox.md`, or a folder of .url/.txt/.webloc
+ * files, for URLs to summarize. Once a summary is saved the inbox line is
+ * checked off with a link to the note, or the link file is moved to the
+ * processed folder.
+ */
+export class WatchTrigger extends BaseTrigger {
+  private task?: cron.ScheduledTask;
+  private lastCheck?: Date;
+  private checking = false;
+
+  constructor(
+    config: WatchTriggerConfig,
+    onTrigger: TriggerHandler,
+    // Queued and processed URLs; in-memory unless the manager provides a persistent store
+    private stateStore: TriggerStateStore = new TriggerStateStore(),
+    // Vault the inbox path is relative to
+    private vaultPath: string = ''
+  ) {
+    super(config, onTrigger);
+  }
+
+  private get watchConfig(): WatchTriggerConfig {
+    return this.config as WatchTriggerConfig;
+  }
+
+  private get inboxPath(): string {
+    return path.resolve(this.vaultPath, this.watchConfig.path);
+  }
+
+  async start(): Promise<void> {
+    if (this.task) {
+      console.log(`Watch trigger ${this.config.id} is already running`);
+      return;
+    }
+
+    console.log(`Starting watch trigger ${this.config.id} for ${this.inboxPath}`);
+    await this.stateStore.load();
+
+    const schedule = this.watchConfig.schedule || DEFAULT_WATCH_SCHEDULE;
+    this.task = cron.schedule(schedule, async () => {
+      await this.checkInbox();
+    });
+    console.log(`Watch trigger ${this.config.id} scheduled with pattern: ${schedule}`);
+
+    // Links added while the daemon was down are picked up right away
+    await this.checkInbox();
+  }
+
+  async stop(): Promise<void> {
+    if (this.task) {
+      this.task.stop();
+      this.task = undefined;
+      console.log(`Stopped watch trigger ${this.config.id}`);
+    }
+  }
+
+  getStatus() {
+    return {
+      running: !!this.task,
+      lastCheck: this.lastCheck || this.stateStore.getLastSuccessfulCheck()
+    };
+  }
+
+  async runTestCheck(): Promise<void> {
+    console.log(`🧪 Running test check for watch trigger ${this.config.id}`);
+    await this.checkInbox();
+  }
+
+  async onEventProcessed(event: TriggerEvent, savedPath: string): Promise<void> {
+    const file = event.metadata?.inboxFile;
+    if (typeof file !== 'string') {
+      return;
+    }
+    await this.stateStore.setStatus(event.url, 'done', { url: event.url, title: event.title });
+
+    if (path.extname(file).toLowerCase() === '.md') {
+      const noteName = savedPath.endsWith('.md') ? path.basename(savedPath, '.md') : undefined;
+      const content = await fs.readFile(file, 'utf8').catch(() => undefined);
+      const updated = content !== undefined ? markInboxLinks(content, event.url, noteName) : undefined;
+      if (updated !== undefined) {
+        await fs.writeFile(file, updated, 'utf8');
+        console.log(`☑️ Checked off ${event.url} in ${path.basename(file)}`);
+      }
+      return;
+    }
+
+    // A link file is done once every URL in it has been summarized
+    const content = await fs.readFile(file, 'utf8').catch(() => undefined);
+    if (content === undefined || parseLinkFile(file, content).some(url => this.stateStore.getItem(url)?.status !== 'done')) {
+      return;
+    }
+    const processedFolder = path.join(path.dirname(file), this.watchConfig.processedFolder || DEFAULT_PROCESSED_FOLDER);
+    await fs.mkdir(processedFolder, { recursive: true });
+    const target = await findFreePath(path.join(processedFolder, path.basename(file)));
+    await fs.rename(file, target);
+    console.log(`📁 Moved ${path.basename(file)} to ${path.relative(path.dirname(file), target)}`);
+  }
+
+  private async checkInbox(): Promise<void> {
+    if (this.checking) {
+      console.log(`Watch trigger ${this.config.id} is still processing the previous check, skipping`);
+      return;
+    }
+    this.checking = true;
+
+    try {
+      this.lastCheck = new Date();
+      const entries = await this.readInbox();
+      if (!entries) {
+        return;
+      }
+
+      const newEntries = entries.filter(entry => !this.stateStore.isSeen(entry.url));
+      const maxItemsLimit = this.watchConfig.maxItemsPerCheck || 3;
+      if (newEntries.length > maxItemsLimit) {
+        console.log(`⚠️  Found ${newEntries.length} new links, but will only queue ${maxItemsLimit} for safety. The rest follow in the next check.`);
+      }
+
+      for (const entry of newEntries.slice(0, maxItemsLimit)) {
+        const event: TriggerEvent = {
+          url: entry.url,
+          title: entry.title,
+          timestamp: new Date(),
+          metadata: { inboxFile: entry.file }
+        };
+
+        console.log(`📥 New link in ${path.basename(entry.file)}: ${entry.url}`);
+        await this.stateStore.setStatus(entry.url, 'processing', { url: entry.url, title: entry.title });
+        const result = await this.handleTriggerEvent(event);
+        // 'seen' until the summary is saved, unless it was processed inline and is done already
+        if (this.stateStore.getItem(entry.url)?.status !== 'done') {
+          await this.stateStore.setStatus(entry.url, result.success ? 'seen' : 'failed', { url: entry.url, error: result.error });
+        }
+      }
+
+      await this.stateStore.recordCheck(true, entries.map(entry => entry.url));
+    } catch (error) {
+      console.error(`Error checking inbox of watch trigger ${this.config.id}:`, error);
+      await this.stateStore.recordCheck(false).catch(() => undefined);
+    } finally {
+      this.checking = false;
+    }
+  }
+
+  /**
+   * The URLs in the inbox, oldest link file first, or undefined when the
+   * inbox does not exist (yet), e.g. before the first sync.
+   */
+  private async readInbox(): Promise<InboxEntry[] | undefined> {
+    const inbox = this.inboxPath;
+    const stats = await fs.stat(inbox).catch(() => undefined);
+    if (!stats) {
+      console.warn(`⚠️ Inbox of watch trigger ${this.config.id} not found: ${inbox}`);
+      return undefined;
+    }
+
+    if (!stats.isDirectory()) {
+      const content = await fs.readFile(inbox, 'utf8');
+      return findInboxLinks(content).map(link => ({ url: link.url, title: link.title, file: inbox }));
+    }
+
+    const names = (await fs.readdir(inbox)).filter(name => WATCH_FILE_EXTENSIONS.includes(path.extname(name).toLowerCase()));
+    const files = await Promise.all(names.map(async name => {
+      const file = path.join(inbox, name);
+      return { file, stats: await fs.stat(file) };
+    }));
+
+    const entries: InboxEntry[] = [];
+    for (const { file } of files.filter(entry => entry.stats.isFile()).sort((a, b) => a.stats.mtimeMs - b.stats.mtimeMs)) {
+      // Shortcuts are named after the page; text files usually are not
+      const title = path.extname(file).toLowerCase() === '.txt' ? undefined : path.basename(file, path.extname(file));
+      for (const url of parseLinkFile(file, await fs.readFile(file, 'utf8'))) {
+        entries.push({ url, title, file });
+      }
+    }
+    return entries;
+  }
+}
+
+async function findFreePath(target: string): Promise<string> {
+  const extension = path.extname(target);
+  const base = target.slice(0, target.length - extension.length);
+  for (let counter = 1; ; counter++) {
+    const candidate = counter === 1 ? target : `${base} ${counter}${extension}`;
+    if (!(await fs.stat(candidate).catch(() => undefined))) {
+      return candidate;
+    }
+  }
+}
@@ -0,0 +1,282 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, timingSafeEqual } from 'crypto';
+import { BaseTrigger, TriggerConfig, TriggerEvent, TriggerHandler } from './base';
+import { Job, JobQueue } from '../queue';
+
+export interface WebhookTriggerConfig extends TriggerConfig {
+  type: 'webhook';
+  // Port of the HTTP server (default: 8787)
+  port?: number;
+  // Interface to listen on (default: 127.0.0.1, i.e. this machine only)
+  host?: string;
+  // Shared secret every request must send (default: WEBHOOK_SECRET)
+  secret?: string;
+}
+
+export interface WebhookTriggerOptions {
+  // Queue the job status endpoint reads from
+  queue?: JobQueue;
+  // Profiles a request may ask for; any profile is accepted without a list
+  profiles?: string[];
+}
+
+export const DEFAULT_WEBHOOK_PORT = 8787;
+const DEFAULT_WEBHOOK_HOST = '127.0.0.1';
+const MAX_BODY_BYTES = 64 * 1024;
+
+export class HttpError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * A small HTTP server that accepts URLs from bookmarklets, shortcuts and
+ * other tools:
+ *
+ * - `POST /summarize` with `{ "url", "title"?, "profile"?, "tags"? }` queues
+ *   the article and answers with the job id
+ * - `GET /jobs/:id` answers with the job's state
+ *
+ * Every request must send the secret as `Authorization: Bearer <secret>` or
+ * `X-Webhook-Secret: <secret>`.
+ */
+export class WebhookTrigger extends BaseTrigger {
+  private server?: http.Server;
+  private lastRequest?: Date;
+
+  constructor(config: WebhookTriggerConfig, onTrigger: TriggerHandler, private options: WebhookTriggerOptions = {}) {
+    super(config, onTrigger);
+  }
+
+  private get webhookConfig(): WebhookTriggerConfig {
+    return this.config as WebhookTriggerConfig;
+  }
+
+  private get secret(): string | undefined {
+    return this.webhookConfig.secret || process.env.WEBHOOK_SECRET || undefined;
+  }
+
+  // The port the server listens on, once it has started
+  get port(): number | undefined {
+    return (this.server?.address() as AddressInfo | null)?.port;
+  }
+
+  async start(): Promise<void> {
+    if (this.server) {
+      console.log(`Webhook trigger ${this.config.id} is already running`);
+      return;
+    }
+    if (!this.secret) {
+      throw new Error(`Webhook trigger ${this.config.id} needs a secret: set 'secret' in its config or WEBHOOK_SECRET`);
+    }
+
+    const server = http.createServer((request, response) => {
+      void this.handleRequest(request, response);
+    });
+    const host = this.webhookConfig.host || DEFAULT_WEBHOOK_HOST;
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.webhookConfig.port ?? DEFAULT_WEBHOOK_PORT, host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+    this.server = server;
+    console.log(`🌐 Webhook trigger ${this.config.id} listening on http://${host}:${this.port}`);
+  }
+
+  async stop(): Promise<void> {
+    const server = this.server;
+    if (server) {
+      this.server = undefined;
+      // Idle keep-alive connections would otherwise hold the server open
+      server.closeIdleConnections();
+      await new Promise(resolve => server.close(resolve));
+      console.log(`Stopped webhook trigger ${this.config.id}`);
+    }
+  }
+
+  getStatus() {
+    return {
+      running: !!this.server,
+      lastCheck: this.lastRequest
+    };
+  }
+
+  private async handleRequest(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    try {
+      const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+      // CORS preflight, so a bookmarklet can post from any page
+      if (request.method === 'OPTIONS') {
+        this.send(response, 204);
+        return;
+      }
+      if (!this.isAuthorized(request)) {
+        throw new HttpError('Missing or wrong secret', 401);
+      }
+
+      if (pathname === '/summarize') {
+        this.requireMethod(request, 'POST');
+        this.lastRequest = new Date();
+        const { status, body } = await this.submit(await readJsonBody(request));
+        this.send(response, status, body);
+        return;
+      }
+
+      const jobPath = pathname.match(/^\/jobs\/([^/]+)$/);
+      if (jobPath) {
+        this.requireMethod(request, 'GET');
+        this.send(response, 200, await this.getJobStatus(decodeURIComponent(jobPath[1])));
+        return;
+      }
+
+      throw new HttpError(`Not found: ${pathname}`, 404);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      this.send(response, status, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private async submit(body: unknown): Promise<{ status: number; body: Record<string, unknown> }> {
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new HttpError('The request body must be a JSON object', 400);
+    }
+    const { url, title, profile, tags } = body as Record<string, unknown>;
+
+    if (typeof url !== 'string' || !isHttpUrl(url)) {
+      throw new HttpError("'url' must be an http(s) URL", 400);
+    }
+    if (title !== undefined && typeof title !== 'string') {
+      throw new HttpError("'title' must be a string", 400);
+    }
+    if (profile !== undefined && typeof profile !== 'string') {
+      throw new HttpError("'profile' must be a string", 400);
+    }
+    if (profile && this.options.profiles && !this.options.profiles.includes(profile)) {
+      throw new HttpError(`Unknown profile '${profile}'. Available profiles: ${this.options.profiles.join(', ')}`, 400);
+    }
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string'))) {
+      throw new HttpError("'tags' must be a list of strings", 400);
+    }
+
+    const event: TriggerEvent = {
+      url,
+      title: title || undefined,
+      timestamp: new Date(),
+      profile: profile || undefined,
+      tags: tags?.length ? tags : undefined
+    };
+    console.log(`🌐 Webhook trigger ${this.config.id} received ${url}`);
+    const result = await this.handleTriggerEvent(event);
+    if (!result.success) {
+      throw new HttpError(result.error || 'The article could not be accepted', 500);
+    }
+
+    // Without a queue the article was processed during the request
+    return result.jobId
+      ? { status: 202, body: { jobId: result.jobId, url, statusUrl: `/jobs/${result.jobId}` } }
+      : { status: 200, body: { state: 'done', url, savedPath: result.savedPath } };
+  }
+
+  private async getJobStatus(id: string): Promise<Record<string, unknown>> {
+    if (!this.options.queue) {
+      throw new HttpError('Jobs are not queued, so there is no job status', 404);
+    }
+
+    let job: Job | undefined;
+    try {
+      job = await this.options.queue.get(id);
+    } catch (error) {
+      // An ambiguous id prefix
+      throw new HttpError(error instanceof Error ? error.message : String(error), 400);
+    }
+    // Jobs of other triggers are none of the webhook's business
+    if (!job || job.triggerId !== this.config.id) {
+      throw new HttpError(`Job ${id} not found`, 404);
+    }
+
+    return {
+      jobId: job.id,
+      state: job.state,
+      url: job.event.url,
+      title: job.event.title,
+      profile: job.profile,
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      nextRunAt: job.nextRunAt,
+      lastError: job.lastError,
+      result: job.result
+    };
+  }
+
+  private isAuthorized(request: http.IncomingMessage): boolean {
+    const bearer = request.headers.authorization?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const header = request.headers['x-webhook-secret'];
+    const provided = bearer || (Array.isArray(header) ? header[0] : header);
+    return !!provided && secretsMatch(provided.trim(), this.secret!);
+  }
+
+  private requireMethod(request: http.IncomingMessage, method: string): void {
+    if (request.method !== method) {
+      throw new HttpError(`Method ${request.method} not allowed, use ${method}`, 405);
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body?: Record<string, unknown>): void {
+    response.writeHead(status, {
+      ...(body ? { 'Content-Type': 'application/json' } : {}),
+      'Access-Control-Allow-Origin': '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Authorization, Content-Type, X-Webhook-Secret'
+    });
+    response.end(body ? JSON.stringify(body) : undefined);
+  }
+}
+
+function readJsonBody(request: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      // The rest is read and dropped, so the client still gets the error response
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(`The request body is larger than ${MAX_BODY_BYTES} bytes`, 413));
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    request.on('end', () => {
+      if (size > MAX_BODY_BYTES) {
+        return;
+      }
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError('The request body is not valid JSON', 400));
+      }
+    });
+    request.on('error', reject);
+  });
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const protocol = new URL(value).protocol;
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Comparing hashes keeps the comparison constant-time whatever the lengths
+function secretsMatch(provided: string, secret: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(secret));
+}
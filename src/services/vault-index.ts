@@ -0,0 +1,194 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|ref|ref_src)$/i;
+
+/**
+ * Normalize a URL so that links to the same article compare equal: http and
+ * https are treated alike, the host is lowercased, `www.`, the fragment,
+ * tracking parameters and a trailing slash are dropped, and the remaining
+ * parameters are sorted.
+ * Non-web URLs (local files, stdin) are returned unchanged.
+ */
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return url.trim();
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    return parsed.href;
+  }
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([key]) => !TRACKING_PARAMS.test(key))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const query = new URLSearchParams(params).toString();
+  const pathname = parsed.pathname.replace(/\/+$/, '');
+  const host = parsed.host.toLowerCase().replace(/^www\./, '');
+
+  return `https://${host}${pathname}${query ? `?${query}` : ''}`;
+}
+
+export interface IndexedNote {
+  path: string;
+  url: string;
+  created?: string;
+}
+
+// Names of the frontmatter properties the index reads
+export interface IndexedProperties {
+  url?: string;
+  created?: string;
+  type?: string;
+}
+
+// Notes of this type hold a copy of an article rather than its summary
+const CLIP_NOTE_TYPE = 'clip';
+
+/**
+ * Index of the notes in a vault by the canonical form of their `url:`
+ * frontmatter property. The vault is scanned on first use; notes saved
+ * through `add()` are indexed without rescanning.
+ */
+export class VaultIndex {
+  private notes?: Map<string, IndexedNote>;
+
+  constructor(private vaultPath: string, private properties: IndexedProperties = {}) {}
+
+  async find(url: string): Promise<IndexedNote | undefined> {
+    const notes = await this.load();
+    const key = canonicalizeUrl(url);
+    const note = notes.get(key);
+    if (note && !(await fileExists(note.path))) {
+      // The note was moved or deleted since the scan
+      this.notes = undefined;
+      return (await this.load()).get(key);
+    }
+    return note;
+  }
+
+  /**
+   * Other notes from the same site, most recently created first.
+   */
+  async findRelated(url: string, limit: number): Promise<IndexedNote[]> {
+    const key = canonicalizeUrl(url);
+    const host = getHost(key);
+    if (!host) {
+      return [];
+    }
+    const notes = [...(await this.load()).entries()]
+      .filter(([noteKey]) => noteKey !== key && getHost(noteKey) === host)
+      .map(([, note]) => note);
+    return notes
+      .sort((a, b) => (b.created || '').localeCompare(a.created || ''))
+      .slice(0, limit);
+  }
+
+  async add(note: IndexedNote): Promise<void> {
+    const notes = await this.load();
+    notes.set(canonicalizeUrl(note.url), note);
+  }
+
+  private async load(): Promise<Map<string, IndexedNote>> {
+    if (!this.notes) {
+      this.notes = new Map();
+      for (const file of await listMarkdownFiles(this.vaultPath)) {
+        const note = await readIndexedNote(file, this.properties);
+        if (note) {
+          this.notes.set(canonicalizeUrl(note.url), note);
+        }
+      }
+    }
+    return this.notes;
+  }
+}
+
+/**
+ * Read the `url` and `created` properties from a note's frontmatter. Clip
+ * notes are not indexed.
+ */
+export async function readIndexedNote(filePath: string, properties: IndexedProperties = {}): Promise<IndexedNote | undefined> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+  const frontmatter = content.match(/^---\r?\n([\s\S]*?)\r?\n---/);
+  if (!frontmatter) {
+    return undefined;
+  }
+  if (readFrontmatterProperty(frontmatter[1], properties.type || 'type') === CLIP_NOTE_TYPE) {
+    return undefined;
+  }
+  const url = readFrontmatterProperty(frontmatter[1], properties.url || 'url');
+  const created = readFrontmatterProperty(frontmatter[1], properties.created || 'created');
+  return url ? { path: filePath, url, created } : undefined;
+}
+
+/**
+ * Pattern for the line of a scalar frontmatter property; the key may be quoted.
+ * Group 1 is everything up to and including the colon, group 2 the value.
+ */
+export function frontmatterPropertyPattern(name: string): RegExp {
+  const key = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^((?:${key}|"${key}"|'${key}'):)[ \\t]*(.*)$`, 'm');
+}
+
+function readFrontmatterProperty(frontmatter: string, name: string): string | undefined {
+  const match = frontmatter.match(frontmatterPropertyPattern(name));
+  const value = match?.[2].trim();
+  if (!value) {
+    return undefined;
+  }
+  if (value.startsWith('"')) {
+    try {
+      return JSON.parse(value);
+    } catch {
+      // Fall through to plain quote stripping
+    }
+  }
+  return value.replace(/^'(.*)'$/, (_, inner) => inner.replace(/''/g, "'")).replace(/^"(.*)"$/, '$1');
+}
+
+/**
+ * All `.md` files below a folder, skipping hidden folders such as `.obsidian`.
+ */
+export async function listMarkdownFiles(dir: string): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const files: string[] = [];
+  for (const entry of entries) {
+    // Skip .obsidian, .trash and other hidden folders
+    if (entry.name.startsWith('.')) {
+      continue;
+    }
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listMarkdownFiles(fullPath));
+    } else if (entry.isFile() && entry.name.endsWith('.md')) {
+      files.push(fullPath);
+    }
+  }
+  return files;
+}
+
+function getHost(canonicalUrl: string): string | undefined {
+  return canonicalUrl.match(/^https:\/\/([^/?]+)/)?.[1];
+}
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -1,20 +1,50 @@
 import * as fs from 'fs/promises';
 import * as path from 'path';
-import { ObsidianConfig } from '../services/obsidian';
+import { FetcherConfig, FETCH_MODES } from '../services/fetcher';
+import { DUPLICATE_POLICIES, ObsidianConfig } from '../services/obsidian';
 import { SummaryProfile } from '../services/summarizer';
-import { TriggerConfig } from '../services/triggers';
+import { PROVIDER_NAMES, ProviderConfig, ProviderName, ProviderRegistry, parseModelSpec } from '../services/providers';
+import { PageTriggerConfig, TriggerConfig, validateFilters, validatePageTrigger } from '../services/triggers';
+import { RetryOptions } from './retry';
+import { QueueOptions } from '../services/queue';
+import { validateRoutes } from '../services/routing';
+import { CLIP_MODES } from '../services/clipper';
+import { SinkConfig, validateSinks } from '../services/sinks';
+
+export interface AIConfig {
+  // Default provider, used when the model has no "provider:" prefix
+  provider: ProviderName;
+  // API key and base URL of the default provider
+  apiKey: string;
+  model: string;
+  baseUrl?: string;
+  // Per-provider settings, e.g. { "anthropic": { "apiKey": "..." }, "ollama": { "baseUrl": "http://localhost:11434" } }
+  providers?: Partial<Record<ProviderName, ProviderConfig>>;
+  // Context window sizes (tokens) by model name, overriding the built-in table
+  contextWindows?: Record<string, number>;
+  maxOutputTokens?: number;
+  // Models tried in order when the main model keeps failing, e.g. ["openai:gpt-4o-mini"]
+  fallbackModels?: string[];
+  // Per-request timeout in milliseconds (default 180000, 0 = none)
+  timeoutMs?: number;
+  retry?: RetryOptions;
+}
 
 export interface AppConfig {
-  ai: {
-    provider: 'openai' | 'openrouter';
-    apiKey: string;
-    model: string;
-    baseUrl?: string;
-  };
+  ai: AIConfig;
   obsidian: ObsidianConfig;
+  // Extra destinations by name, e.g. { "wiki": { "type": "markdown", "directory": "/srv/wiki/news" } }
+  sinks?: Record<string, SinkConfig>;
+  // Sinks used when a trigger or command names none (default: ["obsidian"])
+  defaultSinks?: string[];
+  fetcher?: FetcherConfig;
   prompts: Record<string, SummaryProfile>;
   defaultPrompt: string;
   triggers?: TriggerConfig[];
+  // Directory for persistent runtime state such as seen RSS items (default: .state, or STATE_DIR)
+  stateDir?: string;
+  // Retry policy for queued trigger jobs
+  queue?: QueueOptions;
 }
 
 export class ConfigManager {
@@ -43,6 +73,10 @@ export class ConfigManager {
       this.config!.prompts = await this.loadProfiles();
     }
 
+    for (const [key, profile] of Object.entries(this.config!.prompts)) {
+      profile.id = profile.id || key;
+    }
+
     return this.config!;
   }
 
@@ -65,6 +99,10 @@ export class ConfigManager {
         templateName: 'default',
         filenameFormat: '{date}-{domain}'
       },
+      fetcher: {
+        mode: 'auto',
+        domains: {}
+      },
       prompts: {},
       defaultPrompt: 'default',
       triggers: []
@@ -93,6 +131,22 @@ export class ConfigManager {
             console.warn(`Could not load userPrompt file ${typedProfile.userPromptFile} for profile ${key}`);
           }
         }
+        if (typedProfile.outputSchemaFile && !typedProfile.outputSchema) {
+          try {
+            const schemaPath = path.join(__dirname, '../../templates/schemas', typedProfile.outputSchemaFile);
+            typedProfile.outputSchema = JSON.parse(await fs.readFile(schemaPath, 'utf8'));
+          } catch (error) {
+            console.warn(`Could not load outputSchema file ${typedProfile.outputSchemaFile} for profile ${key}`);
+          }
+        }
+        if (typedProfile.noteTemplateFile && typedProfile.noteTemplate === undefined) {
+          try {
+            const templatePath = path.join(__dirname, '../../templates/notes', typedProfile.noteTemplateFile);
+            typedProfile.noteTemplate = await fs.readFile(templatePath, 'utf8');
+          } catch (error) {
+            console.warn(`Could not load noteTemplate file ${typedProfile.noteTemplateFile} for profile ${key}`);
+          }
+        }
       }
       
       return profiles;
@@ -110,6 +164,18 @@ export class ConfigManager {
     }
   }
 
+  /**
+   * Replace the triggers in the config file. Only the `triggers` key is
+   * rewritten, so defaults filled in at load time (e.g. the template
+   * profiles) do not end up in the file.
+   */
+  async saveTriggers(triggers: TriggerConfig[]): Promise<void> {
+    const config = await this.loadConfig();
+    const fileConfig = JSON.parse(await fs.readFile(this.configPath, 'utf8'));
+    await fs.writeFile(this.configPath, JSON.stringify({ ...fileConfig, triggers }, null, 2), 'utf8');
+    config.triggers = triggers;
+  }
+
   async updateConfig(updates: Partial<AppConfig>): Promise<AppConfig> {
     const config = await this.loadConfig();
     const updatedConfig = { ...config, ...updates };
@@ -117,13 +183,32 @@ export class ConfigManager {
     return updatedConfig;
   }
 
-  async validateConfig(): Promise<{ valid: boolean; errors: string[] }> {
+  async validateConfig(): Promise<{ valid: boolean; errors: string[]; warnings: string[] }> {
     const config = await this.loadConfig();
     const errors: string[] = [];
+    const warnings: string[] = [];
 
-    // Check AI API key
-    if (!config.ai.apiKey) {
-      errors.push('AI API key is not configured. Set OPENAI_API_KEY or OPENROUTER_API_KEY environment variable or update config.json');
+    // Check AI provider and API key
+    if (config.ai.provider && !PROVIDER_NAMES.includes(config.ai.provider)) {
+      errors.push(`Unknown AI provider '${config.ai.provider}'. Use one of: ${PROVIDER_NAMES.join(', ')}`);
+    } else {
+      const registry = ProviderRegistry.fromConfig(config.ai);
+      const triggerModels = (config.triggers || []).map(trigger => trigger.model).filter((model): model is string => !!model);
+      const providers = new Set([config.ai.model, ...(config.ai.fallbackModels || []), ...triggerModels]
+        .map(model => parseModelSpec(model, registry.defaultProvider).provider));
+      for (const provider of providers) {
+        if (registry.requiresApiKey(provider) && !registry.getConfig(provider).apiKey) {
+          errors.push(`AI API key for provider '${provider}' is not configured. Set its API key environment variable (e.g. OPENROUTER_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY) or update config.json`);
+        }
+      }
+    }
+
+    // Check retry settings
+    const retry = config.ai.retry || {};
+    for (const [key, value] of Object.entries({ ...retry, timeoutMs: config.ai.timeoutMs })) {
+      if (value !== undefined && (typeof value !== 'number' || value < 0)) {
+        errors.push(`Invalid AI setting '${key}': must be a non-negative number`);
+      }
     }
 
     // Check Obsidian vault path
@@ -140,6 +225,94 @@ export class ConfigManager {
       }
     }
 
+    const duplicatePolicy = config.obsidian.duplicatePolicy;
+    if (duplicatePolicy && !DUPLICATE_POLICIES.includes(duplicatePolicy)) {
+      errors.push(`Invalid duplicate policy '${duplicatePolicy}'. Use one of: ${DUPLICATE_POLICIES.join(', ')}`);
+    }
+
+    const clipMode = config.obsidian.clip?.mode;
+    if (clipMode && !CLIP_MODES.includes(clipMode)) {
+      errors.push(`Invalid clip mode '${clipMode}'. Use one of: ${CLIP_MODES.join(', ')}`);
+    }
+
+    const maxFilenameBytes = config.obsidian.maxFilenameBytes;
+    if (maxFilenameBytes !== undefined && (typeof maxFilenameBytes !== 'number' || maxFilenameBytes < 20 || maxFilenameBytes > 240)) {
+      errors.push('Invalid obsidian.maxFilenameBytes: must be a number between 20 and 240');
+    }
+
+    // Check routing rules; a rule that can never match is a warning, not an error
+    const routes = config.obsidian.routes;
+    if (routes !== undefined && !Array.isArray(routes)) {
+      errors.push('Invalid obsidian.routes: must be a list of rules');
+    } else if (routes) {
+      warnings.push(...validateRoutes(routes, {
+        profiles: Object.entries(config.prompts).flatMap(([key, profile]) => [key, profile.name]),
+        triggers: (config.triggers || []).map(trigger => trigger.id)
+      }));
+    }
+
+    for (const [property, name] of Object.entries(config.obsidian.properties || {})) {
+      if (name !== false && (typeof name !== 'string' || !name.trim())) {
+        errors.push(`Invalid frontmatter property name for '${property}': use a non-empty string, or false to omit it`);
+      }
+    }
+
+    // Check output sinks and the sinks triggers send to
+    errors.push(...validateSinks(config, (config.triggers || []).map(trigger => ({
+      label: `Trigger '${trigger.id}'`,
+      sinks: trigger.sinks
+    }))));
+
+    // Every named vault must exist, like the main one
+    for (const [name, sink] of Object.entries(config.sinks || {})) {
+      if (sink?.type === 'obsidian' && sink.vaultPath) {
+        const stats = await fs.stat(sink.vaultPath).catch(() => undefined);
+        if (!stats?.isDirectory()) {
+          errors.push(`Vault path of sink '${name}' is not a directory: ${sink.vaultPath}`);
+        }
+      }
+    }
+
+    // Check per-trigger overrides
+    for (const trigger of config.triggers || []) {
+      if (trigger.profile && !config.prompts[trigger.profile]) {
+        warnings.push(`Trigger '${trigger.id}' uses unknown profile '${trigger.profile}'; the default prompt '${config.defaultPrompt}' is used instead`);
+      }
+      if (trigger.tags !== undefined && (!Array.isArray(trigger.tags) || trigger.tags.some(tag => typeof tag !== 'string'))) {
+        errors.push(`Invalid tags for trigger '${trigger.id}': must be a list of strings`);
+      }
+      if (trigger.type === 'watch' && (typeof trigger.path !== 'string' || !trigger.path.trim())) {
+        errors.push(`Watch trigger '${trigger.id}' needs a 'path' to an inbox note or folder`);
+      }
+      if (trigger.type === 'page') {
+        errors.push(...validatePageTrigger(trigger as PageTriggerConfig));
+      }
+      if (trigger.type === 'webhook') {
+        if (!trigger.secret && !process.env.WEBHOOK_SECRET) {
+          errors.push(`Webhook trigger '${trigger.id}' needs a 'secret' or WEBHOOK_SECRET`);
+        }
+        if (trigger.port !== undefined && (!Number.isInteger(trigger.port) || trigger.port < 0 || trigger.port > 65535)) {
+          errors.push(`Invalid port for webhook trigger '${trigger.id}': must be a number between 0 and 65535`);
+        }
+      }
+      if (trigger.filters) {
+        errors.push(...validateFilters(trigger.filters, `Trigger '${trigger.id}'`));
+      }
+      for (const key of ['outputFolder', 'model'] as const) {
+        if (trigger[key] !== undefined && (typeof trigger[key] !== 'string' || !trigger[key].trim())) {
+          errors.push(`Invalid ${key} for trigger '${trigger.id}': must be a non-empty string`);
+        }
+      }
+    }
+
+    // Check fetch modes
+    const fetchModes = [config.fetcher?.mode, ...Object.values(config.fetcher?.domains || {})];
+    for (const mode of fetchModes) {
+      if (mode && !FETCH_MODES.includes(mode)) {
+        errors.push(`Invalid fetch mode '${mode}'. Use one of: ${FETCH_MODES.join(', ')}`);
+      }
+    }
+
     // Check default prompt exists
     if (!config.prompts[config.defaultPrompt]) {
       errors.push(`Default prompt '${config.defaultPrompt}' not found in prompts`);
@@ -147,7 +320,8 @@ export class ConfigManager {
 
     return {
       valid: errors.length === 0,
-      errors
+      errors,
+      warnings
     };
   }
 
@@ -0,0 +1,72 @@
+export interface DiffOptions {
+  fromLabel?: string;
+  toLabel?: string;
+  // Unchanged lines shown around each change
+  context?: number;
+}
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Line-based unified diff of two texts, or '' when they are equal. Uses a
+ * longest-common-subsequence table, which is fine for note-sized inputs.
+ */
+export function createUnifiedDiff(before: string, after: string, options: DiffOptions = {}): string {
+  if (before === after) {
+    return '';
+  }
+  const context = options.context ?? 3;
+  const lines = diffLines(before.split('\n'), after.split('\n'));
+
+  let output = `--- ${options.fromLabel || 'before'}\n+++ ${options.toLabel || 'after'}\n`;
+  const changed = lines.map((line, index) => (line.type !== ' ' ? index : -1)).filter(index => index !== -1);
+
+  // Group changes whose context overlaps into one hunk
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1] - changed[hunkEnd] <= context * 2 + 1) {
+      hunkEnd++;
+    }
+    const from = Math.max(0, changed[hunkStart] - context);
+    const to = Math.min(lines.length, changed[hunkEnd] + context + 1);
+    const hunk = lines.slice(from, to);
+
+    const oldStart = lines.slice(0, from).filter(line => line.type !== '+').length + 1;
+    const newStart = lines.slice(0, from).filter(line => line.type !== '-').length + 1;
+    const oldCount = hunk.filter(line => line.type !== '+').length;
+    const newCount = hunk.filter(line => line.type !== '-').length;
+    output += `@@ -${oldStart},${oldCount} +${newStart},${newCount} @@\n`;
+    output += hunk.map(line => `${line.type}${line.text}`).join('\n') + '\n';
+
+    hunkStart = hunkEnd + 1;
+  }
+  return output;
+}
+
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length && j < after.length) {
+    if (before[i] === after[j]) {
+      result.push({ type: ' ', text: before[i++] });
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: '-', text: before[i++] });
+    } else {
+      result.push({ type: '+', text: after[j++] });
+    }
+  }
+  while (i < before.length) result.push({ type: '-', text: before[i++] });
+  while (j < after.length) result.push({ type: '+', text: after[j++] });
+  return result;
+}
@@ -0,0 +1,78 @@
+// Characters that are invalid in filenames on Windows, macOS or Linux, or that
+// Obsidian does not allow in note names because they break links: []#^|\:/
+const ILLEGAL_CHARACTERS = /[<>:"/\\|?*\[\]#^\u0000-\u001f\u007f]/g;
+
+// Device names Windows reserves regardless of extension
+const RESERVED_NAMES = /^(con|prn|aux|nul|com[0-9¹²³]|lpt[0-9¹²³])(\..*)?$/i;
+
+// Most filesystems allow 255 bytes; leave room for a "-v2" suffix and ".md"
+export const DEFAULT_MAX_FILENAME_BYTES = 200;
+
+export interface SanitizeOptions {
+  maxBytes?: number;
+}
+
+/**
+ * Remove the characters no platform or Obsidian accepts in a name, keeping
+ * everything else (accents, CJK, emoji). Used for values substituted into
+ * filename templates, before the whole name goes through sanitizeFilename.
+ */
+export function stripIllegalCharacters(value: string): string {
+  return value.normalize('NFC')
+    // Line breaks and tabs become spaces rather than gluing words together
+    .replace(/\s+/g, ' ')
+    .replace(ILLEGAL_CHARACTERS, '')
+    .replace(/ {2,}/g, ' ')
+    .trim();
+}
+
+/**
+ * Make a complete name (without extension) safe as a file or folder name:
+ * Unicode NFC, no illegal characters, no leading dots (hidden files), no
+ * trailing dots or spaces (Windows), no reserved device names, and at most
+ * maxBytes of UTF-8, cut at a word boundary where possible.
+ */
+export function sanitizeFilename(name: string, options: SanitizeOptions = {}): string {
+  let safe = stripIllegalCharacters(name).replace(/^\.+/, '');
+  safe = truncateToBytes(safe, options.maxBytes ?? DEFAULT_MAX_FILENAME_BYTES);
+  safe = safe.replace(/[. ]+$/, '');
+  if (RESERVED_NAMES.test(safe)) {
+    safe = `${safe}_`;
+  }
+  return safe;
+}
+
+/**
+ * Shorten text to at most maxBytes of UTF-8 without splitting a character
+ * (including emoji sequences), preferring to cut at a space when that keeps
+ * at least half of the allowed length.
+ */
+export function truncateToBytes(text: string, maxBytes: number): string {
+  if (Buffer.byteLength(text, 'utf8') <= maxBytes) {
+    return text;
+  }
+
+  let result = '';
+  let bytes = 0;
+  for (const segment of splitCharacters(text)) {
+    const size = Buffer.byteLength(segment, 'utf8');
+    if (bytes + size > maxBytes) {
+      break;
+    }
+    result += segment;
+    bytes += size;
+  }
+
+  const lastSpace = result.lastIndexOf(' ');
+  if (lastSpace > 0 && Buffer.byteLength(result.slice(0, lastSpace), 'utf8') >= maxBytes / 2) {
+    result = result.slice(0, lastSpace);
+  }
+  return result.trimEnd();
+}
+
+// User-visible characters, keeping accents and emoji sequences (flags, ZWJ families, skin tones) together
+const graphemes = new Intl.Segmenter(undefined, { granularity: 'grapheme' });
+
+function splitCharacters(text: string): string[] {
+  return Array.from(graphemes.segment(text), ({ segment }) => segment);
+}
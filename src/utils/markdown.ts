@@ -0,0 +1,128 @@
+/**
+ * Minimal markdown to HTML conversion for the summaries the models write:
+ * headings, paragraphs, lists, block quotes (including Obsidian callouts),
+ * fenced code, rules, emphasis, inline code, links and images. Everything
+ * else is escaped and shown as text, so the output never contains raw HTML
+ * from the summary.
+ */
+export function markdownToHtml(markdown: string): string {
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  const html: string[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      html.push(`<p>${renderInline(paragraph.join('\n')).replace(/\n/g, '<br>\n')}</p>`);
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(/^(```|~~~)\s*([\w+-]*)/);
+    if (fence) {
+      flushParagraph();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].startsWith(fence[1])) {
+        code.push(lines[i]);
+      }
+      const language = fence[2] ? ` class="language-${fence[2]}"` : '';
+      html.push(`<pre><code${language}>${escapeHtml(code.join('\n'))}</code></pre>`);
+      continue;
+    }
+
+    const heading = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (heading) {
+      flushParagraph();
+      html.push(`<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`);
+      continue;
+    }
+
+    if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph();
+      html.push('<hr>');
+      continue;
+    }
+
+    if (/^>/.test(line)) {
+      flushParagraph();
+      const quoted: string[] = [];
+      for (; i < lines.length && /^>/.test(lines[i]); i++) {
+        quoted.push(lines[i].replace(/^> ?/, ''));
+      }
+      i--;
+      // "[!info] Title" callouts become a titled quote
+      const callout = quoted[0].match(/^\[!(\w+)\][+-]?\s*(.*)$/);
+      if (callout) {
+        quoted[0] = `**${callout[2] || callout[1]}**`;
+      }
+      html.push(`<blockquote>\n${markdownToHtml(quoted.join('\n'))}\n</blockquote>`);
+      continue;
+    }
+
+    const listItem = line.match(/^\s*([-*+]|\d+[.)])\s+/);
+    if (listItem) {
+      flushParagraph();
+      const ordered = /\d/.test(listItem[1]);
+      const items: string[] = [];
+      for (; i < lines.length; i++) {
+        const item = lines[i].match(/^\s*([-*+]|\d+[.)])\s+(.*)$/);
+        if (item && /\d/.test(item[1]) === ordered) {
+          items.push(item[2]);
+        } else if (items.length > 0 && /^\s{2,}\S/.test(lines[i])) {
+          // Continuation of the previous item
+          items[items.length - 1] += ` ${lines[i].trim()}`;
+        } else {
+          break;
+        }
+      }
+      i--;
+      const tag = ordered ? 'ol' : 'ul';
+      html.push(`<${tag}>\n${items.map(item => `<li>${renderInline(item)}</li>`).join('\n')}\n</${tag}>`);
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line);
+    }
+  }
+  flushParagraph();
+
+  return html.join('\n');
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function renderInline(text: string): string {
+  // Inline code is set aside first so its content is not formatted
+  const code: string[] = [];
+  let html = escapeHtml(text).replace(/`([^`]+)`/g, (_, content: string) => {
+    code.push(`<code>${content}</code>`);
+    return `\u0000${code.length - 1}\u0000`;
+  });
+
+  html = html
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)\)/g, (_, alt, url) => `<img src="${safeUrl(url)}" alt="${alt}">`)
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) => `<a href="${safeUrl(url)}">${label}</a>`)
+    // Wikilinks have no target outside the vault; keep their text
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target, label) => label || target)
+    .replace(/\*\*(.+?)\*\*|__(.+?)__/g, (_, a, b) => `<strong>${a ?? b}</strong>`)
+    .replace(/(^|[^\w*])\*(?!\s)(.+?)\*(?!\w)|(^|\W)_(?!\s)(.+?)_(?!\w)/g,
+      (_, before1, a, before2, b) => `${before1 ?? before2}<em>${a ?? b}</em>`);
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, index) => code[Number(index)]);
+}
+
+// Only web and relative links; javascript: and similar URLs are dropped
+function safeUrl(url: string): string {
+  return /^(https?:|mailto:|\/|\.|#)/i.test(url) || !/^[a-z][\w+.-]*:/i.test(url) ? url : '#';
+}
@@ -0,0 +1,27 @@
+export interface RetryOptions {
+  // Retries after the first attempt (0 = try once)
+  maxRetries?: number;
+  initialDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 3,
+  initialDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Exponential backoff with jitter: the delay doubles per attempt (0-based),
+ * is capped at maxDelayMs, and is then randomized to 50-100% of that value
+ * so that concurrent callers do not retry in lockstep.
+ */
+export function getBackoffDelay(attempt: number, options: RetryOptions = {}): number {
+  const { initialDelayMs, maxDelayMs } = { ...DEFAULT_RETRY_OPTIONS, ...options };
+  const delay = Math.min(maxDelayMs, initialDelayMs * Math.pow(2, attempt));
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
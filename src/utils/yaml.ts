@@ -0,0 +1,74 @@
+/**
+ * Minimal YAML serializer for note frontmatter: mappings, lists and scalars.
+ * Strings are written plain when YAML reads them back unchanged, and as
+ * double-quoted (JSON-escaped) strings otherwise. Undefined values are omitted.
+ */
+export function toYaml(data: Record<string, unknown>): string {
+  return serializeMapping(data, 0);
+}
+
+function serializeMapping(data: Record<string, unknown>, indent: number): string {
+  const pad = ' '.repeat(indent);
+  let yaml = '';
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue;
+    yaml += `${pad}${formatKey(key)}:${serializeValue(value, indent)}\n`;
+  }
+  return yaml;
+}
+
+/**
+ * The text after "key:", including the leading space or line break.
+ */
+function serializeValue(value: unknown, indent: number): string {
+  if (Array.isArray(value)) {
+    const items = value.filter(item => item !== undefined);
+    if (items.length === 0) return ' []';
+    const pad = ' '.repeat(indent + 2);
+    return items.map(item => {
+      if (isMapping(item) && Object.keys(item).length > 0) {
+        // The first key goes on the "- " line, the rest align under it
+        return `\n${pad}- ${serializeMapping(item, indent + 4).trimStart().replace(/\n$/, '')}`;
+      }
+      return `\n${pad}-${serializeValue(item, indent + 2)}`;
+    }).join('');
+  }
+  if (isMapping(value)) {
+    if (Object.keys(value).length === 0) return ' {}';
+    return `\n${serializeMapping(value, indent + 2).replace(/\n$/, '')}`;
+  }
+  return ` ${formatScalar(value)}`;
+}
+
+export function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (value instanceof Date) return isNaN(value.getTime()) ? 'null' : value.toISOString();
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null';
+  if (typeof value === 'boolean') return String(value);
+
+  const text = String(value);
+  return isPlainSafe(text) ? text : JSON.stringify(text);
+}
+
+function formatKey(key: string): string {
+  return /^[A-Za-z_][\w-]*$/.test(key) ? key : JSON.stringify(key);
+}
+
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+}
+
+// Plain scalars YAML would read as booleans, null or numbers
+const NON_STRING_SCALAR = /^(true|false|yes|no|y|n|on|off|null|~|[-+]?(\d[\d_]*)?\.?\d+(e[-+]?\d+)?|0x[\da-f]+|0o[0-7]+|[-+]?\.(inf|nan))$/i;
+
+function isPlainSafe(text: string): boolean {
+  return text.length > 0 &&
+    // Indicator characters cannot start a plain scalar
+    !/^[-?:,\[\]{}#&*!|>'"%@`]/.test(text) &&
+    // Surrounding whitespace would be trimmed
+    text === text.trim() &&
+    // ": " and " #" start a mapping value and a comment
+    !/: |:$| #/.test(text) &&
+    !/[\n\r\t\u0000-\u001f\u007f]/.test(text) &&
+    !NON_STRING_SCALAR.test(text);
+}
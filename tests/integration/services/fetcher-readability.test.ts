@@ -28,7 +28,7 @@ describe('ContentFetcher Integration - Readability vs Selector Approach', () =>
     const puppeteer = require('puppeteer');
     puppeteer.launch = jest.fn().mockResolvedValue(mockBrowser);
     
-    fetcher = new ContentFetcher();
+    fetcher = new ContentFetcher({ mode: 'browser' });
     (fetcher as any).browser = mockBrowser;
     // Initialize turndown service mock
     (fetcher as any).turndownService = {
@@ -0,0 +1,86 @@
+import {
+  DEFAULT_CONTEXT_WINDOW,
+  estimateTokens,
+  getModelContextWindow,
+  splitMarkdown
+} from '../../../src/services/chunker';
+
+describe('chunker', () => {
+  describe('getModelContextWindow', () => {
+    test('should strip provider prefixes and prefer the most specific entry', () => {
+      expect(getModelContextWindow('google/gemini-2.5-pro')).toBe(1048576);
+      expect(getModelContextWindow('gpt-4o-mini')).toBe(128000);
+      expect(getModelContextWindow('gpt-4')).toBe(8192);
+      expect(getModelContextWindow('anthropic/claude-sonnet-4')).toBe(200000);
+    });
+
+    test('should fall back to the default for unknown models', () => {
+      expect(getModelContextWindow('some-new-model')).toBe(DEFAULT_CONTEXT_WINDOW);
+    });
+
+    test('should apply overrides, including full provider-prefixed names', () => {
+      expect(getModelContextWindow('some-new-model', { 'some-new': 4096 })).toBe(4096);
+      expect(getModelContextWindow('openrouter/custom', { 'openrouter/custom': 2048 })).toBe(2048);
+    });
+  });
+
+  describe('estimateTokens', () => {
+    test('should count about four Latin characters per token', () => {
+      expect(estimateTokens('a'.repeat(400))).toBe(100);
+    });
+
+    test('should count Hangul and CJK characters as one token each', () => {
+      expect(estimateTokens('인공지능')).toBe(4);
+      expect(estimateTokens('人工智能')).toBe(4);
+    });
+  });
+
+  describe('splitMarkdown', () => {
+    const paragraph = (label: string) => `${label} ${'word '.repeat(60).trim()}.`;
+
+    test('should return short content unchanged as a single chunk', () => {
+      expect(splitMarkdown('# Title\n\nShort body.', 1000)).toEqual(['# Title\n\nShort body.']);
+    });
+
+    test('should split on headings before paragraphs', () => {
+      const markdown = [
+        '# Part A', paragraph('A1'),
+        '# Part B', paragraph('B1'),
+        '# Part C', paragraph('C1')
+      ].join('\n\n');
+
+      const chunks = splitMarkdown(markdown, 100);
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks[0].startsWith('# Part A')).toBe(true);
+      expect(chunks[1].startsWith('# Part B')).toBe(true);
+      expect(chunks[2].startsWith('# Part C')).toBe(true);
+    });
+
+    test('should split long sections by paragraph and keep every chunk within budget', () => {
+      const markdown = ['# Long Section', ...Array.from({ length: 10 }, (_, i) => paragraph(`P${i}`))].join('\n\n');
+
+      const chunks = splitMarkdown(markdown, 200);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(200));
+      expect(chunks.join('\n\n')).toContain('P9 word');
+    });
+
+    test('should split oversized paragraphs without losing text', () => {
+      const sentences = Array.from({ length: 40 }, (_, i) => `Sentence number ${i} has some words in it.`).join(' ');
+
+      const chunks = splitMarkdown(sentences, 50);
+
+      chunks.forEach(chunk => expect(estimateTokens(chunk)).toBeLessThanOrEqual(50));
+      expect(chunks.join(' ').replace(/\s+/g, ' ')).toBe(sentences);
+    });
+
+    test('should hard-split text without sentence boundaries', () => {
+      const chunks = splitMarkdown('가'.repeat(250), 100);
+
+      expect(chunks).toHaveLength(3);
+      expect(chunks.join('')).toBe('가'.repeat(250));
+    });
+  });
+});
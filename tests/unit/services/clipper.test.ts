@@ -0,0 +1,85 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { ArticleClipper } from '../../../src/services/clipper';
+import { ArticleContent } from '../../../src/services/fetcher';
+
+describe('ArticleClipper', () => {
+  let vaultPath: string;
+  let fetchMock: jest.SpyInstance;
+
+  const article = (markdownContent: string): ArticleContent => ({
+    url: 'https://example.com/posts/ai',
+    title: 'AI Post',
+    markdownContent
+  });
+
+  const imageResponse = (contentType: string, body = 'image-bytes') =>
+    new Response(body, { status: 200, headers: { 'content-type': contentType } });
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'clipper-'));
+    fetchMock = jest.spyOn(global, 'fetch');
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  test('should download images once and rewrite them to local embeds', async () => {
+    fetchMock.mockImplementation(async () => imageResponse('image/png'));
+    const clipper = new ArticleClipper(vaultPath, { attachmentsFolder: 'Assets/Clips' });
+
+    const clip = await clipper.clip(article('Intro\n\n![Chart | Q1](/img/chart.png "Chart")\n\nText\n\n![](https://cdn.example.com/img/chart.png)\n\n![again](/img/chart.png)'));
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[0][0]).toBe('https://example.com/img/chart.png');
+    expect(clip.images).toHaveLength(2);
+    expect(clip.images[0]).toMatch(/^Assets\/Clips\/[0-9a-f]{16}\.png$/);
+    expect(clip.markdown).toBe(`Intro\n\n![[${clip.images[0]}|Chart  Q1]]\n\nText\n\n![[${clip.images[1]}]]\n\n![[${clip.images[0]}|again]]`);
+    expect(await fs.readFile(path.join(vaultPath, clip.images[0]), 'utf8')).toBe('image-bytes');
+  });
+
+  test('should keep remote links for images that cannot be saved', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('missing', { status: 404 }))
+      .mockResolvedValueOnce(imageResponse('text/html', '<html>'))
+      .mockResolvedValueOnce(imageResponse('image/jpeg', 'x'.repeat(20)));
+    const clipper = new ArticleClipper(vaultPath, { maxImageBytes: 10 });
+    const markdown = '![a](https://example.com/a.png) ![b](https://example.com/b.png) ![c](https://example.com/c.jpg) ![d](data:image/png;base64,AAAA)';
+
+    const clip = await clipper.clip(article(markdown));
+
+    expect(clip).toEqual({ markdown, images: [] });
+    expect(console.warn).toHaveBeenCalledTimes(3);
+  });
+
+  test('should stop reading an image without content-length once it passes the limit', async () => {
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(new Uint8Array(1024));
+      }
+    });
+    fetchMock.mockResolvedValue(new Response(endless, { status: 200, headers: { 'content-type': 'image/png' } }));
+    const clipper = new ArticleClipper(vaultPath, { maxImageBytes: 4096 });
+
+    const clip = await clipper.clip(article('![a](https://example.com/a.png)'));
+
+    expect(clip.images).toEqual([]);
+    expect(pulls).toBeLessThan(10);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('larger than 4096 bytes'));
+  });
+
+  test('should leave the markdown alone when image downloads are disabled', async () => {
+    const clipper = new ArticleClipper(vaultPath, { downloadImages: false });
+
+    const clip = await clipper.clip(article('![a](https://example.com/a.png)'));
+
+    expect(clip.markdown).toBe('![a](https://example.com/a.png)');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
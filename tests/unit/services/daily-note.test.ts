@@ -0,0 +1,66 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { DailyNoteWriter } from '../../../src/services/daily-note';
+
+describe('DailyNoteWriter', () => {
+  let vaultPath: string;
+  const date = new Date(2025, 0, 15);
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'daily-note-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  test('should create a missing daily note from the template', async () => {
+    await fs.mkdir(path.join(vaultPath, 'Templates'));
+    await fs.writeFile(path.join(vaultPath, 'Templates', 'Daily.md'), '# {title}\n\n## Tasks\n\n## News\n\n## Journal\n');
+    const writer = new DailyNoteWriter(vaultPath, { folder: 'Daily', dateFormat: 'YYYY/MM/YYYY-MM-DD ddd', templateFile: 'Templates/Daily.md' });
+
+    await writer.addEntry(date, { noteName: 'Sparse Models', summary: 'Sparse models are cheaper.' });
+
+    const notePath = path.join(vaultPath, 'Daily', '2025', '01', '2025-01-15 Wed.md');
+    expect(writer.getPath(date)).toBe(notePath);
+    expect(await fs.readFile(notePath, 'utf8')).toBe(
+      '# 2025-01-15 Wed\n\n## Tasks\n\n## News\n\n- [[Sparse Models]] - Sparse models are cheaper.\n\n## Journal\n'
+    );
+  });
+
+  test('should fill in Obsidian template placeholders', async () => {
+    await fs.mkdir(path.join(vaultPath, 'Templates'));
+    await fs.writeFile(path.join(vaultPath, 'Templates', 'Daily.md'), '---\ncreated: {{date}}\n---\n# {{title}}\n\n{{date:dddd, MMMM D}} at {{time:HH}}h\n\n## News\n');
+    const writer = new DailyNoteWriter(vaultPath, { templateFile: 'Templates/Daily.md' });
+
+    await writer.addEntry(date, { noteName: 'Sparse Models' });
+
+    const content = await fs.readFile(path.join(vaultPath, '2025-01-15.md'), 'utf8');
+    expect(content).toMatch(/^---\ncreated: 2025-01-15\n---\n# 2025-01-15\n\nWednesday, January 15 at \d{2}h\n\n## News\n\n- \[\[Sparse Models\]\]\n$/);
+  });
+
+  test('should append to the end of the heading section and add a missing heading', async () => {
+    const notePath = path.join(vaultPath, '2025-01-15.md');
+    await fs.writeFile(notePath, '# Wednesday\n\n## Reading\n\n- [[First]]\n### Later\nText\n\n## Other\n');
+    const writer = new DailyNoteWriter(vaultPath, { heading: '## Reading' });
+
+    await writer.addEntry(date, { noteName: 'Second' });
+    await new DailyNoteWriter(vaultPath, {}).addEntry(date, { noteName: 'Third', summary: 'TL;DR' });
+
+    expect(await fs.readFile(notePath, 'utf8')).toBe(
+      '# Wednesday\n\n## Reading\n\n- [[First]]\n### Later\nText\n- [[Second]]\n\n## Other\n\n## News\n\n- [[Third]] - TL;DR\n'
+    );
+  });
+
+  test('should not add the same link twice', async () => {
+    const writer = new DailyNoteWriter(vaultPath, {});
+
+    expect(await writer.addEntry(date, { noteName: 'Sparse Models' })).toBe(true);
+    expect(await writer.addEntry(date, { noteName: 'Sparse Models', summary: 'Again' })).toBe(false);
+    await fs.appendFile(writer.getPath(date), '- [[Summaries/Other Note|alias]]\n');
+    expect(await writer.addEntry(date, { noteName: 'Other Note' })).toBe(false);
+
+    expect(await fs.readFile(writer.getPath(date), 'utf8')).toBe('# 2025-01-15\n\n## News\n\n- [[Sparse Models]]\n- [[Summaries/Other Note|alias]]\n');
+  });
+});
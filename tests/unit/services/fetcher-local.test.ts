@@ -0,0 +1,112 @@
+import { ContentFetcher, STDIN_URL } from '../../../src/services/fetcher';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { Readable } from 'stream';
+
+// Local sources never need a browser
+jest.mock('puppeteer');
+
+describe('ContentFetcher - local files and stdin', () => {
+  let fetcher: ContentFetcher;
+  let tempDir: string;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    fetcher = new ContentFetcher();
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'fetcher-local-'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const paragraph = 'Large language models continue to improve at reasoning benchmarks, and this paragraph is long enough for Readability to treat it as real article content rather than boilerplate. ';
+
+  test('should extract saved HTML pages with Readability', async () => {
+    const filePath = path.join(tempDir, 'saved-page.html');
+    await fs.writeFile(filePath, `
+      <html>
+        <head>
+          <title>Saved Article Title</title>
+          <meta property="article:published_time" content="2025-03-01T09:00:00.000Z">
+        </head>
+        <body>
+          <nav>Navigation</nav>
+          <article><h1>Saved Article Title</h1><p>${paragraph.repeat(5)}</p><p>${paragraph.repeat(5)}</p></article>
+        </body>
+      </html>
+    `);
+
+    const article = await fetcher.fetchSource(filePath);
+
+    expect(article.url).toBe(`file://${filePath}`);
+    expect(article.title).toBe('Saved Article Title');
+    expect(article.markdownContent).toContain('Large language models');
+    expect(article.publishedDate?.toISOString()).toBe('2025-03-01T09:00:00.000Z');
+    expect(article.metaData).toHaveProperty('article:published_time');
+  });
+
+  test('should use the first heading and file mtime for markdown files', async () => {
+    const filePath = path.join(tempDir, 'export.md');
+    await fs.writeFile(filePath, `Intro line\n\n# Weekly AI Digest\n\n${paragraph}`);
+    const mtime = new Date('2025-02-10T08:00:00.000Z');
+    await fs.utimes(filePath, mtime, mtime);
+
+    const article = await fetcher.fetchSource(filePath);
+
+    expect(article.title).toBe('Weekly AI Digest');
+    expect(article.markdownContent).toContain('# Weekly AI Digest');
+    expect(article.publishedDate?.toISOString()).toBe(mtime.toISOString());
+  });
+
+  test('should strip markdown frontmatter and prefer its title', async () => {
+    const filePath = path.join(tempDir, 'note.md');
+    await fs.writeFile(filePath, `---\ntitle: "Frontmatter Title"\ntags: [ai]\n---\n# Heading Title\n\n${paragraph}`);
+
+    const article = await fetcher.fetchSource(filePath);
+
+    expect(article.title).toBe('Frontmatter Title');
+    expect(article.markdownContent.startsWith('# Heading Title')).toBe(true);
+  });
+
+  test('should use the first line as title for plain-text newsletters', async () => {
+    const filePath = path.join(tempDir, 'newsletter.txt');
+    await fs.writeFile(filePath, `\n  The Batch: Issue 42\n\n${paragraph}`);
+
+    const article = await fetcher.fetchSource(filePath);
+
+    expect(article.title).toBe('The Batch: Issue 42');
+  });
+
+  test('should extract local PDF files', async () => {
+    const filePath = path.join(tempDir, 'paper.pdf');
+    await fs.copyFile(path.join(__dirname, '../../fixtures/sample-paper.pdf'), filePath);
+
+    const article = await fetcher.fetchSource(filePath);
+
+    expect(article.url).toBe(`file://${filePath}`);
+    expect(article.title).toBe('Scaling Laws for Sparse Mixture Models');
+    expect(article.sourceType).toBe('pdf');
+    expect(article.markdownContent).toContain('## Abstract');
+  });
+
+  test('should reject unsupported file types', async () => {
+    const filePath = path.join(tempDir, 'data.json');
+    await fs.writeFile(filePath, '{}');
+
+    await expect(fetcher.fetchSource(filePath)).rejects.toThrow("Unsupported file type '.json'");
+  });
+
+  test('should read markdown from stdin', async () => {
+    const stdin = Readable.from([Buffer.from(`# Piped Article\n\n${paragraph}`)]);
+    jest.spyOn(process, 'stdin', 'get').mockReturnValue(stdin as any);
+
+    const article = await fetcher.fetchSource('-');
+
+    expect(article.url).toBe(STDIN_URL);
+    expect(article.title).toBe('Piped Article');
+    expect(article.publishedDate).toBeInstanceOf(Date);
+  });
+});
@@ -28,7 +28,7 @@ describe('ContentFetcher - Mozilla Readability Integration', () => {
     const puppeteer = require('puppeteer');
     puppeteer.launch = jest.fn().mockResolvedValue(mockBrowser);
     
-    fetcher = new ContentFetcher();
+    fetcher = new ContentFetcher({ mode: 'browser' });
     // Initialize browser mock
     (fetcher as any).browser = mockBrowser;
     // Initialize turndown service mock
@@ -361,4 +361,161 @@ describe('ContentFetcher - Mozilla Readability Integration', () => {
       consoleSpy.mockRestore();
     });
   });
-});
\ No newline at end of file
+
+  describe('fetch strategy', () => {
+    const mockUrl = 'https://example.com/server-rendered';
+    const originalFetch = global.fetch;
+    let mockFetch: jest.Mock;
+
+    const mockReadabilityResult = (textLength: number) => {
+      const mockDocument = { querySelectorAll: jest.fn().mockReturnValue([]) };
+      (JSDOM as jest.MockedClass<typeof JSDOM>).mockImplementation(() => ({
+        window: { document: mockDocument }
+      } as any));
+
+      const text = 'a'.repeat(textLength);
+      (Readability as jest.MockedClass<typeof Readability>).mockImplementation(() => ({
+        parse: jest.fn().mockReturnValue({
+          title: 'Static Article',
+          content: `<p>${text}</p>`,
+          textContent: text
+        })
+      } as any));
+    };
+
+    beforeEach(() => {
+      mockFetch = jest.fn().mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        url: mockUrl,
+        headers: { get: () => 'text/html; charset=utf-8' },
+        text: jest.fn().mockResolvedValue('<html><body><article><p>Static content</p></article></body></html>')
+      });
+      global.fetch = mockFetch as any;
+
+      mockPage.evaluate.mockResolvedValue({
+        fullHTML: '<html><body><article><p>Rendered content</p></article></body></html>',
+        metaData: {},
+        url: mockUrl
+      });
+    });
+
+    afterEach(() => {
+      global.fetch = originalFetch;
+    });
+
+    it('should use static HTTP fetch without launching a browser in auto mode', async () => {
+      mockReadabilityResult(1000);
+      fetcher = new ContentFetcher({ mode: 'auto' });
+
+      const result = await fetcher.fetchArticle(mockUrl);
+
+      expect(mockFetch).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ redirect: 'follow' }));
+      expect(mockBrowser.newPage).not.toHaveBeenCalled();
+      expect(result.title).toBe('Static Article');
+    });
+
+    it('should fall back to the headless browser when static content is insufficient', async () => {
+      mockReadabilityResult(50);
+      fetcher = new ContentFetcher({ mode: 'auto' });
+      (fetcher as any).browser = mockBrowser;
+
+      await fetcher.fetchArticle(mockUrl);
+
+      expect(mockFetch).toHaveBeenCalled();
+      expect(mockPage.goto).toHaveBeenCalledWith(mockUrl, expect.objectContaining({ waitUntil: 'networkidle2' }));
+    });
+
+    it('should fall back to the headless browser when the static request fails', async () => {
+      mockReadabilityResult(1000);
+      mockFetch.mockResolvedValue({ ok: false, status: 403, statusText: 'Forbidden', headers: { get: () => null } });
+      fetcher = new ContentFetcher({ mode: 'auto' });
+      (fetcher as any).browser = mockBrowser;
+
+      await fetcher.fetchArticle(mockUrl);
+
+      expect(mockPage.goto).toHaveBeenCalled();
+    });
+
+    it('should not escalate in static mode', async () => {
+      mockReadabilityResult(50);
+      fetcher = new ContentFetcher({ mode: 'static' });
+      (fetcher as any).browser = mockBrowser;
+
+      const result = await fetcher.fetchArticle(mockUrl);
+
+      expect(mockBrowser.newPage).not.toHaveBeenCalled();
+      expect(result.markdownContent).toHaveLength(50);
+    });
+
+    it('should let the per-call mode override the configured mode', async () => {
+      mockReadabilityResult(1000);
+      fetcher = new ContentFetcher({ mode: 'static' });
+      (fetcher as any).browser = mockBrowser;
+
+      await fetcher.fetchArticle(mockUrl, { mode: 'browser' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(mockPage.goto).toHaveBeenCalled();
+    });
+
+    it('should return the raw HTML of a listing page', async () => {
+      fetcher = new ContentFetcher({ mode: 'auto' });
+
+      const page = await fetcher.fetchHtml(mockUrl);
+
+      expect(page).toEqual({ html: '<html><body><article><p>Static content</p></article></body></html>', url: mockUrl });
+      expect(mockBrowser.newPage).not.toHaveBeenCalled();
+      expect(Readability).not.toHaveBeenCalled();
+    });
+
+    it('should render a listing page in browser mode', async () => {
+      mockPage.content = jest.fn().mockResolvedValue('<html><body><a href="/post">Post</a></body></html>');
+      mockPage.url = jest.fn().mockReturnValue(`${mockUrl}/`);
+      fetcher = new ContentFetcher({ mode: 'static', domains: { 'example.com': 'browser' } });
+      (fetcher as any).browser = mockBrowser;
+
+      const page = await fetcher.fetchHtml(mockUrl);
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(page).toEqual({ html: '<html><body><a href="/post">Post</a></body></html>', url: `${mockUrl}/` });
+      expect(mockPage.close).toHaveBeenCalled();
+    });
+
+    it('should fetch PDF links directly even in browser mode', async () => {
+      const fs = require('fs');
+      const path = require('path');
+      const pdfData: Buffer = fs.readFileSync(path.join(__dirname, '../../fixtures/sample-paper.pdf'));
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        url: 'https://arxiv.org/pdf/2501.00001',
+        headers: { get: () => 'application/pdf' },
+        arrayBuffer: jest.fn().mockResolvedValue(pdfData.buffer.slice(pdfData.byteOffset, pdfData.byteOffset + pdfData.length))
+      });
+      fetcher = new ContentFetcher({ mode: 'browser' });
+      (fetcher as any).browser = mockBrowser;
+
+      const result = await fetcher.fetchArticle('https://arxiv.org/pdf/2501.00001');
+
+      expect(mockBrowser.newPage).not.toHaveBeenCalled();
+      expect(result.sourceType).toBe('pdf');
+      expect(result.title).toBe('Scaling Laws for Sparse Mixture Models');
+    });
+
+    it('should resolve per-domain modes with the most specific domain winning', () => {
+      fetcher = new ContentFetcher({
+        mode: 'auto',
+        domains: { 'example.com': 'browser', 'blog.example.com': 'static' }
+      });
+
+      expect(fetcher.resolveFetchMode('https://www.example.com/a')).toBe('browser');
+      expect(fetcher.resolveFetchMode('https://news.example.com/a')).toBe('browser');
+      expect(fetcher.resolveFetchMode('https://blog.example.com/a')).toBe('static');
+      expect(fetcher.resolveFetchMode('https://other.org/a')).toBe('auto');
+      expect(fetcher.resolveFetchMode('https://blog.example.com/a', 'auto')).toBe('auto');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { mergeFrontmatter, parsePropertyQuery, readProperties, splitNote } from '../../../src/services/frontmatter';
+
+describe('frontmatter', () => {
+  test('should split a note into frontmatter and body', () => {
+    expect(splitNote('---\ntitle: A\n---\n\nBody\n')).toEqual({ frontmatter: 'title: A', body: 'Body\n' });
+    expect(splitNote('No frontmatter')).toEqual({ frontmatter: '', body: 'No frontmatter' });
+  });
+
+  test('should read scalars, quoted values and lists', () => {
+    const properties = readProperties([
+      'title: "Why: an answer"',
+      "author: 'O''Brien'",
+      'tags:',
+      '  - ai',
+      '  - news',
+      'aliases: [One, "Two"]',
+      'empty:'
+    ].join('\n'));
+
+    expect(properties).toEqual({
+      title: 'Why: an answer',
+      author: "O'Brien",
+      tags: ['ai', 'news'],
+      aliases: ['One', 'Two'],
+      empty: undefined
+    });
+  });
+
+  test('should replace generated properties and keep user properties in place', () => {
+    const frontmatter = [
+      'title: Old',
+      'rating: 5',
+      'summary: old',
+      'notes:',
+      '  - keep me',
+      'tags:',
+      '  - test',
+      '  - reading'
+    ].join('\n');
+
+    const merged = mergeFrontmatter(frontmatter, { title: 'New', summary: undefined, tags: ['test', 'ai'], model: 'openai:gpt-4o' }, ['tags']);
+
+    expect(merged).toBe([
+      'title: New',
+      'rating: 5',
+      'notes:',
+      '  - keep me',
+      'tags:',
+      '  - test',
+      '  - ai',
+      '  - reading',
+      'model: openai:gpt-4o'
+    ].join('\n'));
+  });
+
+  test('should merge comma-separated tags written by older versions', () => {
+    expect(mergeFrontmatter('tags: test, reading', { tags: ['test'] }, ['tags'])).toBe('tags:\n  - test\n  - reading');
+  });
+
+  test('should match property queries', () => {
+    const properties = { profile: 'Tech News', tags: ['ai', 'news'], siteName: 'Example' };
+
+    expect(parsePropertyQuery('profile=tech news')(properties)).toBe(true);
+    expect(parsePropertyQuery('tags=ai')(properties)).toBe(true);
+    expect(parsePropertyQuery('tags!=ai')(properties)).toBe(false);
+    expect(parsePropertyQuery('siteName~^ex')(properties)).toBe(true);
+    expect(parsePropertyQuery('model')(properties)).toBe(false);
+    expect(parsePropertyQuery('profile')(properties)).toBe(true);
+    expect(() => parsePropertyQuery('title~(')).toThrow();
+  });
+});
@@ -0,0 +1,431 @@
+import { ObsidianIntegration, ObsidianConfig } from '../../../src/services/obsidian';
+import { SummaryResult } from '../../../src/services/summarizer';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('ObsidianIntegration', () => {
+  let vaultPath: string;
+  let config: ObsidianConfig;
+
+  const createSummary = (overrides: Partial<SummaryResult['originalArticle']> = {}, filename = '{domain} {title}'): SummaryResult => ({
+    summary: '# Summary\n\nSummary body',
+    originalArticle: {
+      url: 'https://www.example.com/article',
+      markdownContent: 'Article content',
+      title: 'Example Article',
+      publishedDate: new Date(2025, 0, 15),
+      ...overrides
+    },
+    profile: {
+      name: 'Test Profile',
+      systemPrompt: 'Test',
+      userPrompt: 'Test {content}',
+      filename,
+      tags: ['test']
+    }
+  });
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'obsidian-vault-'));
+    config = {
+      vaultPath,
+      outputFolder: 'Summaries',
+      templateName: 'default',
+      filenameFormat: '{date}-{domain}'
+    };
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  describe('saveArticle', () => {
+    test('should save web articles using the domain without www', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const savedPath = await obsidian.saveArticle(createSummary());
+
+      expect(savedPath).toBe(path.join(vaultPath, 'Summaries', 'example-com Example Article.md'));
+      const content = await fs.readFile(savedPath, 'utf8');
+      expect(content).toContain('url: https://www.example.com/article');
+      expect(content).toContain('# Summary');
+    });
+
+    test('should save local file sources without a hostname', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const savedPath = await obsidian.saveArticle(createSummary({ url: 'file:///home/user/saved.html' }, '{siteName} {title}'));
+
+      expect(path.basename(savedPath)).toBe('local Example Article.md');
+    });
+
+    test('should save stdin sources without a hostname', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const savedPath = await obsidian.saveArticle(createSummary({ url: 'stdin:' }));
+
+      expect(path.basename(savedPath)).toBe('stdin Example Article.md');
+    });
+
+    test('should render filename placeholders with defaults and conditionals', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const summary = createSummary({ author: 'Jane: Doe' }, '{published_date} {title} - {author|Anon}{#if language} [{language}]{/if}');
+
+      const savedPath = await obsidian.saveArticle(summary);
+
+      expect(path.basename(savedPath)).toBe('2025-01-15 Example Article - Jane Doe.md');
+    });
+
+    test('should keep non-Latin titles and use the same name for the file and the title property', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const savedPath = await obsidian.saveArticle(createSummary({ title: 'OpenAI の新モデル: 何が変わる? 🚀' }, '{title}'));
+
+      expect(path.basename(savedPath)).toBe('OpenAI の新モデル 何が変わる 🚀.md');
+      expect(await fs.readFile(savedPath, 'utf8')).toContain('title: OpenAI の新モデル 何が変わる 🚀\n');
+    });
+
+    test('should cap long filenames by bytes', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, maxFilenameBytes: 40 });
+
+      const savedPath = await obsidian.saveArticle(createSummary({ title: '인공지능 모델의 새로운 시대가 열리다 그리고 계속된다' }, '{title}'));
+
+      expect(path.basename(savedPath)).toBe('인공지능 모델의 새로운.md');
+    });
+
+    test('should write structured fields as typed properties and render the body template', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const summary: SummaryResult = {
+        ...createSummary(),
+        profile: { ...createSummary().profile, bodyTemplate: '## TL;DR\n\n{tldr}\n{#each keyPoints}\n- {this}{/each}\n' },
+        data: {
+          tldr: 'Sparse models: cheaper',
+          keyPoints: ['One', 'Two'],
+          score: 7,
+          sentiment: 'neutral',
+          topics: [],
+          url: 'https://ignored.example.com',
+          suggestedTags: ['Machine Learning', '#ai']
+        }
+      };
+
+      const content = await fs.readFile(await obsidian.saveArticle(summary), 'utf8');
+
+      expect(content).toContain('tldr: "Sparse models: cheaper"\n');
+      expect(content).toContain('keyPoints:\n  - One\n  - Two\n');
+      expect(content).toContain('score: 7\n');
+      expect(content).toContain('sentiment: neutral\n');
+      expect(content).toContain('topics: []\n');
+      expect(content).not.toContain('ignored.example.com');
+      expect(content).toContain('tags:\n  - test\n  - machine-learning\n  - ai\n');
+      expect(content).toContain('---\n\n<!-- ai-summary:start -->\n## TL;DR\n\nSparse models: cheaper\n\n- One\n- Two\n<!-- ai-summary:end -->\n');
+    });
+
+    test('should record the model that produced the summary', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const summary = { ...createSummary(), metadata: { provider: 'openai', model: 'gpt-4o-mini', fallbackFrom: 'gemini:gemini-2.5-pro' } };
+
+      const content = await fs.readFile(await obsidian.saveArticle(summary), 'utf8');
+
+      expect(content).toContain('model: openai:gpt-4o-mini\n');
+    });
+
+    test('should write article and trigger metadata as escaped YAML properties', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const summary: SummaryResult = {
+        ...createSummary({ title: 'Why: "AI" matters', author: 'Jane Doe', siteName: 'Example', language: 'en', excerpt: 'Short: excerpt' }, 'Summary {date}'),
+        metadata: { feedTitle: 'Tech # News', categories: ['AI', 'Research'], triggeredBy: 'rss-tech', itemId: 'guid-1' }
+      };
+
+      const content = await fs.readFile(await obsidian.saveArticle(summary), 'utf8');
+
+      expect(content).toContain('aliases:\n  - "Why: \\"AI\\" matters"\n');
+      expect(content).toContain('author: Jane Doe\nsiteName: Example\nlanguage: en\nexcerpt: "Short: excerpt"\n');
+      expect(content).toContain('profile: Test Profile\nfeedTitle: "Tech # News"\ncategories:\n  - AI\n  - Research\ntriggeredBy: rss-tech\n');
+      expect(content).not.toContain('itemId');
+    });
+
+    test('should rename and omit properties as configured', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, properties: { url: 'source', excerpt: false, tags: 'keywords' } });
+
+      const savedPath = await obsidian.saveArticle(createSummary({ excerpt: 'Excerpt' }));
+      const content = await fs.readFile(savedPath, 'utf8');
+
+      expect(content).toContain('source: https://www.example.com/article\n');
+      expect(content).not.toContain('excerpt');
+      expect(content).toContain('keywords:\n  - test\n');
+      // Duplicate detection follows the renamed url property
+      expect(await new ObsidianIntegration({ ...config, properties: { url: 'source' }, duplicatePolicy: 'skip' })
+        .findNoteToSkip('https://example.com/article')).toBe(savedPath);
+    });
+  });
+
+  describe('duplicate handling', () => {
+    const existingNote = '---\ntitle: Old\nurl: https://example.com/article\ncreated: 2024-12-01 08:00\nupdated: 2024-12-01 08:00\n---\n\nOld summary\n';
+    let existingPath: string;
+
+    beforeEach(async () => {
+      existingPath = path.join(vaultPath, 'Archive', 'Old note.md');
+      await fs.mkdir(path.dirname(existingPath), { recursive: true });
+      await fs.writeFile(existingPath, existingNote);
+    });
+
+    test('should overwrite the existing note for the same URL by default, keeping created', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const result = await obsidian.save(createSummary());
+
+      expect(result).toEqual({ path: existingPath, action: 'overwritten' });
+      const content = await fs.readFile(existingPath, 'utf8');
+      expect(content).toContain('created: 2024-12-01 08:00\n');
+      expect(content).not.toContain('updated: 2024-12-01 08:00');
+      expect(content).toContain('# Summary');
+      expect(await fs.readdir(vaultPath)).toEqual(['Archive']);
+    });
+
+    test('should leave the existing note alone with the skip policy', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, duplicatePolicy: 'skip' });
+
+      expect(await obsidian.findNoteToSkip('https://example.com/article/?utm_source=rss')).toBe(existingPath);
+      expect(await obsidian.save(createSummary())).toEqual({ path: existingPath, action: 'skipped' });
+      expect(await fs.readFile(existingPath, 'utf8')).toBe(existingNote);
+    });
+
+    test('should append a dated section with the append policy', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, duplicatePolicy: 'append' });
+
+      await obsidian.save(createSummary());
+
+      const content = await fs.readFile(existingPath, 'utf8');
+      expect(content).toMatch(/^---\ntitle: Old\n/);
+      expect(content).toContain('created: 2024-12-01 08:00\n');
+      expect(content).toMatch(/\nupdated: \d{4}-\d{2}-\d{2} \d{2}:\d{2}\n---\n/);
+      expect(content).not.toContain('updated: 2024-12-01 08:00');
+      expect(content).toMatch(/Old summary\n\n## Summary \(\d{4}-\d{2}-\d{2} \d{2}:\d{2}\)\n\n# Summary\n\nSummary body\n$/);
+    });
+
+    test('should add the updated property when appending to a note without it', async () => {
+      await fs.writeFile(existingPath, '---\ntitle: Old\nurl: https://example.com/article\n---\n\nOld summary\n');
+      const obsidian = new ObsidianIntegration({ ...config, duplicatePolicy: 'append' });
+
+      await obsidian.save(createSummary());
+
+      const content = await fs.readFile(existingPath, 'utf8');
+      expect(content).toMatch(/^---\ntitle: Old\nurl: https:\/\/example\.com\/article\nupdated: "?\d{4}-\d{2}-\d{2} \d{2}:\d{2}"?\n---\n\nOld summary\n\n## Summary /);
+    });
+
+    test('should save numbered versions with the version policy', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, duplicatePolicy: 'version' });
+
+      const first = await obsidian.save(createSummary());
+      const second = await obsidian.save(createSummary());
+
+      expect(first).toEqual({ path: path.join(vaultPath, 'Summaries', 'example-com Example Article.md'), action: 'versioned' });
+      expect(second.path).toBe(path.join(vaultPath, 'Summaries', 'example-com Example Article-v2.md'));
+    });
+
+    test('should not overwrite a different article that has the same filename', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const first = await obsidian.saveArticle(createSummary({ url: 'https://example.com/one' }));
+
+      const second = await obsidian.save(createSummary({ url: 'https://example.com/two' }));
+
+      expect(second).toEqual({ path: first.replace(/\.md$/, '-v2.md'), action: 'created' });
+      expect(await fs.readFile(first, 'utf8')).toContain('url: https://example.com/one');
+    });
+  });
+
+  describe('note templates', () => {
+    test('should write just the summary with the default template', async () => {
+      const obsidian = new ObsidianIntegration(config);
+
+      const content = await fs.readFile(await obsidian.saveArticle(createSummary()), 'utf8');
+
+      expect(content).toMatch(/\n---\n\n<!-- ai-summary:start -->\n# Summary\n\nSummary body\n<!-- ai-summary:end -->\n$/);
+    });
+
+    test('should render the configured template with the source callout, related notes and trigger', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, templateName: 'source-callout' });
+      await obsidian.saveArticle(createSummary({ url: 'https://example.com/earlier', title: 'Earlier Post' }, '{title}'));
+      const summary: SummaryResult = {
+        ...createSummary({ author: 'Jane Doe', siteName: 'Example' }, '{title}'),
+        metadata: { feedTitle: 'Example Feed', triggeredBy: 'rss-example' }
+      };
+
+      const content = await fs.readFile(await obsidian.saveArticle(summary), 'utf8');
+
+      expect(content.split('---\n\n')[1]).toBe([
+        '> [!info] Source',
+        '> [Example Article](https://www.example.com/article)',
+        '> Jane Doe · Example · 2025-01-15',
+        '> Collected by Example Feed (rss-example)',
+        '',
+        '<!-- ai-summary:start -->',
+        '# Summary',
+        '',
+        'Summary body',
+        '<!-- ai-summary:end -->',
+        '',
+        '## Related',
+        '',
+        '- [[Earlier Post]]',
+        '',
+        '## My notes',
+        ''
+      ].join('\n'));
+    });
+
+    test('should prefer the profile note template', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, templateName: 'source-callout' });
+      const summary = createSummary({ excerpt: 'The excerpt' });
+      summary.profile.noteTemplate = '{summary}\n\n> {excerpt}\n\nFrom {sourceLink}{#if triggerSource} via {triggerSource}{/if}\n';
+
+      const content = await fs.readFile(await obsidian.saveArticle(summary), 'utf8');
+
+      expect(content).toContain('---\n\n<!-- ai-summary:start -->\n# Summary\n\nSummary body\n<!-- ai-summary:end -->\n\n> The excerpt\n\nFrom [Example Article](https://www.example.com/article)\n');
+    });
+  });
+
+  describe('daily note', () => {
+    test('should link the saved summary from the daily note of the article date', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, dailyNote: { folder: 'Daily' } });
+      const summary = createSummary({}, '{title}');
+      summary.summary = '# Summary\n\n**Sparse models** are cheaper to run.\n\nMore details.';
+
+      const result = await obsidian.save(summary);
+      await obsidian.save(summary);
+
+      const dailyPath = path.join(vaultPath, 'Daily', '2025-01-15.md');
+      expect(result.dailyNote).toBe(dailyPath);
+      expect(await fs.readFile(dailyPath, 'utf8')).toBe('# 2025-01-15\n\n## News\n\n- [[Example Article]] - Sparse models are cheaper to run.\n');
+    });
+
+    test('should not touch the daily note when the save is skipped', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, duplicatePolicy: 'skip', dailyNote: { enabled: false } });
+      await obsidian.save(createSummary());
+
+      const daily = new ObsidianIntegration({ ...config, duplicatePolicy: 'skip', dailyNote: {} });
+      const result = await daily.save(createSummary());
+
+      expect(result.action).toBe('skipped');
+      expect(result.dailyNote).toBeUndefined();
+      expect(await fs.readdir(vaultPath)).toEqual(['Summaries']);
+    });
+  });
+
+  describe('folder routing', () => {
+    test('should save to the folder of the first matching rule', async () => {
+      const obsidian = new ObsidianIntegration({
+        ...config,
+        routes: [
+          { trigger: 'rss-other', folder: 'Other' },
+          { domain: 'example.com', tags: 'test', folder: 'News/{siteName}/{published_year}/{published_month}' },
+          { folder: 'Inbox' }
+        ]
+      });
+
+      const savedPath = await obsidian.saveArticle(createSummary({ siteName: 'Example: News' }));
+
+      expect(savedPath).toBe(path.join(vaultPath, 'News', 'Example News', '2025', '01', 'example-com Example Article.md'));
+    });
+
+    test('should fall back to the output folder when no rule matches', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, routes: [{ profile: 'critical', folder: 'Critical' }] });
+      const summary = createSummary();
+      summary.profile.id = 'default';
+
+      const savedPath = await obsidian.saveArticle(summary);
+
+      expect(path.dirname(savedPath)).toBe(path.join(vaultPath, 'Summaries'));
+    });
+  });
+
+  describe('clip mode', () => {
+    const clipConfig = { downloadImages: false };
+
+    test('should save the source article as a sibling note linked from the summary', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, clip: clipConfig });
+      const summary = createSummary({ markdownContent: 'Original paragraph.\n\n![chart](https://example.com/chart.png)' }, '{title}');
+
+      const result = await obsidian.save(summary);
+
+      const clipPath = path.join(vaultPath, 'Summaries', 'Example Article (clip).md');
+      expect(result.clip).toBe(clipPath);
+      expect(await fs.readFile(result.path, 'utf8')).toContain('clip: "[[Example Article (clip)]]"\n');
+      const clipNote = await fs.readFile(clipPath, 'utf8');
+      expect(clipNote).toContain('type: clip\nurl: https://www.example.com/article\n');
+      expect(clipNote).toContain('summary: "[[Example Article]]"\n');
+      expect(clipNote).toMatch(/---\n\n# Example Article\n\nOriginal paragraph\.\n\n!\[chart\]\(https:\/\/example\.com\/chart\.png\)\n$/);
+
+      // The clip note is not mistaken for the summary on the next save
+      expect(await obsidian.save(summary)).toEqual(expect.objectContaining({ path: result.path, action: 'overwritten' }));
+    });
+
+    test('should add the source article as a collapsed callout in callout mode', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, clip: { ...clipConfig, mode: 'callout' } });
+
+      const result = await obsidian.save(createSummary({ markdownContent: 'First line\n\nSecond line' }));
+
+      expect(result.clip).toBeUndefined();
+      expect(await fs.readFile(result.path, 'utf8')).toMatch(/Summary body\n<!-- ai-summary:end -->\n\n> \[!quote\]- Original article\n> First line\n>\n> Second line\n$/);
+    });
+  });
+
+  describe('rebuilding notes', () => {
+    test('should replace only the AI summary and keep user edits', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const savedPath = await obsidian.saveArticle(createSummary({}, '{title}'));
+      const saved = await fs.readFile(savedPath, 'utf8');
+      const created = saved.match(/^created: (.*)$/m)![1];
+      await fs.writeFile(savedPath, saved
+        .replace('tags:\n  - test\n', 'tags:\n  - test\n  - reading\nrating: 5\n')
+        .replace(/$/, '\n## My notes\n\nKeep this.\n'), 'utf8');
+
+      const note = (await obsidian.readNote(savedPath))!;
+      const summary = { ...createSummary({}, '{title}'), summary: 'New summary' };
+      const { before, after } = await obsidian.rebuildNote(note, summary);
+
+      expect(before).toContain('Summary body');
+      expect(await fs.readFile(savedPath, 'utf8')).toBe(after);
+      expect(after).toContain('<!-- ai-summary:start -->\nNew summary\n<!-- ai-summary:end -->\n\n## My notes\n\nKeep this.\n');
+      expect(after).not.toContain('Summary body');
+      expect(after).toContain(`created: ${created}\n`);
+      expect(after).toContain('tags:\n  - test\n  - reading\nrating: 5\n');
+    });
+
+    test('should not write in dry-run mode', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const savedPath = await obsidian.saveArticle(createSummary());
+      const original = await fs.readFile(savedPath, 'utf8');
+
+      const { after } = await obsidian.rebuildNote((await obsidian.readNote(savedPath))!, { ...createSummary(), summary: 'New summary' }, { dryRun: true });
+
+      expect(after).toContain('New summary');
+      expect(await fs.readFile(savedPath, 'utf8')).toBe(original);
+    });
+
+    test('should require force for notes without markers', async () => {
+      const obsidian = new ObsidianIntegration(config);
+      const notePath = path.join(vaultPath, 'Old.md');
+      await fs.writeFile(notePath, '---\ntitle: Old\nurl: https://www.example.com/article\n---\n\nOld summary\n', 'utf8');
+      const note = (await obsidian.readNote(notePath))!;
+
+      await expect(obsidian.rebuildNote(note, createSummary())).rejects.toThrow('no AI summary markers');
+
+      const { after } = await obsidian.rebuildNote(note, createSummary(), { force: true });
+      expect(after).toMatch(/---\n\n<!-- ai-summary:start -->\n# Summary\n\nSummary body\n<!-- ai-summary:end -->\n$/);
+    });
+
+    test('should read renamed properties and the saved clip', async () => {
+      const obsidian = new ObsidianIntegration({ ...config, properties: { url: 'source' }, clip: { downloadImages: false } });
+      const result = await obsidian.save(createSummary({ markdownContent: 'Original paragraph.' }, '{title}'));
+
+      const note = (await obsidian.readNote(result.path))!;
+
+      expect(note.properties.source).toBe('https://www.example.com/article');
+      expect(note.fields.url).toBe('https://www.example.com/article');
+      expect(await obsidian.readClip(note)).toBe('Original paragraph.');
+    });
+  });
+});
@@ -0,0 +1,71 @@
+import { PdfExtractor } from '../../../src/services/pdf';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+
+describe('PdfExtractor', () => {
+  const fixturePath = path.join(__dirname, '../../fixtures/sample-paper.pdf');
+  let extractor: PdfExtractor;
+  let pdfData: Buffer;
+
+  beforeAll(async () => {
+    pdfData = await fs.readFile(fixturePath);
+  });
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    extractor = new PdfExtractor();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should fill article fields from PDF metadata', async () => {
+    const article = await extractor.extract(pdfData, 'https://arxiv.org/pdf/2501.00001');
+
+    expect(article).toMatchObject({
+      url: 'https://arxiv.org/pdf/2501.00001',
+      title: 'Scaling Laws for Sparse Mixture Models',
+      author: 'Jane Doe; John Smith',
+      sourceType: 'pdf'
+    });
+    expect(article.publishedDate?.toISOString()).toBe('2025-03-01T09:30:00.000Z');
+    expect(article.metaData).toMatchObject({ 'pdf:pages': '2', 'pdf:Producer': 'fixture' });
+  });
+
+  test('should produce markdown with abstract and section headings', async () => {
+    const article = await extractor.extract(pdfData, 'file:///paper.pdf');
+
+    expect(article.markdownContent).toContain('## Abstract');
+    expect(article.markdownContent).toContain('## 1 Introduction');
+    expect(article.markdownContent).toContain('## 2 Method');
+    expect(article.markdownContent).toContain('## 3 Results');
+    // The title is used for the note, not repeated as a body heading
+    expect(article.markdownContent).not.toContain('Scaling Laws for Sparse Mixture Models');
+    // Bare page numbers are dropped
+    expect(article.markdownContent).not.toMatch(/^1$/m);
+  });
+
+  test('should re-join words hyphenated across lines', async () => {
+    const article = await extractor.extract(pdfData, 'file:///paper.pdf');
+
+    expect(article.markdownContent).toContain('promise better efficiency by activating');
+  });
+
+  test('should use the abstract as excerpt', async () => {
+    const article = await extractor.extract(pdfData, 'file:///paper.pdf');
+
+    expect(article.excerpt).toMatch(/^We study how sparse mixture-of-experts models scale/);
+  });
+
+  test('should respect the page limit', async () => {
+    const article = await new PdfExtractor({ maxPages: 1 }).extract(pdfData, 'file:///paper.pdf');
+
+    expect(article.markdownContent).toContain('## 2 Method');
+    expect(article.markdownContent).not.toContain('3 Results');
+  });
+
+  test('should reject data that is not a PDF', async () => {
+    await expect(extractor.extract(Buffer.from('<html></html>'), 'file:///fake.pdf')).rejects.toThrow();
+  });
+});
@@ -0,0 +1,189 @@
+import {
+  AnthropicProvider,
+  GeminiProvider,
+  OllamaProvider,
+  OpenAICompatibleProvider,
+  ProviderError,
+  ProviderRegistry,
+  parseModelSpec
+} from '../../../src/services/providers';
+
+const jsonResponse = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers });
+
+const request = {
+  model: 'test-model',
+  systemPrompt: 'You summarize.',
+  userMessage: 'Summarize this.',
+  maxTokens: 1000,
+  contextWindow: 32000
+};
+
+describe('parseModelSpec', () => {
+  test('should split known provider prefixes', () => {
+    expect(parseModelSpec('anthropic:claude-sonnet-4-5', 'openai')).toEqual({ provider: 'anthropic', model: 'claude-sonnet-4-5' });
+    expect(parseModelSpec('ollama:llama3.1:8b', 'openai')).toEqual({ provider: 'ollama', model: 'llama3.1:8b' });
+  });
+
+  test('should keep unprefixed and OpenRouter-style ids on the default provider', () => {
+    expect(parseModelSpec('gpt-4o', 'openai')).toEqual({ provider: 'openai', model: 'gpt-4o' });
+    expect(parseModelSpec('meta-llama/llama-3-8b:free', 'openrouter')).toEqual({ provider: 'openrouter', model: 'meta-llama/llama-3-8b:free' });
+  });
+});
+
+describe('ProviderRegistry', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.ANTHROPIC_API_KEY;
+    delete process.env.OLLAMA_HOST;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  test('should apply the top-level key to the default provider only', () => {
+    const registry = ProviderRegistry.fromConfig({
+      provider: 'openrouter',
+      apiKey: 'router-key',
+      model: 'openai/gpt-4o',
+      providers: { anthropic: { apiKey: 'anthropic-key' } }
+    });
+
+    expect(registry.getConfig('openrouter').apiKey).toBe('router-key');
+    expect(registry.getConfig('anthropic').apiKey).toBe('anthropic-key');
+    expect(registry.getConfig('gemini').apiKey).toBeUndefined();
+  });
+
+  test('should fall back to environment variables', () => {
+    process.env.ANTHROPIC_API_KEY = 'env-key';
+    process.env.OLLAMA_HOST = 'http://gpu-box:11434';
+    const registry = ProviderRegistry.fromConfig({ provider: 'openai', apiKey: '', model: 'gpt-4o' });
+
+    expect(registry.getConfig('anthropic').apiKey).toBe('env-key');
+    expect(registry.getConfig('ollama').baseUrl).toBe('http://gpu-box:11434');
+    expect(registry.requiresApiKey('ollama')).toBe(false);
+  });
+
+  test('should resolve a model spec to a cached provider instance', () => {
+    const registry = ProviderRegistry.fromConfig({ provider: 'openai', apiKey: 'key', model: 'gpt-4o' });
+    const first = registry.resolve('gemini:gemini-2.5-flash');
+
+    expect(first.provider).toBeInstanceOf(GeminiProvider);
+    expect(first.model).toBe('gemini-2.5-flash');
+    expect(registry.resolve('gemini:gemini-2.5-pro').provider).toBe(first.provider);
+  });
+});
+
+describe('HTTP providers', () => {
+  let fetchMock: jest.SpyInstance;
+
+  beforeEach(() => {
+    fetchMock = jest.spyOn(global, 'fetch');
+  });
+
+  afterEach(() => {
+    fetchMock.mockRestore();
+  });
+
+  test('AnthropicProvider should call the Messages API', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ content: [{ type: 'text', text: 'Claude summary' }] }));
+
+    const result = await new AnthropicProvider({ apiKey: 'key' }).complete(request);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('key');
+    expect(body.system).toBe('You summarize.');
+    expect(body.max_tokens).toBe(1000);
+    expect(result).toBe('Claude summary');
+  });
+
+  test('GeminiProvider should call generateContent', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ candidates: [{ content: { parts: [{ text: 'Gemini ' }, { text: 'summary' }] } }] }));
+
+    const result = await new GeminiProvider({ apiKey: 'key' }).complete({ ...request, model: 'gemini-2.5-flash' });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent');
+    expect(JSON.parse(init.body).systemInstruction.parts[0].text).toBe('You summarize.');
+    expect(result).toBe('Gemini summary');
+  });
+
+  test('OllamaProvider should pass the context window as num_ctx', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ message: { role: 'assistant', content: 'Local summary' } }));
+
+    const result = await new OllamaProvider({ baseUrl: 'http://localhost:11434/' }).complete(request);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('http://localhost:11434/api/chat');
+    expect(body.stream).toBe(false);
+    expect(body.options).toEqual({ num_ctx: 32000, num_predict: 1000 });
+    expect(result).toBe('Local summary');
+  });
+
+  test('OpenAICompatibleProvider should pass the output token limit', async () => {
+    const completion = { choices: [{ index: 0, message: { role: 'assistant', content: 'OpenAI summary' } }] };
+    fetchMock.mockImplementation(async () => jsonResponse(completion, 200, { 'content-type': 'application/json' }));
+    const provider = new OpenAICompatibleProvider('openai', { apiKey: 'key' });
+
+    const result = await provider.complete(request);
+    await provider.complete({ ...request, model: 'o4-mini' });
+
+    const [first, second] = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+    expect(first.max_tokens).toBe(1000);
+    expect(second.max_completion_tokens).toBe(1000);
+    expect(second.max_tokens).toBeUndefined();
+    expect(result).toBe('OpenAI summary');
+  });
+
+  test('AnthropicProvider should force a tool call for structured output', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ content: [{ type: 'tool_use', name: 'record_summary', input: { tldr: 'Short' } }] }));
+    const responseSchema = { type: 'object' as const, properties: { tldr: { type: 'string' as const } } };
+
+    const result = await new AnthropicProvider({ apiKey: 'key' }).complete({ ...request, responseSchema });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.tools[0].input_schema).toEqual(responseSchema);
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'record_summary' });
+    expect(JSON.parse(result)).toEqual({ tldr: 'Short' });
+  });
+
+  test('OllamaProvider should pass the schema as format', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ message: { content: '{}' } }));
+    const responseSchema = { type: 'object' as const };
+
+    await new OllamaProvider({}).complete({ ...request, responseSchema });
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).format).toEqual(responseSchema);
+  });
+
+  test('should map authentication failures to non-retryable errors', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'invalid x-api-key' } }, 401));
+
+    const error = await new AnthropicProvider({ apiKey: 'bad' }).complete(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.retryable).toBe(false);
+    expect(error.message).toContain('Check the API key');
+  });
+
+  test('should mark rate limits as retryable with Retry-After', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ error: { message: 'slow down' } }, 429, { 'retry-after': '7' }));
+
+    const error = await new GeminiProvider({ apiKey: 'key' }).complete(request).catch(e => e);
+
+    expect(error.status).toBe(429);
+    expect(error.retryable).toBe(true);
+    expect(error.retryAfterMs).toBe(7000);
+  });
+
+  test('should require an API key for hosted providers', async () => {
+    await expect(new AnthropicProvider({}).complete(request)).rejects.toThrow('ANTHROPIC_API_KEY');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
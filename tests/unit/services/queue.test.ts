@@ -0,0 +1,168 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JobQueue, QueueWorker } from '../../../src/services/queue';
+import { JsonFileStore } from '../../../src/services/state';
+import { TriggerEvent } from '../../../src/services/triggers/base';
+
+describe('JobQueue', () => {
+  let stateDir: string;
+  let queue: JobQueue;
+
+  const event = (url: string): TriggerEvent => ({
+    url,
+    title: `Article ${url}`,
+    timestamp: new Date('2025-07-27T10:00:00Z'),
+    metadata: { feedTitle: 'Test Feed' }
+  });
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'summarizer-queue-'));
+    queue = JobQueue.forStateDir(stateDir, { maxAttempts: 2, initialDelayMs: 1000, maxDelayMs: 5000 });
+  });
+
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  test('should persist enqueued jobs and skip duplicates of unfinished ones', async () => {
+    const job = await queue.enqueue('rss', 'default', event('https://example.com/a'));
+    const duplicate = await queue.enqueue('rss', 'default', event('https://example.com/a'));
+
+    expect(duplicate.id).toBe(job.id);
+    const reopened = JobQueue.forStateDir(stateDir);
+    const jobs = await reopened.list();
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0]).toEqual(expect.objectContaining({
+      state: 'pending',
+      attempts: 0,
+      event: expect.objectContaining({ timestamp: '2025-07-27T10:00:00.000Z', metadata: { feedTitle: 'Test Feed' } })
+    }));
+  });
+
+  test('should retry failed jobs after a backoff and move them to dead after the last attempt', async () => {
+    const { id } = await queue.enqueue('rss', 'default', event('https://example.com/a'));
+
+    const first = await queue.claimNext();
+    expect(first).toEqual(expect.objectContaining({ id, state: 'running', attempts: 1 }));
+    const failed = await queue.fail(id, 'Fetch timed out');
+    expect(failed.state).toBe('failed');
+    const delay = new Date(failed.nextRunAt!).getTime() - Date.now();
+    expect(delay).toBeGreaterThan(400);
+    expect(delay).toBeLessThanOrEqual(1000);
+
+    // Not due yet
+    expect(await queue.claimNext()).toBeUndefined();
+
+    const second = await queue.claimNext(new Date(Date.now() + 2000));
+    expect(second?.attempts).toBe(2);
+    const dead = await queue.fail(id, 'Provider outage');
+    expect(dead).toEqual(expect.objectContaining({ state: 'dead', lastError: 'Provider outage' }));
+    expect(await queue.claimNext(new Date(Date.now() + 60000))).toBeUndefined();
+  });
+
+  test('should retry dead jobs with fresh attempts and find jobs by id prefix', async () => {
+    const { id } = await queue.enqueue('rss', 'default', event('https://example.com/a'));
+    await queue.claimNext();
+    await queue.fail(id, 'error');
+    await queue.claimNext(new Date(Date.now() + 10000));
+    await queue.fail(id, 'error');
+
+    const retried = await queue.retry(id.substring(0, 8));
+
+    expect(retried).toHaveLength(1);
+    expect(await queue.get(id.substring(0, 8))).toEqual(expect.objectContaining({ state: 'pending', attempts: 0 }));
+  });
+
+  test('should not lose changes made through another queue instance at the same time', async () => {
+    // Like the daemon and a CLI command, each with its own queue on the same file
+    const other = JobQueue.forStateDir(stateDir);
+    await Promise.all([1, 2, 3, 4].flatMap(n => [
+      queue.enqueue('rss', 'default', event(`https://example.com/a${n}`)),
+      other.enqueue('rss', 'default', event(`https://example.com/b${n}`))
+    ]));
+
+    expect(await queue.list()).toHaveLength(8);
+    await expect(fs.access(path.join(stateDir, 'queue.json.lock'))).rejects.toThrow();
+  });
+
+  test('should purge jobs by state', async () => {
+    const done = await queue.enqueue('rss', 'default', event('https://example.com/a'));
+    await queue.enqueue('rss', 'default', event('https://example.com/b'));
+    await queue.claimNext();
+    await queue.complete(done.id, { savedPath: '/vault/a.md' });
+
+    expect(await queue.purge(['done'])).toBe(1);
+    expect((await queue.list()).map(job => job.event.url)).toEqual(['https://example.com/b']);
+  });
+
+  test('should make jobs interrupted by a crash pending again', async () => {
+    await queue.enqueue('rss', 'default', event('https://example.com/a'));
+    await queue.claimNext();
+
+    expect(await queue.recoverInterrupted()).toBe(1);
+    expect(await queue.list(['pending'])).toHaveLength(1);
+  });
+});
+
+describe('QueueWorker', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'summarizer-worker-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  test('should process due jobs and record results and errors', async () => {
+    const queue = JobQueue.forStateDir(stateDir);
+    await queue.enqueue('rss', 'default', { url: 'https://example.com/ok', timestamp: new Date() });
+    await queue.enqueue('rss', 'default', { url: 'https://example.com/broken', timestamp: new Date() });
+    const handler = jest.fn(async job => {
+      if (job.event.url.endsWith('broken')) {
+        throw new Error('Insufficient content');
+      }
+      return { savedPath: '/vault/ok.md' };
+    });
+    const worker = new QueueWorker(queue, handler, 60000);
+
+    await worker.start();
+    await worker.onIdle();
+    await worker.stop();
+
+    const jobs = await queue.list();
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(jobs[0]).toEqual(expect.objectContaining({ state: 'done', result: { savedPath: '/vault/ok.md' } }));
+    expect(jobs[1]).toEqual(expect.objectContaining({ state: 'failed', attempts: 1, lastError: 'Insufficient content' }));
+  });
+
+  test('should keep polling after a queue write fails', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const queue = JobQueue.forStateDir(stateDir);
+    const handler = jest.fn(async () => ({ savedPath: '/vault/ok.md' }));
+    const worker = new QueueWorker(queue, handler, 20);
+    await worker.start();
+    await worker.onIdle();
+
+    await queue.enqueue('rss', 'default', { url: 'https://example.com/ok', timestamp: new Date() });
+    jest.spyOn(JsonFileStore.prototype, 'write').mockRejectedValueOnce(new Error('ENOSPC: no space left on device'));
+    worker.kick();
+    await worker.onIdle();
+
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Job queue error'), expect.any(Error));
+    expect(handler).not.toHaveBeenCalled();
+
+    // The next poll picks the job up again
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await worker.onIdle();
+    await worker.stop();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect((await queue.list())[0].state).toBe('done');
+  });
+});
@@ -0,0 +1,102 @@
+import { Resummarizer } from '../../../src/services/resummarizer';
+import { ObsidianIntegration } from '../../../src/services/obsidian';
+import { ContentFetcher } from '../../../src/services/fetcher';
+import { AISummarizer, SummaryProfile } from '../../../src/services/summarizer';
+import { parsePropertyQuery } from '../../../src/services/frontmatter';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+
+describe('Resummarizer', () => {
+  let vaultPath: string;
+  let obsidian: ObsidianIntegration;
+  let fetchSource: jest.Mock;
+  let summarize: jest.Mock;
+  let resummarizer: Resummarizer;
+
+  const prompts: Record<string, SummaryProfile> = {
+    default: { id: 'default', name: 'Default', systemPrompt: 'Summarize' },
+    tech: { id: 'tech', name: 'Tech News', systemPrompt: 'Summarize for engineers' }
+  };
+
+  const writeNote = async (name: string, properties: string, body = '<!-- ai-summary:start -->\nOld summary\n<!-- ai-summary:end -->\n\n## My notes\n') => {
+    const notePath = path.join(vaultPath, 'Summaries', `${name}.md`);
+    await fs.mkdir(path.dirname(notePath), { recursive: true });
+    await fs.writeFile(notePath, `---\n${properties}\n---\n\n${body}`, 'utf8');
+    return notePath;
+  };
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'resummarize-vault-'));
+    obsidian = new ObsidianIntegration({ vaultPath, outputFolder: 'Summaries', templateName: 'default', filenameFormat: '{title}' });
+    fetchSource = jest.fn();
+    summarize = jest.fn(async (article, profile) => ({
+      summary: `New summary of ${article.markdownContent}`,
+      originalArticle: article,
+      profile,
+      metadata: { model: 'gpt-4o', provider: 'openai' }
+    }));
+    resummarizer = new Resummarizer(
+      { fetchSource } as unknown as ContentFetcher,
+      { summarize } as unknown as AISummarizer,
+      obsidian,
+      { prompts, defaultPrompt: 'default', model: 'gpt-4o' }
+    );
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  test('should find summary notes in folders that match every query', async () => {
+    const tech = await writeNote('Tech', 'url: https://example.com/a\nprofile: Tech News');
+    await writeNote('Other', 'url: https://example.com/b\nprofile: Default');
+    await writeNote('Tech (clip)', 'type: clip\nurl: https://example.com/a\nprofile: Tech News');
+    await writeNote('Daily', 'date: 2025-01-15');
+
+    const notes = await resummarizer.findNotes([vaultPath], [parsePropertyQuery('profile=tech news')]);
+
+    expect(notes.map(note => note.path)).toEqual([tech]);
+    await expect(resummarizer.findNotes([path.join(vaultPath, 'missing')])).rejects.toThrow('not found');
+  });
+
+  test('should re-fetch the article with the profile recorded in the note', async () => {
+    const notePath = await writeNote('Tech', 'title: Tech\nurl: https://example.com/a\nprofile: Tech News\ntriggeredBy: rss-tech\nrating: 5');
+    fetchSource.mockResolvedValue({ url: 'https://example.com/a', title: 'Tech', markdownContent: 'Fresh article. '.repeat(10) });
+    const [note] = await resummarizer.findNotes([notePath]);
+
+    const result = await resummarizer.resummarize(note);
+
+    expect(summarize).toHaveBeenCalledWith(expect.anything(), prompts.tech, 'gpt-4o', expect.anything());
+    expect(result).toEqual(expect.objectContaining({ source: 'fetched', profile: 'tech', changed: true }));
+    expect(result.diff).toContain('-Old summary\n+New summary of Fresh article.');
+    const content = await fs.readFile(notePath, 'utf8');
+    expect(content).toContain('triggeredBy: rss-tech\nrating: 5\n');
+    expect(content).toContain('model: openai:gpt-4o\n');
+    expect(content).toMatch(/<!-- ai-summary:end -->\n\n## My notes\n$/);
+  });
+
+  test('should fall back to the saved clip when the article cannot be fetched', async () => {
+    const body = '<!-- ai-summary:start -->\nOld summary\n<!-- ai-summary:end -->\n\n> [!quote]- Original article\n> Clipped text\n';
+    const notePath = await writeNote('Tech', 'title: Tech\nurl: https://example.com/a', body);
+    fetchSource.mockRejectedValue(new Error('HTTP 404'));
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const [note] = await resummarizer.findNotes([notePath]);
+
+    const result = await resummarizer.resummarize(note, { profile: 'default', dryRun: true });
+
+    expect(result.source).toBe('clip');
+    expect(result.diff).toContain('+New summary of Clipped text');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('HTTP 404'));
+    // A preview leaves the note unchanged
+    expect(await fs.readFile(notePath, 'utf8')).toContain('Old summary');
+    warn.mockRestore();
+  });
+
+  test('should reject unknown profiles', async () => {
+    const notePath = await writeNote('Tech', 'url: https://example.com/a');
+    const [note] = await resummarizer.findNotes([notePath]);
+
+    await expect(resummarizer.resummarize(note, { profile: 'missing' })).rejects.toThrow("Prompt template 'missing' not found");
+  });
+});
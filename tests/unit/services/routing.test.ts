@@ -0,0 +1,67 @@
+import { RouteRule, RouteSubject, findRoute, validateRoutes } from '../../../src/services/routing';
+
+describe('routing', () => {
+  const subject: RouteSubject = {
+    profile: ['critical', 'Critical Analysis (Korean)'],
+    siteName: 'TechCrunch',
+    domain: 'blog.techcrunch.com',
+    tags: ['analysis', 'korean'],
+    trigger: 'rss-tech',
+    language: 'en',
+    title: 'OpenAI releases a new model'
+  };
+
+  describe('findRoute', () => {
+    test('should return the first rule whose conditions all match', () => {
+      const rules: RouteRule[] = [
+        { profile: 'critical', language: 'ko', folder: 'Korean' },
+        { domain: ['techcrunch.com', 'theverge.com'], tags: 'ANALYSIS', folder: 'Tech/{siteName}' },
+        { folder: 'Inbox' }
+      ];
+
+      expect(findRoute(rules, subject)?.folder).toBe('Tech/{siteName}');
+    });
+
+    test('should match titles by regular expression and triggers by id', () => {
+      expect(findRoute([{ title: '^openai\\b', trigger: 'rss-tech', folder: 'OpenAI' }], subject)?.folder).toBe('OpenAI');
+      expect(findRoute([{ title: 'anthropic', folder: 'Anthropic' }], subject)).toBeUndefined();
+    });
+
+    test('should not treat a missing value as a match', () => {
+      expect(findRoute([{ siteName: 'TechCrunch', folder: 'Tech' }], { profile: [], tags: [] })).toBeUndefined();
+    });
+  });
+
+  describe('validateRoutes', () => {
+    test('should warn about rules that can never match', () => {
+      const warnings = validateRoutes([
+        { profile: 'missing', folder: 'A' },
+        { title: '(unclosed', folder: 'B' },
+        { tags: [], folder: 'C' },
+        { trigger: 'rss-tech', folder: 'D' },
+        { trigger: 'rss-tech', folder: 'E' },
+        { folder: 'Fallback' },
+        { siteName: 'TechCrunch', folder: 'F' }
+      ], { profiles: ['critical', 'Critical Analysis (Korean)'], triggers: ['rss-tech'] });
+
+      expect(warnings).toEqual([
+        'Route 1 (A) can never match: no profile named missing',
+        "Route 2 (B) can never match: invalid title pattern '(unclosed'",
+        "Route 3 (C) can never match: 'tags' is an empty list",
+        'Route 5 (E) can never match: route 4 has the same conditions',
+        'Route 7 (F) can never match: route 6 has no conditions and matches every note first'
+      ]);
+    });
+
+    test('should report unknown conditions and missing folders', () => {
+      const rules = [{ site: 'TechCrunch', folder: 'Tech' }, { language: 'en' }] as unknown as RouteRule[];
+
+      expect(validateRoutes(rules, { profiles: [], triggers: [] })).toEqual([
+        "Route 1 (Tech) has an unknown condition 'site'. Use: profile, siteName, domain, tags, trigger, language, title",
+        'Route 2 has no folder',
+        // The unknown condition is ignored, so route 1 matches everything
+        'Route 2 can never match: route 1 has no conditions and matches every note first'
+      ]);
+    });
+  });
+});
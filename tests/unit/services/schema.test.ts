@@ -0,0 +1,52 @@
+import { JsonSchema, parseJsonResponse, validateJson } from '../../../src/services/schema';
+
+describe('validateJson', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    properties: {
+      tldr: { type: 'string', minLength: 1 },
+      keyPoints: { type: 'array', items: { type: 'string' }, minItems: 1 },
+      sentiment: { type: 'string', enum: ['positive', 'neutral', 'negative'] },
+      score: { type: 'integer', minimum: 0, maximum: 10 }
+    },
+    required: ['tldr', 'keyPoints'],
+    additionalProperties: false
+  };
+
+  test('should accept a matching value', () => {
+    expect(validateJson({ tldr: 'Short', keyPoints: ['One'], sentiment: 'neutral', score: 3 }, schema)).toEqual([]);
+  });
+
+  test('should report every problem with its path', () => {
+    const errors = validateJson({ keyPoints: ['One', 2], sentiment: 'angry', score: 3.5, extra: true }, schema);
+
+    expect(errors).toEqual(expect.arrayContaining([
+      '$.tldr is required',
+      '$.keyPoints[1] must be a string',
+      '$.sentiment must be one of "positive", "neutral", "negative"',
+      '$.score must be an integer',
+      '$.extra is not allowed'
+    ]));
+    expect(errors).toHaveLength(5);
+  });
+
+  test('should check array bounds and root types', () => {
+    expect(validateJson({ tldr: 'x', keyPoints: [] }, schema)).toEqual(['$.keyPoints must have at least 1 items']);
+    expect(validateJson(['not', 'an', 'object'], schema)).toEqual(['$ must be an object']);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  test('should parse plain and fenced JSON', () => {
+    expect(parseJsonResponse('{"a": 1}')).toEqual({ a: 1 });
+    expect(parseJsonResponse('```json\n{"a": 1}\n```')).toEqual({ a: 1 });
+  });
+
+  test('should extract an object surrounded by text', () => {
+    expect(parseJsonResponse('Here is the summary:\n{"a": {"b": 2}}\nHope this helps.')).toEqual({ a: { b: 2 } });
+  });
+
+  test('should reject responses without JSON', () => {
+    expect(() => parseJsonResponse('I cannot do that.')).toThrow('not valid JSON');
+  });
+});
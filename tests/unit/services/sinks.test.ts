@@ -0,0 +1,215 @@
+import * as fs from 'fs/promises';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import {
+  HtmlSink, JsonLinesSink, MarkdownSink, OutputSink, SinkRegistry, WebhookSink,
+  findSkippedOutput, validateSinks, writeToSinks
+} from '../../../src/services/sinks';
+import { SummaryResult } from '../../../src/services/summarizer';
+
+describe('output sinks', () => {
+  let dir: string;
+
+  const summary: SummaryResult = {
+    summary: '# Summary\n\n**Sparse models** are <cheaper>.\n\n- One\n- Two',
+    originalArticle: {
+      url: 'https://example.com/article',
+      markdownContent: 'Article content',
+      title: 'Sparse Models',
+      author: 'Jane Doe',
+      publishedDate: new Date(2025, 0, 15)
+    },
+    profile: { id: 'tech', name: 'Tech News', systemPrompt: 'Test', tags: ['ai'] },
+    metadata: { model: 'gpt-4o', provider: 'openai', triggeredBy: 'rss-tech' }
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'sinks-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should write a markdown file with frontmatter', async () => {
+    const result = await new MarkdownSink('wiki', { type: 'markdown', directory: path.join(dir, 'wiki') }).write(summary);
+
+    expect(result).toEqual({ sink: 'wiki', location: path.join(dir, 'wiki', '2025-01-15 Sparse Models.md') });
+    const content = await fs.readFile(result.location, 'utf8');
+    expect(content).toMatch(/^---\ntitle: Sparse Models\nurl: https:\/\/example\.com\/article\nauthor: Jane Doe\ndate: 2025-01-15\nprofile: Tech News\ntags:\n  - ai\n---\n\n# Summary\n/);
+  });
+
+  test('should append one JSON record per summary', async () => {
+    const sink = new JsonLinesSink('index', { type: 'jsonl', path: path.join(dir, 'out', 'summaries.jsonl') });
+
+    await sink.write(summary);
+    await sink.write(summary);
+
+    const lines = (await fs.readFile(path.join(dir, 'out', 'summaries.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(expect.objectContaining({
+      url: 'https://example.com/article',
+      title: 'Sparse Models',
+      profile: 'tech',
+      model: 'openai:gpt-4o',
+      tags: ['ai'],
+      metadata: { triggeredBy: 'rss-tech' }
+    }));
+  });
+
+  test('should write a standalone HTML page with escaped content', async () => {
+    const result = await new HtmlSink('site', { type: 'html', directory: dir, filenameFormat: '{title}' }).write(summary);
+
+    expect(path.basename(result.location)).toBe('Sparse Models.html');
+    const html = await fs.readFile(result.location, 'utf8');
+    expect(html).toContain('<title>Sparse Models</title>');
+    expect(html).toContain('<p><strong>Sparse models</strong> are &lt;cheaper&gt;.</p>');
+    expect(html).toContain('<ul>\n<li>One</li>\n<li>Two</li>\n</ul>');
+    expect(html).not.toContain('<script');
+  });
+
+  describe('webhook', () => {
+    let server: http.Server;
+    let url: string;
+    let requests: { method?: string; headers: http.IncomingHttpHeaders; body: string }[];
+    let status: number;
+
+    beforeEach(async () => {
+      requests = [];
+      status = 204;
+      server = http.createServer((req, res) => {
+        let body = '';
+        req.on('data', chunk => body += chunk);
+        req.on('end', () => {
+          requests.push({ method: req.method, headers: req.headers, body });
+          res.writeHead(status);
+          res.end(status >= 400 ? 'index unavailable' : '');
+        });
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/summaries`;
+    });
+
+    afterEach(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    test('should post the summary as JSON', async () => {
+      const sink = new WebhookSink('search', { type: 'webhook', url, headers: { Authorization: 'Bearer token' } });
+
+      expect(await sink.write(summary)).toEqual({ sink: 'search', location: url });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0].method).toBe('POST');
+      expect(requests[0].headers.authorization).toBe('Bearer token');
+      expect(requests[0].headers['content-type']).toBe('application/json');
+      expect(JSON.parse(requests[0].body)).toEqual(expect.objectContaining({ url: 'https://example.com/article', summary: summary.summary }));
+    });
+
+    test('should fail on an error response', async () => {
+      status = 503;
+      const sink = new WebhookSink('search', { type: 'webhook', url, method: 'PUT' });
+
+      await expect(sink.write(summary)).rejects.toThrow('HTTP 503: index unavailable');
+      expect(requests[0].method).toBe('PUT');
+    });
+  });
+
+  describe('SinkRegistry', () => {
+    const obsidian = { vaultPath: '/vault', outputFolder: 'Summaries', templateName: 'default', filenameFormat: '{title}' };
+
+    test('should resolve named sinks and fall back to the defaults', () => {
+      const registry = new SinkRegistry({
+        obsidian,
+        sinks: { wiki: { type: 'markdown', directory: dir }, index: { type: 'jsonl', path: path.join(dir, 'a.jsonl') } },
+        defaultSinks: ['obsidian', 'index']
+      });
+
+      expect(registry.names()).toEqual(['obsidian', 'wiki', 'index']);
+      expect(registry.resolve().map(sink => sink.name)).toEqual(['obsidian', 'index']);
+      expect(registry.resolve(['wiki']).map(sink => sink.type)).toEqual(['markdown']);
+      expect(registry.get('wiki')).toBe(registry.get('wiki'));
+      expect(() => registry.resolve(['missing'])).toThrow("Unknown sink 'missing'. Available sinks: obsidian, wiki, index");
+    });
+
+    test('should write to named vaults and apply a folder override', async () => {
+      const teamVault = path.join(dir, 'team');
+      await fs.mkdir(teamVault);
+      const registry = new SinkRegistry({
+        obsidian: { ...obsidian, routes: [{ folder: 'Routed' }] },
+        sinks: { team: { type: 'obsidian', vaultPath: teamVault, outputFolder: 'Research' } }
+      });
+
+      const [team] = registry.resolve(['team']);
+      const [overridden] = registry.resolve(['team'], { outputFolder: 'Inbox/rss' });
+
+      expect(overridden).not.toBe(team);
+      expect(registry.resolve(['team'], { outputFolder: 'Inbox/rss' })[0]).toBe(overridden);
+      // The team sink inherits the routes of the main vault unless a folder is forced
+      expect((await team.write(summary)).location).toBe(path.join(teamVault, 'Routed', 'Sparse Models.md'));
+      const other = { ...summary, originalArticle: { ...summary.originalArticle, url: 'https://example.com/other', title: 'Other' } };
+      expect((await overridden.write(other)).location).toBe(path.join(teamVault, 'Inbox', 'rss', 'Other.md'));
+    });
+
+    test('should only use obsidian without configured sinks', () => {
+      expect(new SinkRegistry({ obsidian }).resolve().map(sink => sink.name)).toEqual(['obsidian']);
+    });
+
+    test('should report invalid sinks and unknown references', () => {
+      const errors = validateSinks({
+        obsidian,
+        sinks: {
+          wiki: { type: 'markdown' } as any,
+          hook: { type: 'webhook', url: 'ftp://example.com' },
+          bad: { type: 'email' } as any
+        },
+        defaultSinks: ['obsidian', 'missing']
+      }, [{ label: "Trigger 'rss-1'", sinks: ['wiki', 'other'] }]);
+
+      expect(errors).toEqual([
+        "Sink 'wiki' (markdown) needs a 'directory' setting",
+        "Sink 'hook' has an invalid webhook URL 'ftp://example.com'",
+        "Sink 'bad' has an invalid type 'email'. Use one of: obsidian, markdown, jsonl, html, webhook",
+        'defaultSinks refers to unknown sink \'missing\'. Available sinks: obsidian, wiki, hook, bad',
+        "Trigger 'rss-1' refers to unknown sink 'other'. Available sinks: obsidian, wiki, hook, bad"
+      ]);
+    });
+  });
+
+  describe('writeToSinks', () => {
+    const createSink = (name: string, write: OutputSink['write'], findExisting?: OutputSink['findExisting']): OutputSink =>
+      ({ name, type: 'markdown', write, findExisting });
+
+    test('should keep writing when one sink fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+      const good = jest.fn().mockResolvedValue({ sink: 'good', location: '/good' });
+
+      const results = await writeToSinks([
+        createSink('broken', jest.fn().mockRejectedValue(new Error('disk full'))),
+        createSink('good', good)
+      ], summary);
+
+      expect(results).toEqual([{ sink: 'good', location: '/good' }]);
+      expect(warn).toHaveBeenCalledWith('⚠️ Could not write to sink broken: disk full');
+      warn.mockRestore();
+    });
+
+    test('should fail when every sink fails', async () => {
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(writeToSinks([createSink('broken', jest.fn().mockRejectedValue(new Error('disk full')))], summary))
+        .rejects.toThrow('No sink accepted the summary (broken: disk full)');
+      warn.mockRestore();
+    });
+
+    test('should only skip an article when every sink already has it', async () => {
+      const write = jest.fn();
+      const existing = createSink('vault', write, jest.fn().mockResolvedValue('/vault/note.md'));
+
+      expect(await findSkippedOutput([existing], 'https://example.com')).toBe('/vault/note.md');
+      expect(await findSkippedOutput([existing, createSink('wiki', write)], 'https://example.com')).toBeUndefined();
+    });
+  });
+});
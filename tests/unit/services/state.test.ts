@@ -0,0 +1,117 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { JsonFileStore, TriggerStateStore, withFileLock } from '../../../src/services/state';
+
+describe('state store', () => {
+  let stateDir: string;
+
+  beforeEach(async () => {
+    stateDir = await fs.mkdtemp(path.join(os.tmpdir(), 'summarizer-state-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(stateDir, { recursive: true, force: true });
+  });
+
+  describe('JsonFileStore', () => {
+    test('should return the default until something is written', async () => {
+      const store = new JsonFileStore(path.join(stateDir, 'nested', 'data.json'), () => ({ count: 0 }));
+
+      expect(await store.read()).toEqual({ count: 0 });
+      await store.write({ count: 2 });
+      expect(await store.read()).toEqual({ count: 2 });
+    });
+
+    test('should serialize concurrent writes and leave no temporary files', async () => {
+      const filePath = path.join(stateDir, 'data.json');
+      const store = new JsonFileStore(filePath, () => ({ count: 0 }));
+
+      await Promise.all([1, 2, 3, 4, 5].map(count => store.write({ count })));
+
+      expect(await store.read()).toEqual({ count: 5 });
+      expect(await fs.readdir(stateDir)).toEqual(['data.json']);
+    });
+
+    test('should report corrupt files instead of starting over', async () => {
+      const filePath = path.join(stateDir, 'data.json');
+      await fs.writeFile(filePath, '{ not json');
+
+      await expect(new JsonFileStore(filePath, () => ({})).read()).rejects.toThrow('Could not read state file');
+    });
+  });
+
+  describe('withFileLock', () => {
+    test('should wait for a held lock and take over a stale one', async () => {
+      const lockPath = path.join(stateDir, 'data.json.lock');
+      await fs.writeFile(lockPath, '123\n');
+
+      await expect(withFileLock(lockPath, async () => 'locked', { timeoutMs: 50 })).rejects.toThrow('Timed out waiting for lock');
+
+      const old = new Date(Date.now() - 60 * 1000);
+      await fs.utimes(lockPath, old, old);
+      expect(await withFileLock(lockPath, async () => 'taken over')).toBe('taken over');
+      await expect(fs.access(lockPath)).rejects.toThrow();
+    });
+  });
+
+  describe('TriggerStateStore', () => {
+    test('should persist item status and the last successful check across instances', async () => {
+      const first = TriggerStateStore.forTrigger(stateDir, 'tech/feed');
+      await first.load();
+      await first.setStatus(['a', 'b'], 'seen');
+      await first.setStatus('c', 'failed', { url: 'https://example.com/c', error: 'timeout' });
+      await first.recordCheck(true, ['a', 'b', 'c']);
+
+      const second = TriggerStateStore.forTrigger(stateDir, 'tech/feed');
+      await second.load();
+
+      expect(second.hasHistory()).toBe(true);
+      expect(second.wasInLastCheck('c')).toBe(true);
+      expect(second.wasInLastCheck('d')).toBe(false);
+      expect(second.isSeen('a')).toBe(true);
+      expect(second.getItem('c')).toEqual(expect.objectContaining({ status: 'failed', error: 'timeout', url: 'https://example.com/c' }));
+      expect(await fs.readdir(path.join(stateDir, 'triggers'))).toEqual(['tech_feed.json']);
+    });
+
+    test('should treat interrupted items as unseen', async () => {
+      const store = new TriggerStateStore();
+      await store.setStatus('a', 'processing');
+
+      expect(store.isSeen('a')).toBe(false);
+      expect(store.isSeen('unknown')).toBe(false);
+    });
+
+    test('should forget old items only after they leave the feed', async () => {
+      const store = new TriggerStateStore();
+      await store.setStatus(['kept', 'gone'], 'done');
+      const longAgo = new Date(Date.now() - 60 * 24 * 60 * 60 * 1000).toISOString();
+      store.getItem('kept')!.updated = longAgo;
+      store.getItem('gone')!.updated = longAgo;
+
+      await store.recordCheck(true, ['kept']);
+
+      expect(store.getItem('kept')).toBeDefined();
+      expect(store.getItem('gone')).toBeUndefined();
+    });
+
+    test('should list skipped items with their reason', async () => {
+      const store = new TriggerStateStore();
+      await store.setStatus('a', 'done', { url: 'https://example.com/a' });
+      await store.setStatus('b', 'skipped', { url: 'https://example.com/b', title: 'Sponsored post', reason: "matched exclude rule 'ads'" });
+
+      expect(store.isSeen('b')).toBe(true);
+      expect(store.listItems('skipped')).toEqual([
+        expect.objectContaining({ id: 'b', title: 'Sponsored post', reason: "matched exclude rule 'ads'" })
+      ]);
+      expect(store.listItems()).toHaveLength(2);
+    });
+
+    test('should not advance the last successful check on failure', async () => {
+      const store = new TriggerStateStore();
+      await store.recordCheck(false);
+
+      expect(store.hasHistory()).toBe(false);
+    });
+  });
+});
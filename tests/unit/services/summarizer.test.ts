@@ -0,0 +1,214 @@
+import { AISummarizer, StructuredOutputError, SummaryProfile } from '../../../src/services/summarizer';
+import { ArticleContent } from '../../../src/services/fetcher';
+import { ProviderError } from '../../../src/services/providers';
+
+const mockCreate = jest.fn();
+jest.mock('openai', () => {
+  return jest.fn().mockImplementation(() => ({
+    chat: { completions: { create: mockCreate } }
+  }));
+});
+
+describe('AISummarizer', () => {
+  let profile: SummaryProfile;
+
+  const createSummarizer = (contextWindows?: Record<string, number>, fallbackModels?: string[]) => AISummarizer.fromConfig({
+    provider: 'openai',
+    apiKey: 'test-key',
+    model: 'gpt-4o',
+    contextWindows,
+    fallbackModels,
+    retry: { maxRetries: 2, initialDelayMs: 1, maxDelayMs: 50 }
+  });
+
+  const createArticle = (markdownContent: string): ArticleContent => ({
+    url: 'https://example.com/article',
+    title: 'Long Article',
+    markdownContent
+  });
+
+  const section = (label: string) => `# ${label}\n\n${`${label} detail sentence. `.repeat(600)}`;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    profile = {
+      name: 'Test Profile',
+      systemPrompt: 'You summarize.',
+      userPrompt: 'Summarize {url}:\n\n{content}'
+    };
+
+    mockCreate.mockImplementation(async (request: any) => ({
+      choices: [{ message: { content: `summary of ${request.messages[1].content.length} chars` } }]
+    }));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('should use a single call for articles that fit the context window', async () => {
+    const summarizer = createSummarizer();
+
+    const result = await summarizer.summarize(createArticle('Short article body.'), profile, 'gpt-4o');
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockCreate.mock.calls[0][0].messages[1].content).toBe('Summarize https://example.com/article:\n\nShort article body.');
+    expect(mockCreate.mock.calls[0][0].model).toBe('gpt-4o');
+    expect(result.metadata).toEqual({ provider: 'openai', model: 'gpt-4o' });
+  });
+
+  test('should map each chunk and reduce with the profile prompt when the article is too long', async () => {
+    const summarizer = createSummarizer({ 'tiny-model': 8000 });
+    const onProgress = jest.fn();
+    const article = createArticle([section('Alpha'), section('Beta'), section('Gamma')].join('\n\n'));
+
+    const result = await summarizer.summarize(article, profile, 'tiny-model', { onProgress });
+
+    const calls = mockCreate.mock.calls.map(call => call[0]);
+    const mapCalls = calls.slice(0, -1);
+    const reduceCall = calls[calls.length - 1];
+
+    expect(mapCalls.length).toBeGreaterThan(1);
+    mapCalls.forEach(call => expect(call.messages[0].content).toContain('condense one part'));
+    expect(reduceCall.messages[0].content).toBe('You summarize.');
+    expect(reduceCall.messages[1].content).toContain('## Part 1/');
+    expect(result.metadata).toEqual({ provider: 'openai', model: 'tiny-model', chunks: mapCalls.length });
+
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'chunking', contextWindow: 8000 }));
+    expect(onProgress).toHaveBeenCalledWith({ stage: 'map', chunk: 1, chunks: mapCalls.length });
+    expect(onProgress).toHaveBeenLastCalledWith({ stage: 'reduce', chunks: mapCalls.length });
+  });
+
+  test('should render article fields and trigger variables in prompts', async () => {
+    const summarizer = createSummarizer();
+    const templated: SummaryProfile = {
+      name: 'Templated',
+      systemPrompt: 'You summarize {siteName|articles}.',
+      userPrompt: '{title} ({title}) by {author|Unknown}{#if feedTitle} via {feedTitle}{/if}\n\n{content}'
+    };
+
+    await summarizer.summarize(createArticle('Body with {title}'), templated, 'gpt-4o', { variables: { feedTitle: 'Example Feed', title: 'ignored' } });
+
+    const messages = mockCreate.mock.calls[0][0].messages;
+    expect(messages[0].content).toBe('You summarize articles.');
+    expect(messages[1].content).toBe('Long Article (Long Article) by Unknown via Example Feed\n\nBody with {title}');
+  });
+
+  test('should route provider-prefixed models to that provider', async () => {
+    const fetchMock = jest.spyOn(global, 'fetch').mockResolvedValue(new Response(JSON.stringify({
+      message: { role: 'assistant', content: 'local summary' }
+    }), { status: 200 }));
+    const summarizer = createSummarizer();
+
+    const result = await summarizer.summarize(createArticle('Short article body.'), profile, 'ollama:llama3.1:8b');
+
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:11434/api/chat', expect.anything());
+    expect(result.summary).toBe('local summary');
+    expect(result.metadata).toEqual({ provider: 'ollama', model: 'llama3.1:8b' });
+  });
+
+  test('should retry transient failures with backoff', async () => {
+    const onProgress = jest.fn();
+    mockCreate
+      .mockRejectedValueOnce(new ProviderError('openai server error (HTTP 503)', 'openai', 503, true))
+      .mockRejectedValueOnce(new ProviderError('openai rate limit exceeded (HTTP 429)', 'openai', 429, true, 20));
+
+    const result = await createSummarizer().summarize(createArticle('Short article body.'), profile, 'gpt-4o', { onProgress });
+
+    expect(mockCreate).toHaveBeenCalledTimes(3);
+    expect(mockCreate.mock.calls[0][1].signal).toBeInstanceOf(AbortSignal);
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'retry', model: 'openai:gpt-4o', attempt: 1 }));
+    // Retry-After is honored instead of the computed backoff
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'retry', attempt: 2, delayMs: 20 }));
+    expect(result.summary).toContain('summary of');
+  });
+
+  test('should not retry non-retryable errors', async () => {
+    mockCreate.mockRejectedValue(new ProviderError('openai rejected the credentials (HTTP 401)', 'openai', 401));
+
+    await expect(createSummarizer().summarize(createArticle('Body'), profile, 'gpt-4o')).rejects.toThrow('HTTP 401');
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+
+  test('should fall back to the next model and record which model answered', async () => {
+    const onProgress = jest.fn();
+    mockCreate.mockImplementation(async (request: any) => {
+      if (request.model === 'gpt-4o') {
+        throw new ProviderError('openai server error (HTTP 500)', 'openai', 500, true);
+      }
+      return { choices: [{ message: { content: `answer from ${request.model}` } }] };
+    });
+
+    const result = await createSummarizer(undefined, ['gpt-4o-mini']).summarize(createArticle('Body'), profile, 'gpt-4o', { onProgress });
+
+    // 1 attempt + 2 retries on the primary model, then the fallback
+    expect(mockCreate).toHaveBeenCalledTimes(4);
+    expect(result.summary).toBe('answer from gpt-4o-mini');
+    expect(result.metadata).toEqual({ provider: 'openai', model: 'gpt-4o-mini', fallbackFrom: 'gpt-4o' });
+    expect(onProgress).toHaveBeenCalledWith(expect.objectContaining({ stage: 'fallback', from: 'gpt-4o', to: 'gpt-4o-mini' }));
+  });
+
+  test('should skip waiting when Retry-After exceeds the maximum delay', async () => {
+    mockCreate.mockRejectedValue(new ProviderError('openai rate limit exceeded (HTTP 429)', 'openai', 429, true, 60000));
+
+    await expect(createSummarizer().summarize(createArticle('Body'), profile, 'gpt-4o')).rejects.toThrow('HTTP 429');
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+  });
+
+  describe('structured output', () => {
+    const structuredProfile = (): SummaryProfile => ({
+      ...profile,
+      outputSchema: {
+        type: 'object',
+        properties: {
+          tldr: { type: 'string' },
+          keyPoints: { type: 'array', items: { type: 'string' } }
+        },
+        required: ['tldr', 'keyPoints']
+      }
+    });
+
+    test('should request JSON mode and return the validated fields', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: '{"tldr": "Short", "keyPoints": ["One"]}' } }] });
+
+      const result = await createSummarizer().summarize(createArticle('Body'), structuredProfile(), 'gpt-4o');
+
+      const request = mockCreate.mock.calls[0][0];
+      expect(request.response_format).toEqual({ type: 'json_object' });
+      expect(request.messages[0].content).toContain('"keyPoints"');
+      expect(result.data).toEqual({ tldr: 'Short', keyPoints: ['One'] });
+    });
+
+    test('should re-ask with the validation errors when the JSON does not match', async () => {
+      const onProgress = jest.fn();
+      mockCreate
+        .mockResolvedValueOnce({ choices: [{ message: { content: '{"tldr": "Short"}' } }] })
+        .mockResolvedValueOnce({ choices: [{ message: { content: '```json\n{"tldr": "Short", "keyPoints": ["One"]}\n```' } }] });
+
+      const result = await createSummarizer().summarize(createArticle('Body'), structuredProfile(), 'gpt-4o', { onProgress });
+
+      expect(mockCreate).toHaveBeenCalledTimes(2);
+      expect(mockCreate.mock.calls[1][0].messages[1].content).toContain('- $.keyPoints is required');
+      expect(onProgress).toHaveBeenCalledWith({ stage: 'invalid', attempt: 1, errors: ['$.keyPoints is required'] });
+      expect(result.data).toEqual({ tldr: 'Short', keyPoints: ['One'] });
+    });
+
+    test('should give up after repeated invalid responses', async () => {
+      mockCreate.mockResolvedValue({ choices: [{ message: { content: 'not json' } }] });
+
+      await expect(createSummarizer().summarize(createArticle('Body'), structuredProfile(), 'gpt-4o'))
+        .rejects.toBeInstanceOf(StructuredOutputError);
+      expect(mockCreate).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  test('should require a user prompt', async () => {
+    const summarizer = createSummarizer();
+
+    await expect(summarizer.summarize(createArticle('Body'), { name: 'Empty', systemPrompt: 'x' }))
+      .rejects.toThrow('Profile Empty has no userPrompt defined');
+  });
+});
@@ -0,0 +1,119 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { createArticleContext, createPartialLoader, formatDatePattern, renderTemplate } from '../../../src/services/template';
+
+describe('renderTemplate', () => {
+  const context = {
+    title: 'Sparse Models',
+    author: undefined,
+    categories: ['AI', 'Research'],
+    publishedDate: new Date(2025, 2, 1),
+    metaData: { 'og:site_name': 'Example News' }
+  };
+
+  test('should replace every occurrence of a placeholder', () => {
+    expect(renderTemplate('{title} / {title}', context)).toBe('Sparse Models / Sparse Models');
+  });
+
+  test('should format nested values, arrays and dates', () => {
+    expect(renderTemplate('{metaData.og:site_name} | {categories} | {publishedDate}', context))
+      .toBe('Example News | AI, Research | 2025-03-01');
+  });
+
+  test('should apply inline defaults before option defaults', () => {
+    expect(renderTemplate('{author|Unknown}', context)).toBe('Unknown');
+    expect(renderTemplate('{author}', context, { defaults: { author: 'Anonymous' } })).toBe('Anonymous');
+    expect(renderTemplate('{author|}', context, { defaults: { author: 'Anonymous' } })).toBe('');
+  });
+
+  test('should leave unknown placeholders and literal braces untouched', () => {
+    expect(renderTemplate('{feedTitle} {"json": true} {author}', context)).toBe('{feedTitle} {"json": true} ');
+  });
+
+  test('should render conditional sections', () => {
+    const template = '{#if author}By {author}{else}No author{/if}{#if !categories} none{/if}{#if categories} [{categories}]{/if}';
+    expect(renderTemplate(template, context)).toBe('No author [AI, Research]');
+    expect(renderTemplate(template, { ...context, author: 'Jane' })).toBe('By Jane [AI, Research]');
+  });
+
+  test('should repeat sections for each list item', () => {
+    const data = { keyPoints: ['First', 'Second'], entities: [{ name: 'OpenAI', kind: 'org' }], empty: [] };
+
+    expect(renderTemplate('{#each keyPoints}\n- {this}{/each}', data)).toBe('\n- First\n- Second');
+    expect(renderTemplate('{#each entities}{name} ({kind}){/each}', data)).toBe('OpenAI (org)');
+    expect(renderTemplate('[{#each empty}x{/each}]', data)).toBe('[]');
+    expect(() => renderTemplate('{#each keyPoints}{/if}', data)).toThrow('{/if} without a matching {#if}');
+  });
+
+  test('should not re-parse substituted values', () => {
+    expect(renderTemplate('{content}', { content: 'Use {title} here' }, {})).toBe('Use {title} here');
+  });
+
+  test('should transform substituted values only', () => {
+    expect(renderTemplate('{title}: {author|n/a}', context, { transform: value => value.toUpperCase() })).toBe('SPARSE MODELS: n/a');
+  });
+
+  test('should reject unbalanced conditionals', () => {
+    expect(() => renderTemplate('{#if title}open', context)).toThrow('unclosed');
+    expect(() => renderTemplate('{/if}', context)).toThrow('without a matching');
+  });
+});
+
+describe('partials', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prompt-partials-'));
+    await fs.writeFile(path.join(dir, 'style.md'), 'Write about {title}.');
+    await fs.writeFile(path.join(dir, 'loop.md'), '{> loop}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  test('should include partials with the same context', () => {
+    const partials = createPartialLoader(dir);
+    expect(renderTemplate('Rules: {> style}', { title: 'Sparse Models' }, { partials })).toBe('Rules: Write about Sparse Models.');
+  });
+
+  test('should fail on missing or recursive partials', () => {
+    const partials = createPartialLoader(dir);
+    expect(() => renderTemplate('{> missing}', {}, { partials })).toThrow("partial 'missing' not found");
+    expect(() => renderTemplate('{> loop}', {}, { partials })).toThrow('nested more than');
+    expect(() => renderTemplate('{> ../outside}', {}, { partials })).toThrow('not found');
+  });
+
+  test('should not include files from sibling directories with the same name prefix', async () => {
+    const sibling = `${dir}-evil`;
+    await fs.mkdir(sibling);
+    await fs.writeFile(path.join(sibling, 'secret.md'), 'Secret');
+    try {
+      const partials = createPartialLoader(dir);
+      expect(() => renderTemplate(`{> ../${path.basename(sibling)}/secret}`, {}, { partials })).toThrow('not found');
+    } finally {
+      await fs.rm(sibling, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('createArticleContext', () => {
+  test('should expose article fields even when missing', () => {
+    const articleContext = createArticleContext({ url: 'https://example.com', markdownContent: 'Body' });
+
+    expect(renderTemplate('{url} {siteName|?}', articleContext)).toBe('https://example.com ?');
+    expect(renderTemplate('{siteName}', articleContext)).toBe('');
+  });
+});
+
+describe('formatDatePattern', () => {
+  test('should format Obsidian date tokens and keep bracketed text', () => {
+    const date = new Date(2025, 0, 5);
+
+    expect(formatDatePattern(date, 'YYYY-MM-DD')).toBe('2025-01-05');
+    expect(formatDatePattern(date, 'YY/M/D dddd')).toBe('25/1/5 Sunday');
+    expect(formatDatePattern(date, '[Week of] MMM D, YYYY (ddd)')).toBe('Week of Jan 5, 2025 (Sun)');
+    expect(formatDatePattern(new Date(2025, 0, 5, 9, 7), 'HH:mm')).toBe('09:07');
+  });
+});
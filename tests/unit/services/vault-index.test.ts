@@ -0,0 +1,58 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { VaultIndex, canonicalizeUrl } from '../../../src/services/vault-index';
+
+describe('canonicalizeUrl', () => {
+  test('should treat variants of the same article URL as equal', () => {
+    const canonical = canonicalizeUrl('https://example.com/posts/ai?id=7');
+
+    expect(canonicalizeUrl('http://WWW.Example.com/posts/ai/?utm_source=rss&id=7#comments')).toBe(canonical);
+    expect(canonicalizeUrl('https://example.com/posts/ai?id=7&fbclid=abc')).toBe(canonical);
+  });
+
+  test('should keep meaningful query parameters in a stable order', () => {
+    expect(canonicalizeUrl('https://example.com/search?q=llm&page=2')).toBe('https://example.com/search?page=2&q=llm');
+  });
+
+  test('should leave non-web sources unchanged', () => {
+    expect(canonicalizeUrl('file:///home/user/saved.html')).toBe('file:///home/user/saved.html');
+    expect(canonicalizeUrl('stdin:')).toBe('stdin:');
+  });
+});
+
+describe('VaultIndex', () => {
+  let vaultPath: string;
+
+  beforeEach(async () => {
+    vaultPath = await fs.mkdtemp(path.join(os.tmpdir(), 'vault-index-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(vaultPath, { recursive: true, force: true });
+  });
+
+  test('should find notes anywhere in the vault by their url property', async () => {
+    const notePath = path.join(vaultPath, 'Moved', 'Deep', 'note.md');
+    await fs.mkdir(path.dirname(notePath), { recursive: true });
+    await fs.writeFile(notePath, '---\ntitle: Note\nurl: "https://www.example.com/a/"\ncreated: 2025-01-15 09:30\n---\n\nBody');
+    await fs.mkdir(path.join(vaultPath, '.trash'));
+    await fs.writeFile(path.join(vaultPath, '.trash', 'old.md'), '---\nurl: https://example.com/b\n---\n');
+
+    const index = new VaultIndex(vaultPath);
+
+    expect(await index.find('https://example.com/a?utm_medium=feed')).toEqual({
+      path: notePath,
+      url: 'https://www.example.com/a/',
+      created: '2025-01-15 09:30'
+    });
+    expect(await index.find('https://example.com/b')).toBeUndefined();
+  });
+
+  test('should rescan when an indexed note has been removed', async () => {
+    const index = new VaultIndex(vaultPath);
+    await index.add({ path: path.join(vaultPath, 'gone.md'), url: 'https://example.com/a' });
+
+    expect(await index.find('https://example.com/a')).toBeUndefined();
+  });
+});
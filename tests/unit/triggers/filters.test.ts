@@ -0,0 +1,63 @@
+import { FilterItem, getRejectionReason, matchesRule, validateFilters } from '../../../src/services/triggers/filters';
+
+describe('RSS item filters', () => {
+  const now = new Date('2025-07-27T12:00:00Z');
+  const item: FilterItem = {
+    title: 'OpenAI releases a new model',
+    description: 'The company said the model is cheaper to run.',
+    categories: ['AI', 'Research'],
+    author: 'Jane Doe',
+    link: 'https://example.com/ai/new-model',
+    published: new Date('2025-07-27T06:00:00Z')
+  };
+
+  test('should match keywords as whole words in the title and description by default', () => {
+    expect(matchesRule({ keywords: ['model'] }, item)).toBe(true);
+    // "AI" must not match "said"
+    expect(matchesRule({ keywords: ['ai'], fields: ['description'] }, item)).toBe(false);
+    expect(matchesRule({ keywords: ['ai'], fields: ['categories'] }, item)).toBe(true);
+    expect(matchesRule({ keywords: ['AI'] }, { title: 'AI는 어디로 가는가' })).toBe(true);
+  });
+
+  test('should require both keywords and pattern when a rule has both', () => {
+    expect(matchesRule({ keywords: ['openai'], pattern: '/ai/', fields: ['title', 'link'] }, item)).toBe(true);
+    expect(matchesRule({ keywords: ['openai'], pattern: '^https://other\\.com', fields: ['title', 'link'] }, item)).toBe(false);
+    expect(matchesRule({ fields: ['title'] }, item)).toBe(false);
+  });
+
+  test('should accept items that pass every filter', () => {
+    expect(getRejectionReason({
+      include: [{ keywords: ['llm'] }, { fields: ['categories'], keywords: ['ai'] }],
+      exclude: [{ keywords: ['sponsored'] }],
+      minLength: { description: 20 },
+      maxAgeHours: 24
+    }, item, now)).toBeUndefined();
+  });
+
+  test('should report the filter that rejected an item', () => {
+    expect(getRejectionReason({ exclude: [{ fields: ['author'], pattern: '^jane' }] }, item, now))
+      .toBe('matched exclude rule 1 (pattern /^jane/ in author)');
+    expect(getRejectionReason({ exclude: [{ name: 'vendor news', keywords: ['openai'] }] }, item, now))
+      .toBe("matched exclude rule 'vendor news'");
+    expect(getRejectionReason({ include: [{ keywords: ['crypto'] }] }, item, now)).toBe('matched no include rule');
+    expect(getRejectionReason({ minLength: { description: 100 } }, item, now)).toBe('description shorter than 100 characters (45)');
+    expect(getRejectionReason({ maxAgeHours: 2 }, item, now)).toBe('older than 2h (published 2025-07-27T06:00:00.000Z)');
+    // Without a date the age is unknown and the item is kept
+    expect(getRejectionReason({ maxAgeHours: 2 }, { ...item, published: undefined }, now)).toBeUndefined();
+  });
+
+  test('should validate rules', () => {
+    expect(validateFilters({
+      include: [{ fields: ['body' as any], keywords: ['ai'] }, { pattern: '(' }],
+      exclude: [{ name: 'empty' }],
+      minLength: { summary: 10 } as any,
+      maxAgeHours: 0
+    }, "Trigger 'rss-1'")).toEqual([
+      "Trigger 'rss-1' include rule 1 (keywords ai in body) has unknown fields body. Use: title, description, categories, author, link",
+      "Trigger 'rss-1' include rule 2 (pattern /(/ in title, description) has an invalid pattern '('",
+      "Trigger 'rss-1' exclude rule 'empty' needs keywords or a pattern",
+      "Trigger 'rss-1' minLength has an unknown field 'summary'. Use: title, description, categories, author, link",
+      "Trigger 'rss-1' maxAgeHours must be a positive number"
+    ]);
+  });
+});
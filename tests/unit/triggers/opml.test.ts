@@ -0,0 +1,89 @@
+import { createOpml, exportOpmlFeeds, importOpmlFeeds, parseOpml } from '../../../src/services/triggers/opml';
+import { TriggerConfig } from '../../../src/services/triggers/base';
+
+describe('OPML', () => {
+  const opml = `<?xml version="1.0" encoding="UTF-8"?>
+    <opml version="1.0">
+      <head><title>Reader</title></head>
+      <body>
+        <outline text="Tech" title="Tech">
+          <outline text="AI">
+            <outline type="rss" text="OpenAI News &amp; Updates" xmlUrl="https://openai.com/news/rss.xml" htmlUrl="https://openai.com/news"/>
+            <outline type="rss" text="인공지능 뉴스" xmlUrl="https://www.aitimes.kr/rss/allArticle.xml"/>
+          </outline>
+          <outline type="rss" text="Hacker News" xmlUrl="https://news.ycombinator.com/rss"/>
+        </outline>
+        <outline type="rss" title="Lab Blog" xmlUrl="https://lab.example.com/feed" category="/Research/Labs"/>
+        <outline type="rss" text="Hacker News again" xmlUrl="https://news.ycombinator.com/rss/"/>
+      </body>
+    </opml>`;
+
+  const options = { profile: 'default', schedule: '0 * * * *' };
+
+  test('should read feeds with their folder path as category', () => {
+    expect(parseOpml(opml)).toEqual([
+      { title: 'OpenAI News & Updates', xmlUrl: 'https://openai.com/news/rss.xml', htmlUrl: 'https://openai.com/news', category: 'Tech/AI' },
+      { title: '인공지능 뉴스', xmlUrl: 'https://www.aitimes.kr/rss/allArticle.xml', htmlUrl: undefined, category: 'Tech/AI' },
+      { title: 'Hacker News', xmlUrl: 'https://news.ycombinator.com/rss', htmlUrl: undefined, category: 'Tech' },
+      { title: 'Lab Blog', xmlUrl: 'https://lab.example.com/feed', htmlUrl: undefined, category: 'Research/Labs' },
+      { title: 'Hacker News again', xmlUrl: 'https://news.ycombinator.com/rss/', htmlUrl: undefined, category: undefined }
+    ]);
+    expect(() => parseOpml('<rss><channel/></rss>')).toThrow('Not a valid OPML document');
+  });
+
+  test('should create triggers with ids from the feed titles and mapped profiles and folders', () => {
+    const existing: TriggerConfig[] = [{ id: 'rss-hacker-news-2', name: 'Other', type: 'rss', enabled: true, profile: 'default', feedUrl: 'https://other.example.com/rss' }];
+    const { triggers, created, updated } = importOpmlFeeds(existing, parseOpml(opml), {
+      ...options,
+      profiles: { ai: 'ainews', 'Research/Labs': 'structured' },
+      folders: { Tech: 'News/Tech' }
+    });
+
+    expect(created).toEqual(['rss-openai-news-updates', 'rss-aitimes-kr', 'rss-hacker-news', 'rss-lab-blog']);
+    expect(updated).toEqual([]);
+    expect(triggers[1]).toEqual({
+      id: 'rss-openai-news-updates',
+      name: 'OpenAI News & Updates',
+      type: 'rss',
+      enabled: true,
+      profile: 'ainews',
+      feedUrl: 'https://openai.com/news/rss.xml',
+      schedule: '0 * * * *',
+      maxItemsPerCheck: 3,
+      category: 'Tech/AI',
+      outputFolder: 'News/Tech'
+    });
+    expect(triggers.map(trigger => trigger.profile)).toEqual(['default', 'ainews', 'ainews', 'default', 'structured']);
+  });
+
+  test('should update existing triggers instead of duplicating them', () => {
+    const first = importOpmlFeeds([], parseOpml(opml), options).triggers;
+    const edited = first.map(trigger => trigger.id === 'rss-hacker-news' ? { ...trigger, schedule: '*/15 * * * *' } : trigger);
+    const renamed = opml.replace('text="Hacker News"', 'text="HN Front Page"');
+
+    const { triggers, created, updated, unchanged } = importOpmlFeeds(edited, parseOpml(renamed), { ...options, profiles: { Labs: 'critical' } });
+
+    expect(created).toEqual([]);
+    expect(updated).toEqual(['rss-hacker-news', 'rss-lab-blog']);
+    expect(unchanged).toEqual(['rss-openai-news-updates', 'rss-aitimes-kr']);
+    expect(triggers).toHaveLength(4);
+    expect(triggers.find(trigger => trigger.id === 'rss-hacker-news')).toEqual(expect.objectContaining({
+      name: 'HN Front Page',
+      schedule: '*/15 * * * *'
+    }));
+    expect(triggers.find(trigger => trigger.id === 'rss-lab-blog')!.profile).toBe('critical');
+  });
+
+  test('should export RSS triggers nested by category and read them back', () => {
+    const triggers: TriggerConfig[] = [
+      ...importOpmlFeeds([], parseOpml(opml), options).triggers,
+      { id: 'inbox', name: 'Inbox', type: 'watch', enabled: true, profile: 'default', path: 'Inbox.md' }
+    ];
+
+    const exported = createOpml(exportOpmlFeeds(triggers), 'Feeds <AI>');
+
+    expect(exported).toContain('<title>Feeds &lt;AI&gt;</title>');
+    expect(exported).toContain('    <outline text="Tech" title="Tech">\n      <outline text="AI" title="AI">\n');
+    expect(parseOpml(exported)).toEqual(parseOpml(opml).slice(0, 4).map(feed => ({ ...feed, htmlUrl: undefined })));
+  });
+});
@@ -0,0 +1,140 @@
+import { PageTrigger, PageTriggerConfig, parseListingPage, validatePageTrigger } from '../../../src/services/triggers/page';
+import { ContentFetcher } from '../../../src/services/fetcher';
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(() => ({ start: jest.fn(), stop: jest.fn() }))
+}));
+
+const mockSchedule = require('node-cron').schedule;
+
+const listing = (posts: string[]) => `
+  <html><head><title>Lab Blog</title></head><body>
+    <nav><a href="/">Home</a><a href="/about">About</a></nav>
+    ${posts.map(slug => `<article><h2><a href="/blog/${slug}">  Post ${slug}\n</a></h2></article>`).join('\n')}
+    <footer><a href="https://twitter.com/lab">Twitter</a></footer>
+  </body></html>`;
+
+describe('Listing page parsing', () => {
+  test('should extract the selected links as absolute URLs', () => {
+    expect(parseListingPage(listing(['b', 'a']), 'https://lab.example.com/blog', { selector: 'article h2 a' })).toEqual({
+      title: 'Lab Blog',
+      links: [
+        { url: 'https://lab.example.com/blog/b', title: 'Post b' },
+        { url: 'https://lab.example.com/blog/a', title: 'Post a' }
+      ]
+    });
+  });
+
+  test('should find links inside selected elements and filter by pattern', () => {
+    const html = `
+      <div class="card"><a href="/blog/x#comments">X</a></div>
+      <div class="card"><a href="/blog/x">X again</a></div>
+      <div class="card"><a href="mailto:lab@example.com">Mail</a></div>
+      <a href="/blog/y">Y</a><a href="/careers">Jobs</a><a href="#top">Top</a>`;
+
+    expect(parseListingPage(html, 'https://lab.example.com/blog', { selector: '.card' }).links.map(link => link.url))
+      .toEqual(['https://lab.example.com/blog/x']);
+    expect(parseListingPage(html, 'https://lab.example.com/blog', { linkPattern: '/blog/[^/]+$' }).links.map(link => link.url))
+      .toEqual(['https://lab.example.com/blog/x', 'https://lab.example.com/blog/y']);
+  });
+
+  test('should validate page triggers', () => {
+    const base = { id: 'lab', name: 'Lab', type: 'page' as const, enabled: true, profile: 'default', schedule: '0 * * * *' };
+    expect(validatePageTrigger({ ...base, pageUrl: 'https://lab.example.com/blog', selector: 'article a' })).toEqual([]);
+    expect(validatePageTrigger({ ...base, pageUrl: 'lab.example.com', selector: 'a[', linkPattern: '(', fetchMode: 'fast' as any })).toEqual([
+      "Page trigger 'lab' needs a 'pageUrl' with an http(s) URL",
+      "Page trigger 'lab' has an invalid selector 'a['",
+      "Page trigger 'lab' has an invalid linkPattern '('",
+      "Page trigger 'lab' has an invalid fetchMode 'fast'. Use one of: static, browser, auto"
+    ]);
+    expect(validatePageTrigger({ ...base, pageUrl: 'https://lab.example.com/blog' }))
+      .toEqual(["Page trigger 'lab' needs a 'selector' or 'linkPattern' to find the article links"]);
+  });
+});
+
+describe('PageTrigger', () => {
+  let onTrigger: jest.Mock;
+  let fetchHtml: jest.Mock;
+  let fetcher: ContentFetcher;
+  let config: PageTriggerConfig;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    onTrigger = jest.fn().mockResolvedValue(undefined);
+    fetchHtml = jest.fn();
+    fetcher = { fetchHtml, resolveFetchMode: jest.fn(() => 'static') } as unknown as ContentFetcher;
+    config = {
+      id: 'lab-blog', name: 'Lab Blog', type: 'page', enabled: true, profile: 'default',
+      pageUrl: 'https://lab.example.com/blog', schedule: '0 * * * *', selector: 'article h2 a', maxItemsPerCheck: 2
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const page = (posts: string[]) => ({ html: listing(posts), url: 'https://lab.example.com/blog' });
+
+  test('should trigger for new links only, oldest first and within the safety limit', async () => {
+    fetchHtml
+      .mockResolvedValueOnce(page(['a']))
+      .mockResolvedValueOnce(page(['d', 'c', 'b', 'a']))
+      .mockResolvedValueOnce(page(['d', 'c', 'b', 'a']));
+    const trigger = new PageTrigger(config, onTrigger, fetcher);
+
+    await trigger.start();
+    expect(onTrigger).not.toHaveBeenCalled();
+
+    const checkPage = mockSchedule.mock.calls[0][1];
+    await checkPage();
+    expect(onTrigger.mock.calls.map(([event]) => event.url)).toEqual([
+      'https://lab.example.com/blog/c',
+      'https://lab.example.com/blog/d'
+    ]);
+    expect(onTrigger.mock.calls[0][0]).toEqual(expect.objectContaining({
+      title: 'Post c',
+      metadata: expect.objectContaining({ feedTitle: 'Lab Blog', feedUrl: 'https://lab.example.com/blog' })
+    }));
+
+    // The link beyond the limit follows in the next check
+    await checkPage();
+    expect(onTrigger).toHaveBeenCalledTimes(3);
+    expect(onTrigger.mock.calls[2][0].url).toBe('https://lab.example.com/blog/b');
+    await trigger.stop();
+  });
+
+  test('should record the baseline on the first check that works', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    fetchHtml
+      .mockRejectedValueOnce(new Error('HTTP 503 Service Unavailable'))
+      .mockResolvedValueOnce(page(['b', 'a']))
+      .mockResolvedValueOnce(page(['c', 'b', 'a']));
+    const trigger = new PageTrigger(config, onTrigger, fetcher);
+
+    await trigger.start();
+    const checkPage = mockSchedule.mock.calls[0][1];
+    await checkPage();
+    expect(onTrigger).not.toHaveBeenCalled();
+
+    await checkPage();
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    expect(onTrigger.mock.calls[0][0].url).toBe('https://lab.example.com/blog/c');
+    await trigger.stop();
+  });
+
+  test('should render the page in the browser when static HTML has no links in auto mode', async () => {
+    (fetcher.resolveFetchMode as jest.Mock).mockReturnValue('auto');
+    fetchHtml
+      .mockResolvedValueOnce({ html: '<div id="app"></div>', url: config.pageUrl })
+      .mockResolvedValueOnce(page(['a']));
+    const trigger = new PageTrigger(config, onTrigger, fetcher);
+
+    await trigger.start();
+
+    expect(fetchHtml).toHaveBeenNthCalledWith(1, config.pageUrl, { mode: 'static' });
+    expect(fetchHtml).toHaveBeenNthCalledWith(2, config.pageUrl, { mode: 'browser' });
+    expect(trigger.getStatus().lastCheck).toBeInstanceOf(Date);
+    await trigger.stop();
+  });
+});
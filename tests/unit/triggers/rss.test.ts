@@ -1,6 +1,8 @@
 import { RssTrigger, RssTriggerConfig } from '../../../src/services/triggers/rss';
 import { TriggerEvent } from '../../../src/services/triggers/base';
+import { TriggerStateStore } from '../../../src/services/state';
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 
 // Mock rss-parser
@@ -190,6 +192,60 @@ describe('RssTrigger', () => {
       );
     });
 
+    test('should skip filtered items and record why', async () => {
+      const stateStore = new TriggerStateStore();
+      const filteredTrigger = new RssTrigger({
+        ...rssConfig,
+        maxItemsPerCheck: 1,
+        filters: { exclude: [{ name: 'no testing', fields: ['categories'], keywords: ['testing'] }], include: [{ keywords: ['article'] }] }
+      }, mockOnTrigger, stateStore);
+
+      mockParseURL
+        .mockResolvedValueOnce({ items: [] })
+        .mockResolvedValueOnce(mockRssFeed);
+
+      await filteredTrigger.start();
+      const cronCallback = mockSchedule.mock.calls[0][1];
+      await cronCallback();
+
+      // The skipped item does not use up the one slot of the safety limit
+      expect(mockOnTrigger).toHaveBeenCalledTimes(1);
+      expect(mockOnTrigger).toHaveBeenCalledWith(expect.objectContaining({ url: 'https://example.com/article-1' }));
+      expect(stateStore.getItem('https://example.com/article-3')).toEqual(expect.objectContaining({
+        status: 'skipped',
+        title: 'Third Test Article',
+        reason: "matched exclude rule 'no testing'"
+      }));
+    });
+
+    test('should use PDF enclosures for items without links', async () => {
+      const paperFeed = {
+        ...mockRssFeed,
+        items: [
+          {
+            title: 'Paper Without Link',
+            guid: 'paper-1',
+            enclosure: { url: 'https://example.com/papers/paper-1.pdf', type: 'application/pdf' }
+          }
+        ]
+      };
+
+      mockParseURL
+        .mockResolvedValueOnce({ items: [] })
+        .mockResolvedValueOnce(paperFeed);
+
+      await trigger.start();
+
+      const cronCallback = mockSchedule.mock.calls[0][1];
+      await cronCallback();
+
+      expect(mockOnTrigger).toHaveBeenCalledWith(
+        expect.objectContaining({
+          url: 'https://example.com/papers/paper-1.pdf'
+        })
+      );
+    });
+
     test('should provide warning when exceeding safety limits', async () => {
       const consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
       const limitedConfig = { ...rssConfig, maxItemsPerCheck: 1 };
@@ -212,6 +268,98 @@ describe('RssTrigger', () => {
     });
   });
 
+  describe('Persistent State', () => {
+    let stateDir: string;
+
+    beforeEach(() => {
+      stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rss-state-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(stateDir, { recursive: true, force: true });
+    });
+
+    test('should catch up on items published since the last successful check after a restart', async () => {
+      const previous = TriggerStateStore.forTrigger(stateDir, rssConfig.id);
+      await previous.load();
+      await previous.recordCheck(true);
+      const state = JSON.parse(fs.readFileSync(path.join(stateDir, 'triggers', 'test-rss.json'), 'utf8'));
+      state.lastSuccessfulCheck = '2025-07-27T08:30:00.000Z';
+      fs.writeFileSync(path.join(stateDir, 'triggers', 'test-rss.json'), JSON.stringify(state));
+
+      const timeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(() => 0 as any);
+      const restarted = new RssTrigger(rssConfig, mockOnTrigger, TriggerStateStore.forTrigger(stateDir, rssConfig.id));
+      await restarted.start();
+
+      // The catch-up check is scheduled right after start
+      const catchUp = timeoutSpy.mock.calls[0][0] as () => Promise<void>;
+      timeoutSpy.mockRestore();
+      await catchUp();
+
+      // Items 1 and 2 were published after 08:30; item 3 predates the last check
+      expect(mockOnTrigger).toHaveBeenCalledTimes(2);
+      expect(mockOnTrigger.mock.calls.map(call => call[0].url)).toEqual([
+        'https://example.com/article-2',
+        'https://example.com/article-1'
+      ]);
+    });
+
+    test('should process items left for the next cycle by the safety limit after a restart', async () => {
+      const limitedConfig = { ...rssConfig, maxItemsPerCheck: 1 };
+      const timeoutSpy = jest.spyOn(global, 'setTimeout').mockImplementation(() => 0 as any);
+      mockParseURL.mockResolvedValueOnce({ items: [] });
+
+      const first = new RssTrigger(limitedConfig, mockOnTrigger, TriggerStateStore.forTrigger(stateDir, rssConfig.id));
+      await first.start();
+      await mockSchedule.mock.calls[0][1]();
+      await first.stop();
+      expect(mockOnTrigger.mock.calls.map(call => call[0].url)).toEqual(['https://example.com/article-1']);
+
+      // All three items predate the last check, but two were deferred
+      const restarted = new RssTrigger(limitedConfig, mockOnTrigger, TriggerStateStore.forTrigger(stateDir, rssConfig.id));
+      await restarted.start();
+      const catchUp = timeoutSpy.mock.calls[0][0] as () => Promise<void>;
+      timeoutSpy.mockRestore();
+      await catchUp();
+      await mockSchedule.mock.calls[1][1]();
+
+      expect(mockOnTrigger.mock.calls.map(call => call[0].url)).toEqual([
+        'https://example.com/article-1',
+        'https://example.com/article-2',
+        'https://example.com/article-3'
+      ]);
+    });
+
+    test('should mark the current feed as seen on the very first start', async () => {
+      const store = TriggerStateStore.forTrigger(stateDir, rssConfig.id);
+      await new RssTrigger(rssConfig, mockOnTrigger, store).start();
+
+      const reloaded = TriggerStateStore.forTrigger(stateDir, rssConfig.id);
+      await reloaded.load();
+      expect(reloaded.hasHistory()).toBe(true);
+      expect(reloaded.isSeen('https://example.com/article-1')).toBe(true);
+    });
+
+    test('should record failures and leave items beyond the limit for the next check', async () => {
+      const store = new TriggerStateStore();
+      const limitedTrigger = new RssTrigger({ ...rssConfig, maxItemsPerCheck: 1 }, mockOnTrigger, store);
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      mockOnTrigger.mockRejectedValueOnce(new Error('Provider outage'));
+      mockParseURL.mockResolvedValueOnce({ items: [] });
+
+      await limitedTrigger.start();
+      const cronCallback = mockSchedule.mock.calls[0][1];
+      await cronCallback();
+      await cronCallback();
+
+      expect(store.getItem('https://example.com/article-1')).toEqual(expect.objectContaining({ status: 'failed', error: 'Provider outage' }));
+      expect(store.getItem('https://example.com/article-2')).toEqual(expect.objectContaining({ status: 'done' }));
+      expect(store.isSeen('https://example.com/article-3')).toBe(false);
+
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe('Status and Lifecycle', () => {
     test('should provide correct status information', async () => {
       await trigger.start();
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WatchTrigger, WatchTriggerConfig, findInboxLinks, markInboxLinks, parseLinkFile } from '../../../src/services/triggers/watch';
+import { TriggerStateStore } from '../../../src/services/state';
+
+jest.mock('node-cron', () => ({
+  schedule: jest.fn(() => ({ start: jest.fn(), stop: jest.fn() }))
+}));
+
+describe('Inbox parsing', () => {
+  const inbox = [
+    '---',
+    'source: https://example.com/not-a-link',
+    '---',
+    '# Inbox',
+    '- [ ] https://example.com/a',
+    '- [x] https://example.com/done → [[Done]]',
+    '- [Article B](https://example.com/b)',
+    'Read this: https://example.com/c.',
+    '```',
+    'https://example.com/in-code',
+    '```',
+    'No link here'
+  ].join('\n');
+
+  test('should find URLs on unprocessed lines only', () => {
+    expect(findInboxLinks(inbox)).toEqual([
+      { url: 'https://example.com/a', line: 4 },
+      { url: 'https://example.com/b', title: 'Article B', line: 6 },
+      { url: 'https://example.com/c', line: 7 }
+    ]);
+  });
+
+  test('should check off the lines with the URL and link the note', () => {
+    const updated = markInboxLinks(inbox, 'https://example.com/a', 'Article A')!;
+    expect(updated.split('\n')[4]).toBe('- [x] https://example.com/a → [[Article A]]');
+
+    const bare = markInboxLinks(updated, 'https://example.com/c')!;
+    expect(bare.split('\n')[7]).toBe('- [x] Read this: https://example.com/c.');
+    expect(findInboxLinks(bare).map(link => link.url)).toEqual(['https://example.com/b']);
+    expect(markInboxLinks(bare, 'https://example.com/a')).toBeUndefined();
+  });
+
+  test('should read URLs from link files', () => {
+    expect(parseLinkFile('Article.url', '[InternetShortcut]\r\nURL=https://example.com/a\r\n')).toEqual(['https://example.com/a']);
+    expect(parseLinkFile('Article.webloc', [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<plist version="1.0"><dict>',
+      '  <key>URL</key>',
+      '  <string>https://example.com/b?x=1&amp;y=2</string>',
+      '</dict></plist>'
+    ].join('\n'))).toEqual(['https://example.com/b?x=1&y=2']);
+    expect(parseLinkFile('links.txt', 'https://example.com/c\nand https://example.com/d\n')).toEqual([
+      'https://example.com/c',
+      'https://example.com/d'
+    ]);
+  });
+});
+
+describe('WatchTrigger', () => {
+  let vaultPath: string;
+  let onTrigger: jest.Mock;
+  let config: WatchTriggerConfig;
+
+  beforeEach(() => {
+    vaultPath = fs.mkdtempSync(path.join(os.tmpdir(), 'watch-trigger-'));
+    onTrigger = jest.fn().mockResolvedValue(undefined);
+    config = { id: 'inbox', name: 'Inbox', type: 'watch', enabled: true, profile: 'default', path: 'Inbox.md' };
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fs.rmSync(vaultPath, { recursive: true, force: true });
+  });
+
+  test('should queue new links from an inbox note once and check them off when saved', async () => {
+    const inboxPath = path.join(vaultPath, 'Inbox.md');
+    fs.writeFileSync(inboxPath, '# Inbox\n- [ ] https://example.com/a\n- [ ] https://example.com/b\n');
+    const trigger = new WatchTrigger({ ...config, maxItemsPerCheck: 1 }, onTrigger, new TriggerStateStore(), vaultPath);
+
+    await trigger.start();
+    expect(onTrigger).toHaveBeenCalledTimes(1);
+    const event = onTrigger.mock.calls[0][0];
+    expect(event).toEqual(expect.objectContaining({ url: 'https://example.com/a', metadata: { inboxFile: inboxPath } }));
+
+    // The queued link is not queued again; the next one is
+    await trigger.runTestCheck();
+    expect(onTrigger).toHaveBeenCalledTimes(2);
+    expect(onTrigger.mock.calls[1][0].url).toBe('https://example.com/b');
+
+    await trigger.onEventProcessed(event, path.join(vaultPath, 'News', 'Article A.md'));
+    expect(fs.readFileSync(inboxPath, 'utf8')).toBe(
+      '# Inbox\n- [x] https://example.com/a → [[Article A]]\n- [ ] https://example.com/b\n'
+    );
+    await trigger.stop();
+  });
+
+  test('should move link files to the processed folder once all their URLs are saved', async () => {
+    const folder = path.join(vaultPath, 'Inbox');
+    fs.mkdirSync(folder);
+    fs.writeFileSync(path.join(folder, 'Article.url'), '[InternetShortcut]\nURL=https://example.com/a\n');
+    fs.writeFileSync(path.join(folder, 'links.txt'), 'https://example.com/b\nhttps://example.com/c\n');
+    fs.writeFileSync(path.join(folder, 'notes.md'), 'https://example.com/ignored\n');
+    const trigger = new WatchTrigger({ ...config, path: 'Inbox' }, onTrigger, new TriggerStateStore(), vaultPath);
+
+    await trigger.start();
+    expect(onTrigger.mock.calls.map(([event]) => event.url).sort()).toEqual([
+      'https://example.com/a', 'https://example.com/b', 'https://example.com/c'
+    ]);
+    const eventFor = (url: string) => onTrigger.mock.calls.map(([event]) => event).find(event => event.url === url);
+    expect(eventFor('https://example.com/a').title).toBe('Article');
+
+    await trigger.onEventProcessed(eventFor('https://example.com/a'), '/vault/A.md');
+    await trigger.onEventProcessed(eventFor('https://example.com/b'), '/vault/B.md');
+    expect(fs.readdirSync(path.join(folder, 'Processed'))).toEqual(['Article.url']);
+    expect(fs.existsSync(path.join(folder, 'links.txt'))).toBe(true);
+
+    await trigger.onEventProcessed(eventFor('https://example.com/c'), '/vault/C.md');
+    expect(fs.readdirSync(path.join(folder, 'Processed')).sort()).toEqual(['Article.url', 'links.txt']);
+    await trigger.stop();
+  });
+
+  test('should wait for an inbox that does not exist yet', async () => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const trigger = new WatchTrigger(config, onTrigger, new TriggerStateStore(), vaultPath);
+
+    await trigger.start();
+
+    expect(onTrigger).not.toHaveBeenCalled();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('not found'));
+    await trigger.stop();
+  });
+});
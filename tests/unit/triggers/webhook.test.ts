@@ -0,0 +1,160 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WebhookTrigger, WebhookTriggerConfig } from '../../../src/services/triggers/webhook';
+import { JobQueue } from '../../../src/services/queue';
+import { TriggerManager } from '../../../src/services/triggers/manager';
+import { ContentFetcher } from '../../../src/services/fetcher';
+import { AISummarizer } from '../../../src/services/summarizer';
+import { ConfigManager } from '../../../src/utils/config';
+
+describe('WebhookTrigger', () => {
+  let stateDir: string;
+  let queue: JobQueue;
+  let onTrigger: jest.Mock;
+  let trigger: WebhookTrigger;
+  let baseUrl: string;
+
+  const config: WebhookTriggerConfig = {
+    id: 'submit', name: 'Submit API', type: 'webhook', enabled: true, profile: 'default', port: 0, secret: 's3cret'
+  };
+
+  const request = (pathname: string, init: RequestInit = {}, secret = 's3cret') => fetch(`${baseUrl}${pathname}`, {
+    ...init,
+    headers: { 'Content-Type': 'application/json', ...(secret ? { Authorization: `Bearer ${secret}` } : {}), ...init.headers }
+  });
+
+  beforeEach(async () => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-trigger-'));
+    queue = JobQueue.forStateDir(stateDir);
+    // Like the manager's handler: queue the event and report the job
+    onTrigger = jest.fn(async event => ({ jobId: (await queue.enqueue('submit', event.profile || 'default', event)).id }));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    trigger = new WebhookTrigger(config, onTrigger, { queue, profiles: ['default', 'critical'] });
+    await trigger.start();
+    baseUrl = `http://127.0.0.1:${trigger.port}`;
+  });
+
+  afterEach(async () => {
+    await trigger.stop();
+    jest.restoreAllMocks();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  test('should queue a submitted URL with its profile and tags and report the job', async () => {
+    const response = await request('/summarize', {
+      method: 'POST',
+      body: JSON.stringify({ url: 'https://example.com/a', title: 'Article A', profile: 'critical', tags: ['to-read'] })
+    });
+
+    expect(response.status).toBe(202);
+    const body = await response.json();
+    expect(onTrigger).toHaveBeenCalledWith(expect.objectContaining({
+      url: 'https://example.com/a', title: 'Article A', profile: 'critical', tags: ['to-read']
+    }));
+    expect(body).toEqual({ jobId: expect.any(String), url: 'https://example.com/a', statusUrl: `/jobs/${body.jobId}` });
+
+    const status = await request(`/jobs/${body.jobId.substring(0, 8)}`);
+    expect(status.status).toBe(200);
+    expect(await status.json()).toEqual(expect.objectContaining({
+      jobId: body.jobId, state: 'pending', url: 'https://example.com/a', profile: 'critical', attempts: 0
+    }));
+  });
+
+  test('should reject requests without the secret', async () => {
+    for (const secret of ['', 'wrong']) {
+      const response = await request('/summarize', { method: 'POST', body: JSON.stringify({ url: 'https://example.com/a' }) }, secret);
+      expect(response.status).toBe(401);
+    }
+    const header = await fetch(`${baseUrl}/jobs/unknown`, { headers: { 'X-Webhook-Secret': 's3cret' } });
+    expect(header.status).toBe(404);
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  test('should answer invalid requests with JSON errors', async () => {
+    const post = (body: string) => request('/summarize', { method: 'POST', body });
+
+    expect((await post('not json')).status).toBe(400);
+    expect(await (await post(JSON.stringify({ url: 'ftp://example.com/a' }))).json()).toEqual({ error: "'url' must be an http(s) URL" });
+    expect(await (await post(JSON.stringify({ url: 'https://example.com/a', profile: 'nope' }))).json())
+      .toEqual({ error: "Unknown profile 'nope'. Available profiles: default, critical" });
+    expect((await post(JSON.stringify({ url: 'https://example.com/a', tags: 'ai' }))).status).toBe(400);
+    expect((await request('/summarize')).status).toBe(405);
+    expect((await request('/other')).status).toBe(404);
+    expect(onTrigger).not.toHaveBeenCalled();
+  });
+
+  test('should not show jobs of other triggers', async () => {
+    const job = await queue.enqueue('rss-tech-news', 'default', { url: 'https://example.com/b', timestamp: new Date() });
+
+    expect((await request(`/jobs/${job.id}`)).status).toBe(404);
+  });
+
+  test('should refuse to start without a secret', async () => {
+    const unsecured = new WebhookTrigger({ ...config, secret: undefined }, onTrigger);
+    const previous = process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_SECRET;
+    try {
+      await expect(unsecured.start()).rejects.toThrow('needs a secret');
+    } finally {
+      if (previous !== undefined) {
+        process.env.WEBHOOK_SECRET = previous;
+      }
+    }
+  });
+});
+
+describe('WebhookTrigger with the trigger manager', () => {
+  let stateDir: string;
+  let manager: TriggerManager;
+
+  const trigger: WebhookTriggerConfig = {
+    id: 'submit', name: 'Submit API', type: 'webhook', enabled: true, profile: 'default', port: 0, secret: 's3cret', sinks: ['log']
+  };
+
+  beforeEach(async () => {
+    stateDir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhook-manager-'));
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(ContentFetcher.prototype, 'fetchArticle').mockImplementation(async url => ({
+      url, title: 'Submitted', markdownContent: 'Article text. '.repeat(20)
+    }));
+    jest.spyOn(AISummarizer.prototype, 'summarize').mockImplementation(async (article, profile) => ({
+      summary: 'A summary', originalArticle: article, profile, metadata: { model: 'test-model' }
+    }));
+
+    const config = {
+      ai: { apiKey: 'test-key', model: 'test-model' },
+      obsidian: { vaultPath: stateDir, outputFolder: 'Notes' },
+      prompts: { default: { name: 'Default', systemPrompt: 'Summarize', userPrompt: '{content}' } },
+      defaultPrompt: 'default',
+      stateDir: path.join(stateDir, 'state'),
+      sinks: { log: { type: 'jsonl', path: path.join(stateDir, 'summaries.jsonl') } },
+      triggers: [trigger]
+    };
+    manager = new TriggerManager({ loadConfig: jest.fn().mockResolvedValue(config) } as unknown as ConfigManager);
+    await manager.initialize();
+    await manager.loadTriggers([trigger]);
+    await manager.startAllTriggers();
+  });
+
+  afterEach(async () => {
+    await manager.cleanup();
+    jest.restoreAllMocks();
+    fs.rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  test('should record the webhook as the trigger of the summary', async () => {
+    const port = (manager as unknown as { triggers: Map<string, WebhookTrigger> }).triggers.get('submit')!.port;
+    const response = await fetch(`http://127.0.0.1:${port}/summarize`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer s3cret' },
+      body: JSON.stringify({ url: 'https://example.com/post' })
+    });
+    expect(response.status).toBe(202);
+    await manager.waitForQueue();
+
+    const [record] = fs.readFileSync(path.join(stateDir, 'summaries.jsonl'), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(record.url).toBe('https://example.com/post');
+    expect(record.metadata).toEqual({ triggeredBy: 'submit' });
+  });
+});
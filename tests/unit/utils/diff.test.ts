@@ -0,0 +1,34 @@
+import { createUnifiedDiff } from '../../../src/utils/diff';
+
+describe('createUnifiedDiff', () => {
+  test('should return an empty string for equal texts', () => {
+    expect(createUnifiedDiff('same\n', 'same\n')).toBe('');
+  });
+
+  test('should show changed lines with context', () => {
+    const before = ['a', 'b', 'c', 'd', 'e'].join('\n');
+    const after = ['a', 'b', 'C', 'd', 'e'].join('\n');
+
+    expect(createUnifiedDiff(before, after, { fromLabel: 'a/note.md', toLabel: 'b/note.md', context: 1 })).toBe([
+      '--- a/note.md',
+      '+++ b/note.md',
+      '@@ -2,3 +2,3 @@',
+      ' b',
+      '-c',
+      '+C',
+      ' d',
+      ''
+    ].join('\n'));
+  });
+
+  test('should split distant changes into separate hunks', () => {
+    const before = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+    const after = ['one', '2', '3', '4', '5', '6', '7', '8', '9'].join('\n');
+
+    const diff = createUnifiedDiff(before, after, { context: 1 });
+
+    expect(diff.match(/^@@.*@@$/gm)).toEqual(['@@ -1,2 +1,2 @@', '@@ -8,1 +8,2 @@']);
+    expect(diff).toContain('-1\n+one\n');
+    expect(diff).toContain(' 8\n+9\n');
+  });
+});
@@ -0,0 +1,46 @@
+import { sanitizeFilename, stripIllegalCharacters, truncateToBytes } from '../../../src/utils/filename';
+
+describe('filename sanitizing', () => {
+  test('should keep non-Latin scripts, accents and emoji', () => {
+    expect(sanitizeFilename('東京の AI スタートアップ')).toBe('東京の AI スタートアップ');
+    expect(sanitizeFilename('人工智能 新闻 🚀 Café Größe')).toBe('人工智能 新闻 🚀 Café Größe');
+    expect(sanitizeFilename('인공지능 뉴스 - v1.2')).toBe('인공지능 뉴스 - v1.2');
+  });
+
+  test('should remove characters that are illegal on any platform or in Obsidian links', () => {
+    expect(stripIllegalCharacters('What: "AI" <is> / isn\'t? [draft] #1 ^a | b\\c*')).toBe('What AI is isn\'t draft 1 a bc');
+    expect(stripIllegalCharacters('line\none\ttab')).toBe('line one tab');
+  });
+
+  test('should normalize Unicode to composed form', () => {
+    const decomposed = 'Café';
+
+    expect(sanitizeFilename(decomposed)).toBe('Café');
+  });
+
+  test('should avoid hidden files, trailing dots and reserved device names', () => {
+    expect(sanitizeFilename('..hidden')).toBe('hidden');
+    expect(sanitizeFilename('Wait for it... ')).toBe('Wait for it');
+    expect(sanitizeFilename('CON')).toBe('CON_');
+    expect(sanitizeFilename('lpt1.summary')).toBe('lpt1.summary_');
+    expect(sanitizeFilename('Console')).toBe('Console');
+  });
+
+  test('should truncate by UTF-8 bytes at a word boundary', () => {
+    const title = '가나다 라마바 사아자 차카타';
+
+    // Hangul syllables are 3 bytes each
+    expect(truncateToBytes(title, 28)).toBe('가나다 라마바');
+    expect(Buffer.byteLength(sanitizeFilename('word '.repeat(100), { maxBytes: 50 }))).toBeLessThanOrEqual(50);
+  });
+
+  test('should never split an emoji sequence or accented character', () => {
+    const family = '👨‍👩‍👧‍👦';
+
+    expect(truncateToBytes(`ab${family}`, 10)).toBe('ab');
+    expect(truncateToBytes('🇰🇷🇯🇵', 12)).toBe('🇰🇷');
+    // A third regional indicator starts a new character
+    expect(truncateToBytes('🇰🇷🇯', 11)).toBe('🇰🇷');
+    expect(truncateToBytes('éé', 4)).toBe('é');
+  });
+});
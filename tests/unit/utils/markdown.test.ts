@@ -0,0 +1,28 @@
+import { markdownToHtml } from '../../../src/utils/markdown';
+
+describe('markdownToHtml', () => {
+  test('should convert headings, paragraphs and lists', () => {
+    expect(markdownToHtml('## Key points\n\nFirst line\nsecond line\n\n1. One\n2. Two\n\n- A\n- B')).toBe([
+      '<h2>Key points</h2>',
+      '<p>First line<br>\nsecond line</p>',
+      '<ol>\n<li>One</li>\n<li>Two</li>\n</ol>',
+      '<ul>\n<li>A</li>\n<li>B</li>\n</ul>'
+    ].join('\n'));
+  });
+
+  test('should format inline markup and escape HTML', () => {
+    expect(markdownToHtml('**Bold**, *italic*, `<code> **x**` and [link](https://example.com/?a=1&b=2) <script>'))
+      .toBe('<p><strong>Bold</strong>, <em>italic</em>, <code>&lt;code&gt; **x**</code> and <a href="https://example.com/?a=1&amp;b=2">link</a> &lt;script&gt;</p>');
+  });
+
+  test('should drop unsafe link targets and keep wikilink text', () => {
+    expect(markdownToHtml('[click](javascript:void) and [[Other note|alias]]')).toBe('<p><a href="#">click</a> and alias</p>');
+  });
+
+  test('should convert code blocks, quotes and callouts', () => {
+    expect(markdownToHtml('```ts\nconst a = 1 < 2;\n```\n\n> [!info] Source\n> Example')).toBe([
+      '<pre><code class="language-ts">const a = 1 &lt; 2;</code></pre>',
+      '<blockquote>\n<p><strong>Source</strong><br>\nExample</p>\n</blockquote>'
+    ].join('\n'));
+  });
+});
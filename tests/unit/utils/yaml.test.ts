@@ -0,0 +1,62 @@
+import { toYaml } from '../../../src/utils/yaml';
+
+describe('toYaml', () => {
+  test('should write plain scalars without quotes', () => {
+    expect(toYaml({ title: 'Sparse models are cheaper', url: 'https://example.com/a?b=1', model: 'openai:gpt-4o', score: 7, draft: false }))
+      .toBe('title: Sparse models are cheaper\nurl: https://example.com/a?b=1\nmodel: openai:gpt-4o\nscore: 7\ndraft: false\n');
+  });
+
+  test('should quote strings that YAML would misread', () => {
+    const yaml = toYaml({
+      colon: 'Why: an answer',
+      quote: '"Quoted" title',
+      hash: 'C # notes',
+      dash: '- not a list',
+      bool: 'yes',
+      number: '42',
+      multiline: 'line one\nline two',
+      padded: ' spaced ',
+      empty: ''
+    });
+
+    expect(yaml).toBe([
+      'colon: "Why: an answer"',
+      'quote: "\\"Quoted\\" title"',
+      'hash: "C # notes"',
+      'dash: "- not a list"',
+      'bool: "yes"',
+      'number: "42"',
+      'multiline: "line one\\nline two"',
+      'padded: " spaced "',
+      'empty: ""',
+      ''
+    ].join('\n'));
+  });
+
+  test('should write lists, nested mappings and skip undefined values', () => {
+    const yaml = toYaml({
+      tags: ['ai', 'machine-learning'],
+      aliases: [],
+      missing: undefined,
+      entities: [{ name: 'OpenAI', type: 'org' }],
+      source: { feed: 'Tech News', categories: ['AI'] },
+      "Source URL": 'https://example.com'
+    });
+
+    expect(yaml).toBe([
+      'tags:',
+      '  - ai',
+      '  - machine-learning',
+      'aliases: []',
+      'entities:',
+      '  - name: OpenAI',
+      '    type: org',
+      'source:',
+      '  feed: Tech News',
+      '  categories:',
+      '    - AI',
+      '"Source URL": https://example.com',
+      ''
+    ].join('\n'));
+  });
+});